@@ -0,0 +1,86 @@
+import { type Signal, signal, type WritableSignal } from "@angular/core";
+import type { HybridWebCache } from "../core/HybridWebCache";
+import type { KeyPath, TTL, ValueType, WatchSubscription } from "../core/types";
+
+/**
+ * Exposes the values of the provided {@link HybridWebCache} as Angular signals, kept up to date
+ * with the changes made by the application and by other tabs.
+ *
+ * Provided by `provideHybridWebCache`.
+ *
+ * @example
+ *
+ * ```ts
+ * @Component({ template: `Hello {{ name() }}` })
+ * export class GreetingComponent {
+ * 	private cache = inject(HybridWebCacheService);
+ * 	name = this.cache.signal<string>('user.name');
+ *
+ * 	rename(name: string) {
+ * 		this.cache.set('user.name', name);
+ * 	}
+ * }
+ * ```
+ *
+ * @category Angular
+ */
+export class HybridWebCacheService {
+	/** The underlying cache, for the methods not exposed by the service. */
+	readonly cache: HybridWebCache;
+
+	/** Signals by keyPath, shared by every caller and updated for the lifetime of the service. */
+	private signals: Map<string, { value: WritableSignal<ValueType | undefined>; subscription: WatchSubscription }> = new Map();
+
+	constructor(cache: HybridWebCache) {
+		this.cache = cache;
+	}
+
+	/**
+	 * Returns a read-only signal of the value at the given keyPath: it holds the current value,
+	 * is updated whenever the value changes, locally or in another tab, and holds `undefined` once removed.
+	 *
+	 * @template T - The type of the value.
+	 * @param {@link KeyPath} keyPath - The keyPath of the value.
+	 * @returns The signal of the value.
+	 */
+	signal<T extends ValueType>(keyPath: KeyPath): Signal<T | undefined> {
+		const id = JSON.stringify(keyPath);
+		let entry = this.signals.get(id);
+
+		if (!entry) {
+			// Starts with the value held in memory, until the watcher reads the current one from the storage
+			const value = signal<ValueType | undefined>(this.cache.peekSync(keyPath)?.value);
+			const subscription = this.cache.watch(keyPath).subscribe((model) => value.set(model?.value));
+			entry = { value, subscription };
+			this.signals.set(id, entry);
+		}
+
+		return entry.value.asReadonly() as Signal<T | undefined>;
+	}
+
+	/**
+	 * Stores a value at the given keyPath; the signals of the keyPath are updated once stored.
+	 *
+	 * @param {@link KeyPath} keyPath - The keyPath of the value.
+	 * @param {@link ValueType} value - The value to store.
+	 * @param {@link TTL} ttl - Optional TTL. Defaults to the cache's TTL.
+	 */
+	set<T extends ValueType>(keyPath: KeyPath, value: T, ttl?: Partial<TTL>): Promise<void> {
+		return this.cache.set(keyPath, value, ttl);
+	}
+
+	/**
+	 * Removes the value at the given keyPath; its signals then hold `undefined`.
+	 *
+	 * @param {@link KeyPath} keyPath - The keyPath of the value.
+	 */
+	unset(keyPath: KeyPath): Promise<boolean> {
+		return this.cache.unset(keyPath);
+	}
+
+	/** @internal Stops updating the signals, when the injector providing the service is destroyed. */
+	destroy(): void {
+		this.signals.forEach(({ subscription }) => subscription.unsubscribe());
+		this.signals.clear();
+	}
+}
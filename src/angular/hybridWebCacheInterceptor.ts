@@ -0,0 +1,107 @@
+import { HttpContextToken, type HttpEvent, type HttpHandlerFn, HttpHeaders, type HttpInterceptorFn, type HttpRequest, HttpResponse } from "@angular/common/http";
+import { inject } from "@angular/core";
+import { from, type Observable, of, switchMap, tap } from "rxjs";
+import type { KeyPath } from "../core/types";
+import { HYBRID_WEBCACHE, HYBRID_WEBCACHE_HTTP_OPTIONS } from "./provideHybridWebCache";
+
+/**
+ * Set to `false` in the `HttpContext` of a GET request to bypass `hybridWebCacheInterceptor`.
+ *
+ * @example
+ *
+ * ```ts
+ * http.get('/api/now', { context: new HttpContext().set(CACHE_HTTP_RESPONSE, false) });
+ * ```
+ *
+ * @category Angular
+ */
+export const CACHE_HTTP_RESPONSE = new HttpContextToken<boolean>(() => true);
+
+/** @internal */
+type CachedResponse = {
+	body: unknown;
+	status: number;
+	statusText: string;
+	url: string | null;
+	headers: Record<string, string[]>;
+};
+
+/** The request headers that change the response, and so are part of the cache key. */
+const VARY_HEADERS = ["Accept", "Accept-Language"];
+
+/** A single-element keyPath, so the dots of the URL are not read as nested keys. */
+function cacheKey(request: HttpRequest<unknown>): KeyPath {
+	const headers = VARY_HEADERS.filter((name) => request.headers.has(name)).map((name) => `${name.toLowerCase()}=${request.headers.getAll(name)?.join(",")}`);
+	return [[`http:${request.urlWithParams}`, ...headers].join("|")];
+}
+
+function isCacheable(request: HttpRequest<unknown>, filter?: (url: string) => boolean): boolean {
+	return (
+		request.method === "GET" &&
+		// Blobs and array buffers cannot be serialized by every storage
+		(request.responseType === "json" || request.responseType === "text") &&
+		// Responses to credentialed requests may be private to the user, and must not be served to other ones
+		!request.withCredentials &&
+		!request.headers.has("Authorization") &&
+		request.context.get(CACHE_HTTP_RESPONSE) &&
+		(filter?.(request.urlWithParams) ?? true)
+	);
+}
+
+function serialize(response: HttpResponse<unknown>): CachedResponse {
+	const headers: Record<string, string[]> = {};
+	response.headers.keys().forEach((name) => {
+		headers[name] = response.headers.getAll(name) ?? [];
+	});
+
+	return { body: response.body, status: response.status, statusText: response.statusText, url: response.url, headers };
+}
+
+function deserialize(cached: CachedResponse): HttpResponse<unknown> {
+	return new HttpResponse({ ...cached, url: cached.url ?? undefined, headers: new HttpHeaders(cached.headers) });
+}
+
+/**
+ * An HTTP interceptor that answers GET requests from the cache provided by `provideHybridWebCache`
+ * and caches the successful responses for `http.ttl`, keyed by their URL and their `Accept` and `Accept-Language`
+ * headers. Requests with a `false` {@link CACHE_HTTP_RESPONSE} context, with a URL rejected by `http.filter`,
+ * expecting a blob or an array buffer, or sent with credentials (`withCredentials` or an `Authorization` header),
+ * are not cached. When the cache cannot be read, the request is sent as if nothing was cached.
+ *
+ * @example
+ *
+ * ```ts
+ * bootstrapApplication(AppComponent, {
+ * 	providers: [provideHybridWebCache({ http: { ttl: { minutes: 5 } } }), provideHttpClient(withInterceptors([hybridWebCacheInterceptor]))],
+ * });
+ * ```
+ *
+ * @category Angular
+ */
+export const hybridWebCacheInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
+	const cache = inject(HYBRID_WEBCACHE);
+	const { ttl, filter } = inject(HYBRID_WEBCACHE_HTTP_OPTIONS);
+
+	if (!isCacheable(request, filter)) return next(request);
+
+	const key = cacheKey(request);
+
+	// A cache that cannot be read is bypassed, rather than failing the request
+	const cached = cache.get<CachedResponse>(key).catch(() => undefined);
+
+	return from(cached).pipe(
+		switchMap((cached) => {
+			if (cached && !cached.isExpired) return of(deserialize(cached.value));
+
+			return next(request).pipe(
+				tap((event) => {
+					if (event instanceof HttpResponse && event.ok) {
+						cache.set(key, serialize(event), ttl).catch(() => {
+							// A response that cannot be stored is requested again next time
+						});
+					}
+				})
+			);
+		})
+	);
+};
@@ -0,0 +1,3 @@
+export * from "./HybridWebCacheService";
+export * from "./hybridWebCacheInterceptor";
+export * from "./provideHybridWebCache";
@@ -0,0 +1,93 @@
+import { APP_INITIALIZER, DestroyRef, type EnvironmentProviders, InjectionToken, inject, makeEnvironmentProviders } from "@angular/core";
+import { HybridWebCache } from "../core/HybridWebCache";
+import type { Options, TTL } from "../core/types";
+import { HybridWebCacheService } from "./HybridWebCacheService";
+
+/**
+ * `HttpCacheOptions` configures the GET responses cached by `hybridWebCacheInterceptor`.
+ *
+ * @property {Partial<TTL>} ttl - The time to live of the cached responses. Defaults to the cache's TTL.
+ * @property {(url: string) => boolean} filter - Whether the response of a URL is cached. Defaults to every URL.
+ *
+ * @category Angular
+ */
+export type HttpCacheOptions = {
+	ttl?: Partial<TTL>;
+	filter?: (url: string) => boolean;
+};
+
+/**
+ * `HybridWebCacheConfig` is the configuration given to `provideHybridWebCache`: the {@link Options}
+ * of the cache, plus its base name and the options of the HTTP interceptor.
+ *
+ * @property {string} baseName - The base name of the cache. Defaults to `HybridWebCache`.
+ * @property {HttpCacheOptions} http - How `hybridWebCacheInterceptor` caches GET responses.
+ *
+ * @category Angular
+ */
+export type HybridWebCacheConfig = Partial<Options> & {
+	baseName?: string;
+	http?: HttpCacheOptions;
+};
+
+/**
+ * The {@link HybridWebCache} provided by `provideHybridWebCache`.
+ *
+ * @category Angular
+ */
+export const HYBRID_WEBCACHE = new InjectionToken<HybridWebCache>("HYBRID_WEBCACHE");
+
+/**
+ * The HTTP options provided by `provideHybridWebCache`.
+ *
+ * @category Angular
+ */
+export const HYBRID_WEBCACHE_HTTP_OPTIONS = new InjectionToken<HttpCacheOptions>("HYBRID_WEBCACHE_HTTP_OPTIONS", { factory: () => ({}) });
+
+/**
+ * Provides a {@link HybridWebCache}, injectable with the `HYBRID_WEBCACHE` token, and the
+ * {@link HybridWebCacheService} exposing its values as signals.
+ *
+ * The application waits for the cache to be initialized (e.g. IndexedDB loaded into memory)
+ * before bootstrapping, so synchronous reads and signals hold the stored values from the start.
+ *
+ * @param config - The options of the cache, its base name and the options of the HTTP interceptor.
+ * @returns The providers to add to `bootstrapApplication` or to a route.
+ *
+ * @example
+ *
+ * ```ts
+ * bootstrapApplication(AppComponent, {
+ * 	providers: [
+ * 		provideHybridWebCache({ baseName: 'myApp', storage: StorageEngine.IndexedDB, http: { ttl: { minutes: 5 } } }),
+ * 		provideHttpClient(withInterceptors([hybridWebCacheInterceptor])),
+ * 	],
+ * });
+ * ```
+ *
+ * @category Angular
+ */
+export function provideHybridWebCache(config: HybridWebCacheConfig = {}): EnvironmentProviders {
+	const { baseName, http = {}, ...options } = config;
+
+	return makeEnvironmentProviders([
+		{ provide: HYBRID_WEBCACHE, useFactory: () => new HybridWebCache(baseName, options) },
+		{ provide: HYBRID_WEBCACHE_HTTP_OPTIONS, useValue: http },
+		{
+			provide: HybridWebCacheService,
+			useFactory: () => {
+				const service = new HybridWebCacheService(inject(HYBRID_WEBCACHE));
+				inject(DestroyRef).onDestroy(() => service.destroy());
+				return service;
+			},
+		},
+		{
+			provide: APP_INITIALIZER,
+			multi: true,
+			useFactory: () => {
+				const cache = inject(HYBRID_WEBCACHE);
+				return () => cache.init();
+			},
+		},
+	]);
+}
@@ -0,0 +1,152 @@
+import { cloneDeep as _cloneDeep, get as _get, set as _set, unset as _unset } from "lodash";
+import type { CacheEvent, DataGetModel, DataModel, KeyPath, SetOptions, TTL, ValueType } from "./types";
+import { Utils } from "./utils";
+
+/** @internal */
+type TransactionSource = {
+	/** Reads the stored entry of a key. */
+	read: (key: string) => Promise<DataModel<ValueType> | undefined>;
+	/** Builds the entry holding `value`, keeping the tags of the previous entry unless others are given. */
+	prepare: (value: ValueType, ttl: Partial<TTL> | SetOptions | undefined, previous: DataModel<ValueType> | undefined) => DataModel<ValueType>;
+};
+
+/**
+ * The changes staged by a {@link CacheTransaction}, applied by `HybridWebCache.transaction` once its callback resolves.
+ * @internal
+ */
+export type TransactionChanges = {
+	writes: Map<string, DataModel<ValueType>>;
+	removals: string[];
+	events: CacheEvent[];
+};
+
+/**
+ * The transaction passed to the callback of `HybridWebCache.transaction`.
+ *
+ * Writes are staged, and seen by the reads of the same transaction, until the callback resolves:
+ * they are then committed together, or not at all when the callback or the commit fails.
+ * The transaction can no longer be used once its callback has settled.
+ *
+ * @example
+ *
+ * ```ts
+ * await cache.transaction(async (tx) => {
+ * 	const items = (await tx.get<Item[]>('cart.items'))?.value ?? [];
+ * 	await tx.set('cart.items', [...items, item]);
+ * 	await tx.set('totals.cart', total([...items, item]));
+ * });
+ * ```
+ *
+ * @category Core
+ */
+export class CacheTransaction {
+	private source: TransactionSource;
+	/** Entries read or written, by key: `undefined` once removed. */
+	private staged: Map<string, DataModel<ValueType> | undefined> = new Map();
+	private events: CacheEvent[] = [];
+	private closed = false;
+
+	/** @internal */
+	constructor(source: TransactionSource) {
+		this.source = source;
+	}
+
+	/** The entry of the key as seen by the transaction, copied so staging never touches the stored one. */
+	private async entry(key: string): Promise<DataModel<ValueType> | undefined> {
+		if (this.closed) throw new Error("The transaction is already finished.");
+		if (!this.staged.has(key)) this.staged.set(key, _cloneDeep(await this.source.read(key)));
+		return this.staged.get(key);
+	}
+
+	/**
+	 * Retrieves the value at the given keyPath, including the changes staged by the transaction.
+	 * Expired values are returned, flagged as `isExpired`, without being removed.
+	 *
+	 * @template T - The type of the value.
+	 * @param {@link KeyPath} keyPath - The keyPath of the value.
+	 * @returns A promise that resolves with the value and its metadata, or `undefined` when missing.
+	 */
+	async get<T extends ValueType>(keyPath: KeyPath): Promise<DataGetModel<T> | undefined> {
+		const data = await this.entry(Utils.getKey(keyPath));
+		const value = data ? _get(data.value, keyPath) : undefined;
+		if (!data || value === undefined) return;
+
+		return { value: value as T, expiresAt: data.expiresAt, isExpired: Utils.isExpired(data.expiresAt) };
+	}
+
+	/**
+	 * Checks if the given keyPath exists, including the changes staged by the transaction.
+	 *
+	 * @param {@link KeyPath} keyPath - The keyPath to check.
+	 * @returns A promise that resolves with `true` when the keyPath exists.
+	 */
+	async has(keyPath: KeyPath): Promise<boolean> {
+		return (await this.get(keyPath)) !== undefined;
+	}
+
+	/**
+	 * Stages the value at the given keyPath, as `HybridWebCache.set` would store it.
+	 *
+	 * @template T - The type of the value.
+	 * @param {@link KeyPath} keyPath - The keyPath of the value.
+	 * @param {@link ValueType} value - The value to store.
+	 * @param {@link TTL} ttl - Optional TTL settings for the value, or {@link SetOptions} to also tag the entry.
+	 *              Defaults to the cache's TTL.
+	 */
+	async set<T extends ValueType>(keyPath: KeyPath, value: T, ttl?: Partial<TTL> | SetOptions): Promise<void> {
+		const key = Utils.getKey(keyPath);
+		const previous = await this.entry(key);
+		const obj = previous?.value || {};
+
+		_set(obj as object, keyPath, value);
+		const data = this.source.prepare(obj, ttl, previous);
+
+		this.staged.set(key, data);
+		this.events.push({ type: "set", key, keyPath, data, remote: false });
+	}
+
+	/**
+	 * Stages the removal of the value at the given keyPath, as `HybridWebCache.unset` would remove it.
+	 *
+	 * @param {@link KeyPath} keyPath - The keyPath to remove.
+	 * @returns A promise that resolves with `true` when the keyPath existed.
+	 */
+	async unset(keyPath: KeyPath): Promise<boolean> {
+		const key = Utils.getKey(keyPath);
+		const data = await this.entry(key);
+		if (!data) return false;
+
+		if (_unset(data.value, keyPath) && Object.keys(data.value || {}).length > 0) {
+			this.events.push({ type: "unset", key, keyPath, data, remote: false });
+			return true;
+		}
+
+		this.staged.set(key, undefined);
+		this.events.push({ type: "unset", key, keyPath, remote: false });
+		return true;
+	}
+
+	/**
+	 * Finishes the transaction and returns the changes to commit.
+	 * @internal
+	 */
+	close(): TransactionChanges {
+		this.closed = true;
+
+		const writes: Map<string, DataModel<ValueType>> = new Map();
+		const removals: string[] = [];
+		const changed = new Set(this.events.map(({ key }) => key as string));
+
+		// Entries only read are left untouched
+		this.staged.forEach((data, key) => {
+			if (!changed.has(key)) return;
+			if (data) {
+				writes.set(key, data);
+			} else {
+				removals.push(key);
+			}
+		});
+
+		return { writes, removals, events: this.events };
+	}
+}
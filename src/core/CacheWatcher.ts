@@ -0,0 +1,139 @@
+import type { DataGetModel, ValueType, WatchObserver, WatchSubscription } from "./types";
+
+/** @internal */
+type WatchSource<T extends ValueType> = {
+	/** Reads the current value, waiting for the storage. */
+	read: () => Promise<DataGetModel<T> | undefined>;
+	/** Registers a listener for the changes of the value, returning a function that removes it. */
+	listen: (listener: (model: DataGetModel<T> | undefined) => void) => () => void;
+};
+
+/**
+ * A view of the value at a keyPath, returned by `HybridWebCache.watch`, that emits the current value
+ * followed by every change, locally or in another tab; `undefined` is emitted once the value is removed.
+ *
+ * It can be consumed with `for await`, or as an Observable: it has a `subscribe` method and the
+ * interop `@@observable` method, so it can be passed to RxJS `from()`.
+ *
+ * @template T - The type of the value.
+ * @example
+ *
+ * ```ts
+ * for await (const name of cache.watch<string>('user.name')) {
+ * 	render(name?.value);
+ * }
+ *
+ * from(cache.watch<string>('user.name')).pipe(map((name) => name?.value)).subscribe(render);
+ * ```
+ *
+ * @category Core
+ */
+export class CacheWatcher<T extends ValueType> implements AsyncIterable<DataGetModel<T> | undefined> {
+	private source: WatchSource<T>;
+
+	/** @internal */
+	constructor(source: WatchSource<T>) {
+		this.source = source;
+	}
+
+	/**
+	 * Calls the observer with the current value, read from the storage, then with every change, until unsubscribed.
+	 * The changes made while the current value is read are emitted instead of it.
+	 *
+	 * @param observer - An observer, or the function called with each value.
+	 * @returns The subscription, to `unsubscribe`.
+	 */
+	subscribe(observer: WatchObserver<DataGetModel<T> | undefined> | ((value: DataGetModel<T> | undefined) => void) = {}): WatchSubscription {
+		const { next, error } = typeof observer === "function" ? { next: observer, error: undefined } : observer;
+		let closed = false;
+		let pending: (DataGetModel<T> | undefined)[] | undefined = [];
+
+		const stop = this.source.listen((model) => {
+			if (closed) return;
+			if (pending) pending.push(model);
+			else next?.(model);
+		});
+		this.source.read().then(
+			(current) => {
+				// The changes made while reading are at least as recent as the value read, so they replace it
+				const models = pending && pending.length > 0 ? pending : [current];
+				pending = undefined;
+				if (!closed) models.forEach((model) => next?.(model));
+			},
+			(reason) => {
+				pending = undefined;
+				if (!closed) error?.(reason);
+			}
+		);
+
+		return {
+			unsubscribe() {
+				if (closed) return;
+				closed = true;
+				stop();
+			},
+			get closed() {
+				return closed;
+			},
+		};
+	}
+
+	/** Observable interop, used by libraries such as RxJS. */
+	"@@observable"(): this {
+		return this;
+	}
+
+	/**
+	 * Iterates over the current value, then over every change. Changes are queued until read,
+	 * and breaking out of the loop stops the watch.
+	 */
+	[Symbol.asyncIterator](): AsyncIterableIterator<DataGetModel<T> | undefined> {
+		const queue: (DataGetModel<T> | undefined)[] = [];
+		let waiting: ((result: IteratorResult<DataGetModel<T> | undefined>) => void) | undefined;
+		let done = false;
+
+		const stop = this.source.listen((model) => {
+			if (waiting) {
+				waiting({ value: model, done: false });
+				waiting = undefined;
+			} else {
+				queue.push(model);
+			}
+		});
+		// The current value comes before the changes received while it is read
+		const ready = this.source.read().then((current) => {
+			queue.unshift(current);
+		});
+
+		const iterator: AsyncIterableIterator<DataGetModel<T> | undefined> = {
+			next: async () => {
+				await ready;
+
+				if (queue.length > 0) return { value: queue.shift(), done: false };
+				if (done) return { value: undefined, done: true };
+
+				return new Promise((resolve) => {
+					waiting = resolve;
+				});
+			},
+			return: async () => {
+				done = true;
+				stop();
+				queue.length = 0;
+
+				waiting?.({ value: undefined, done: true });
+				waiting = undefined;
+				return { value: undefined, done: true };
+			},
+			[Symbol.asyncIterator]: () => iterator,
+		};
+
+		return iterator;
+	}
+}
+
+// Where the runtime defines `Symbol.observable`, interop libraries look it up instead of `@@observable`
+const observable = (Symbol as { observable?: symbol }).observable;
+if (observable) {
+	Object.defineProperty(CacheWatcher.prototype, observable, { value: CacheWatcher.prototype["@@observable"] });
+}
@@ -1,6 +1,30 @@
-import { get as _get, set as _set, unset as _unset } from "lodash";
+import { cloneDeep as _cloneDeep, get as _get, isEqual as _isEqual, set as _set, toPath as _toPath, unset as _unset } from "lodash";
+import { CacheTransaction, type TransactionChanges } from "./CacheTransaction";
+import { CacheWatcher } from "./CacheWatcher";
+import { createEvictionPolicy } from "./eviction";
+import { LeaderElection } from "./LeaderElection";
 import { StorageFactory } from "./StorageFactory";
-import type { DataGetModel, DataModel, KeyPath, Options, RecordType, StorageBase, TTL, ValueType } from "./types";
+import { EvictionStrategy, type FallbackStrategy, NamespaceStrategy, TieredStrategy } from "./strategies";
+import type {
+	CacheEvent,
+	CacheEventType,
+	DataGetModel,
+	DataModel,
+	KeyPath,
+	KeyPattern,
+	Loader,
+	Options,
+	RecordType,
+	ScanOptions,
+	ScanPage,
+	SetOptions,
+	StorageBase,
+	StorageChange,
+	StorageFallback,
+	TTL,
+	ValueType,
+	WrapOptions,
+} from "./types";
 import { StorageEngine } from "./types";
 import { Utils } from "./utils";
 
@@ -13,6 +37,24 @@ const defaultOptions: Options = {
 	storage: StorageEngine.Auto,
 };
 
+/**
+ * Milliseconds between two sweeps of expired entries, by default.
+ * @internal
+ */
+const DEFAULT_SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Maximum number of expired entries removed by each sweep, by default.
+ * @internal
+ */
+const DEFAULT_SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Number of entries of each page read by `scan`, by default.
+ * @internal
+ */
+const DEFAULT_SCAN_LIMIT = 100;
+
 /**
  * Represents a hybrid web cache that supports both asynchronous and synchronous
  * operations for storing, retrieving, and managing key-value pairs with optional
@@ -163,6 +205,54 @@ export class HybridWebCache {
 	/** @ignore */
 	private storageBase: StorageBase;
 
+	/**
+	 * The storage walking the fallback chain, when using `StorageEngine.Auto`.
+	 * @ignore
+	 */
+	private fallbackStorage?: FallbackStrategy;
+
+	/**
+	 * The two-tier storage, when `tiered` is set.
+	 * @ignore
+	 */
+	private tieredStorage?: TieredStrategy;
+
+	/**
+	 * The timer of the expiration sweeper, while it runs.
+	 * @ignore
+	 */
+	private sweepTimer?: ReturnType<typeof setInterval>;
+
+	/**
+	 * Loads in progress by `getOrSet`, by keyPath, shared by concurrent calls.
+	 * @ignore
+	 */
+	private inFlight: Map<string, Promise<ValueType>> = new Map();
+
+	/**
+	 * Loaders registered with `registerLoader`, by keyPath.
+	 * @ignore
+	 */
+	private loaders: Map<string, { loader: Loader<ValueType>; ttl?: Partial<TTL> | SetOptions }> = new Map();
+
+	/**
+	 * Election of the tab performing the background work, with the `leaderElection` option.
+	 * @ignore
+	 */
+	private election?: LeaderElection;
+
+	/**
+	 * Listeners registered with `on`, by event type.
+	 * @ignore
+	 */
+	private listeners: Map<CacheEventType, Set<(event: CacheEvent) => void>> = new Map();
+
+	/**
+	 * Views created by `namespace`, by name.
+	 * @ignore
+	 */
+	private namespaces: Map<string, HybridWebCache> = new Map();
+
 	/**
 	 * Constructor for Hybrid WebCache.
 	 *
@@ -188,24 +278,241 @@ export class HybridWebCache {
 
 		this.storageBase = this.determineStorageEngine(this.options.storage);
 		this.options.storage = this.storageBase.type;
+		this.storageBase.onRemoteChange?.(this.handleRemoteChange.bind(this));
+
+		if (this.options.leaderElection) {
+			const electionOptions = this.options.leaderElection === true ? {} : this.options.leaderElection;
+			this.election = new LeaderElection(`${this.baseName}.leader`, electionOptions);
+			this.election.onTask((task) => this.revalidate((task as { keyPath: KeyPath }).keyPath));
+		}
+
+		if (this.options.sweeper && this.options.sweeper.enabled !== false) {
+			this.startSweeper();
+		}
 	}
 
-	private determineStorageEngine(storage: StorageEngine): StorageBase {
-		return StorageFactory.createStorage(storage, this.baseName);
+	private determineStorageEngine(storage: Options["storage"]): StorageBase {
+		let storageBase: StorageBase;
+
+		// Only the memory tier holds entries, the persistent one is read on demand
+		const options: Options = this.options.tiered ? { ...this.options, indexedDB: { lazy: true, maxResident: 0 } } : this.options;
+
+		if (storage === StorageEngine.Auto) {
+			this.fallbackStorage = StorageFactory.createFallbackStorage(this.baseName, undefined, options);
+			storageBase = this.fallbackStorage;
+		} else {
+			storageBase = StorageFactory.createStorage(storage, this.baseName, undefined, options);
+		}
+
+		if (this.options.tiered) {
+			this.tieredStorage = new TieredStrategy(storageBase, this.options.tiered, this.handleEviction.bind(this));
+			storageBase = this.tieredStorage;
+		}
+
+		// Evictions also recover writes that exceed the storage quota, so they are always in place
+		const { maxEntries, maxBytes, evictionPolicy, quota } = this.options;
+		return new EvictionStrategy(storageBase, { maxEntries, maxBytes }, createEvictionPolicy(evictionPolicy), this.handleEviction.bind(this), quota);
+	}
+
+	private handleEviction(keys: string[]): void {
+		keys.forEach((key) => this.emit({ type: "evict", key, remote: false }));
+		this.options.onEvict?.(keys);
+	}
+
+	/** Reports the changes made by other tabs, once applied to the storage. */
+	private handleRemoteChange(change: StorageChange): void {
+		const type = change.action === "sync" ? "set" : change.action;
+		this.emit({ type, key: change.key, data: change.value, remote: true });
+	}
+
+	private emit(event: CacheEvent): void {
+		this.listeners.get(event.type)?.forEach((listener) => {
+			try {
+				listener(event);
+			} catch (error) {
+				// A failing listener must not fail the operation, which is already done
+				queueMicrotask(() => {
+					throw error;
+				});
+			}
+		});
 	}
 
 	private createKey(keyPath: KeyPath): string {
 		return Utils.getKey(keyPath);
 	}
 
-	private prepareDataSet<T extends ValueType>(value: T, ttl: Partial<TTL> = this.options.ttl) {
+	/** Identifies a keyPath whatever its notation: "user.name" and ["user", "name"] are the same. */
+	private pathId(keyPath: KeyPath): string {
+		return JSON.stringify(_toPath(keyPath));
+	}
+
+	/** Shares the run with the concurrent loads and refreshes of the same keyPath, until it settles. */
+	private coalesce<T extends ValueType>(keyPath: KeyPath, run: () => Promise<T>): Promise<T> {
+		const id = this.pathId(keyPath);
+		const pending = this.inFlight.get(id);
+		if (pending) return pending as Promise<T>;
+
+		const result = run().finally(() => this.inFlight.delete(id));
+		this.inFlight.set(id, result);
+		return result;
+	}
+
+	/** Runs the loader and stores its result, sharing the load with concurrent calls for the same keyPath. */
+	private load<T extends ValueType>(keyPath: KeyPath, loader: Loader<T>, ttl?: Partial<TTL> | SetOptions): Promise<T> {
+		return this.coalesce(keyPath, async () => {
+			const value = await loader();
+			await this.set(keyPath, value, ttl);
+			return value;
+		});
+	}
+
+	/**
+	 * Returns the stale entry to serve while its registered loader refreshes it, or `undefined`
+	 * when stale-while-revalidate does not apply.
+	 */
+	private serveStale<T extends ValueType>(keyPath: KeyPath, value: T, data: DataModel<ValueType>): DataGetModel<T> | undefined {
+		if (!this.options.staleWhileRevalidate || !this.loaders.has(this.pathId(keyPath))) return;
+
+		// With leader election, only the leader tab calls the loader
+		if (this.election) {
+			this.election.delegate({ keyPath });
+		} else {
+			this.revalidate(keyPath);
+		}
+
+		return { value, expiresAt: data.expiresAt, isExpired: true, isStale: true };
+	}
+
+	/**
+	 * Refreshes the value at keyPath with its registered loader, unless it was refreshed in the meantime.
+	 * The refresh is registered at once among the loads in flight, so a `getOrSet` of the stale value waits for it.
+	 */
+	private async revalidate(keyPath: KeyPath): Promise<void> {
+		const registered = this.loaders.get(this.pathId(keyPath));
+		if (!registered) return;
+
+		const refresh = this.coalesce(keyPath, async () => {
+			// Several tabs may ask the leader for the same refresh
+			const current = await this.storageBase.get(this.createKey(keyPath));
+			const value = current && !Utils.isExpired(current.expiresAt) ? _get(current.value, keyPath) : undefined;
+			if (value !== undefined) return value as ValueType;
+
+			const fresh = await registered.loader();
+			await this.set(keyPath, fresh, registered.ttl);
+			this.options.onRevalidate?.(keyPath, fresh);
+			return fresh;
+		});
+
+		try {
+			await refresh;
+		} catch {
+			// The stale value is kept; the next read tries again
+		}
+	}
+
+	/** The value at keyPath in the entry with its metadata, or `undefined` when missing. */
+	private toGetModel<T extends ValueType>(keyPath: KeyPath, data: DataModel<ValueType> | undefined): DataGetModel<T> | undefined {
+		const value = data ? _get(data.value, keyPath) : undefined;
+		if (!data || value === undefined) return;
+
+		return { value: _cloneDeep(value), expiresAt: data.expiresAt, isExpired: Utils.isExpired(data.expiresAt) };
+	}
+
+	private prepareDataSet<T extends ValueType>(value: T, ttl: Partial<TTL> = this.options.ttl, sliding = this.options.slidingExpiration ?? false, tags?: string[]) {
 		const ttlMs = Utils.convertTTLToMilliseconds(ttl);
 		const expiresAt = ttlMs > 0 ? Date.now() + ttlMs : 0;
 		const data: DataModel<T> = { value, expiresAt };
 
+		// The original TTL is kept so reads can push the expiration forward
+		if (sliding && ttlMs > 0) data.ttl = ttlMs;
+		if (tags && tags.length > 0) data.tags = [...new Set(tags)];
+
 		return { data };
 	}
 
+	/** Reads the third argument of `set`, either a TTL or {@link SetOptions}. */
+	private setOptionsOf(ttl: Partial<TTL> | SetOptions, sliding?: boolean): SetOptions {
+		if (typeof ttl === "object" && ("ttl" in ttl || "sliding" in ttl || "tags" in ttl)) {
+			const options = ttl as SetOptions;
+			return { ttl: options.ttl ?? this.options.ttl, sliding: options.sliding ?? sliding, tags: options.tags };
+		}
+
+		return { ttl: ttl as Partial<TTL>, sliding };
+	}
+
+	/**
+	 * Returns the entry with its expiration pushed forward by its original TTL,
+	 * or `undefined` when it does not use sliding expiration.
+	 */
+	private slide<T extends ValueType>(data: DataModel<T>): DataModel<T> | undefined {
+		return data.ttl && data.ttl > 0 ? { ...data, expiresAt: Date.now() + data.ttl } : undefined;
+	}
+
+	/** Reads the entries of the given keys, skipping the missing ones and removing the expired ones with `removeExpired`. */
+	private async entriesOf<T extends ValueType>(keys: string[], removeExpired: boolean): Promise<Map<string, DataGetModel<T>>> {
+		const result: Map<string, DataGetModel<T>> = new Map();
+
+		for (const key of keys) {
+			const data = await this.storageBase.get<T>(key);
+			if (data) await this.collect(result, key, data, removeExpired);
+		}
+
+		return result;
+	}
+
+	/** Adds the stored entry to the result, unless it is expired and removed with `removeExpired`. */
+	private async collect<T extends ValueType>(result: Map<string, DataGetModel<T>>, key: string, data: DataModel<T>, removeExpired: boolean): Promise<void> {
+		const isExpired = Utils.isExpired(data.expiresAt);
+
+		if (removeExpired && isExpired) {
+			await this.expireKey(key);
+			return;
+		}
+
+		// The entry holds its value under its primary key, which differs from the storage key within a namespace
+		const [, value] = data.value ? Object.entries(data.value)[0] : [key, undefined];
+		result.set(key, { value: value as T, expiresAt: data.expiresAt, isExpired });
+	}
+
+	/**
+	 * Removes the expired entry stored under the key and reports it. The storage key is removed as a whole,
+	 * as it may belong to a namespace and not be a keyPath of this cache.
+	 */
+	private async expireKey(key: string): Promise<void> {
+		if (await this.storageBase.unset(key)) this.emit({ type: "expire", key, remote: false });
+	}
+
+	/** Synchronous version of `expireKey`. */
+	private expireKeySync(key: string): void {
+		if (this.storageBase.unsetSync(key)) this.emit({ type: "expire", key, remote: false });
+	}
+
+	/**
+	 * The entry of a key, as read by the synchronous methods that change a keyPath inside it.
+	 * Throws when the entry is stored but not held in memory (with `Options.tiered`), instead of overwriting the rest of it.
+	 */
+	private residentSync(key: string, keyPath: KeyPath): DataModel<ValueType> | undefined {
+		const data = this.storageBase.getSync(key);
+		if (!data && key !== keyPath.toString() && this.storageBase.hasSync(key)) {
+			throw new Error(`"${key}" is not held in memory: use the asynchronous methods to change "${keyPath}".`);
+		}
+		return data;
+	}
+
+	/** Removes the entries of the given keys, notifying each removal, and resolves with the number removed. */
+	private async removeKeys(keys: string[]): Promise<number> {
+		const removed = await Utils.unsetManyOf(this.storageBase, keys);
+		removed.forEach((key) => this.emit({ type: "unset", key, remote: false }));
+		return removed.length;
+	}
+
+	/** Lists the keys matching the pattern, narrowed first by its literal prefix. */
+	private async matchingKeys(pattern: KeyPattern): Promise<string[]> {
+		const keys = await Utils.prefixedKeysOf(this.storageBase, Utils.literalPrefix(pattern));
+		return keys.filter((key) => Utils.matchesPattern(key, pattern));
+	}
+
 	/**
 	 * Initializes the memory cache
 	 *
@@ -226,6 +533,184 @@ export class HybridWebCache {
 		await this.storageBase.init();
 	}
 
+	/**
+	 * Persists the pending writes of a tiered cache configured with the `write-back` policy.
+	 *
+	 * Pending writes are also persisted automatically after `tiered.flushDelay`, when evicted
+	 * from the memory tier and when the page is hidden. Without `write-back`, this is a no-op.
+	 *
+	 * @return A promise that resolves when every pending write has been persisted.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache("CacheDB", {
+	 * 	storage: StorageEngine.IndexedDB,
+	 * 	tiered: { l1: { maxEntries: 100 }, writePolicy: "write-back" },
+	 * });
+	 * cache.setSync("draft", { title: "Hello" });
+	 * await cache.flush();
+	 * ```
+	 *
+	 * @category Init Method
+	 */
+	public async flush(): Promise<void> {
+		await this.tieredStorage?.flush();
+	}
+
+	/**
+	 * Releases what the cache holds beyond its storage: stops the sweeper, leaves the leader election,
+	 * persists the pending `write-back` writes and removes the page listeners. The stored entries are kept.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache("CacheDB", { tiered: { writePolicy: "write-back" }, leaderElection: true });
+	 * // ...
+	 * cache.dispose();
+	 * ```
+	 *
+	 * @category Init Method
+	 */
+	public dispose(): void {
+		this.stopSweeper();
+		this.election?.close();
+		this.tieredStorage?.dispose();
+	}
+
+	/**
+	 * Removes every expired entry from the storage, whether or not it is ever read again.
+	 *
+	 * Expired entries are otherwise only removed when `get`/`getAll` touch them with `removeExpired`.
+	 * With IndexedDB, expired entries are found through an index on `expiresAt`, without scanning the store.
+	 *
+	 * @param {number} [limit] - The maximum number of entries to remove. Unlimited when omitted.
+	 * @return A promise that resolves with the number of entries removed.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache();
+	 * const purged = await cache.purgeExpired();
+	 * console.log(`${purged} expired entries removed`);
+	 * ```
+	 *
+	 * @category Expiration Methods
+	 */
+	public async purgeExpired(limit?: number): Promise<number> {
+		const keys = await Utils.expiredKeysOf(this.storageBase, Date.now(), limit);
+
+		let purged = 0;
+		for (const key of keys) {
+			// Loads the entry first, as storages only remove the keys held in their memory cache
+			if ((await this.storageBase.has(key)) && (await this.storageBase.unset(key))) {
+				this.emit({ type: "expire", key, remote: false });
+				purged++;
+			}
+		}
+		return purged;
+	}
+
+	/**
+	 * Starts the sweeper, which periodically calls `purgeExpired` with `sweeper.batchSize`
+	 * every `sweeper.interval` milliseconds. Does nothing if it is already running.
+	 *
+	 * The sweeper starts on its own when `Options.sweeper` is set, unless `sweeper.enabled` is `false`.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache("CacheDB", { sweeper: { enabled: false, interval: 30_000, batchSize: 50 } });
+	 * cache.startSweeper();
+	 * // ...
+	 * cache.stopSweeper();
+	 * ```
+	 *
+	 * @category Expiration Methods
+	 */
+	public startSweeper(): void {
+		if (this.sweepTimer !== undefined) return;
+
+		const { interval = DEFAULT_SWEEP_INTERVAL, batchSize = DEFAULT_SWEEP_BATCH_SIZE } = this.options.sweeper ?? {};
+		let sweeping = false;
+
+		this.sweepTimer = setInterval(async () => {
+			// A slow sweep is not overlapped by the next one, and only the leader tab sweeps
+			if (sweeping || !this.isLeader) return;
+
+			sweeping = true;
+			try {
+				await this.purgeExpired(batchSize);
+			} catch {
+				// Entries left behind are purged by the next sweep
+			} finally {
+				sweeping = false;
+			}
+		}, interval);
+	}
+
+	/**
+	 * Stops the sweeper started by `startSweeper` or by `Options.sweeper`.
+	 *
+	 * @category Expiration Methods
+	 */
+	public stopSweeper(): void {
+		clearInterval(this.sweepTimer);
+		this.sweepTimer = undefined;
+	}
+
+	/**
+	 * Retrieves the entries tagged with the given tag by `set`, by primary key.
+	 *
+	 * With IndexedDB, the entries are found through a multi-entry index on their tags, without scanning the store.
+	 *
+	 * @template T - The type of the values.
+	 * @param {string} tag - The tag of the entries.
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of returning them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns A promise that resolves with a map of the tagged entries, empty when there are none.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * await cache.set('orders', orders, { tags: ['user:42'] });
+	 * await cache.set('profile', profile, { tags: ['user:42'] });
+	 *
+	 * const entries = await cache.getByTag('user:42');
+	 * // => Map { 'orders' => { value: orders, ... }, 'profile' => { value: profile, ... } }
+	 * ```
+	 *
+	 * @category Tag Methods
+	 */
+	async getByTag<T extends ValueType>(tag: string, removeExpired: boolean = this.options.removeExpired): Promise<Map<string, DataGetModel<T>>> {
+		return this.entriesOf<T>(await Utils.taggedKeysOf(this.storageBase, tag), removeExpired);
+	}
+
+	/**
+	 * Removes every entry tagged with the given tag by `set`, e.g. all the cached queries of a user
+	 * when they log out. Each removal is notified as an `unset` event and to the other tabs.
+	 *
+	 * With IndexedDB, the entries are found through a multi-entry index on their tags, without scanning the store.
+	 *
+	 * @param {string} tag - The tag of the entries to remove.
+	 * @returns A promise that resolves with the number of entries removed.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * await cache.set('orders', orders, { tags: ['user:42', 'reports'] });
+	 * await cache.set('sales', sales, { tags: ['reports'] });
+	 *
+	 * await cache.invalidateTag('reports');
+	 * // => 2
+	 * ```
+	 *
+	 * @category Tag Methods
+	 */
+	async invalidateTag(tag: string): Promise<number> {
+		return this.removeKeys(await Utils.taggedKeysOf(this.storageBase, tag));
+	}
+
 	/**
 	 * Sets the value for a given keyPath in the storage engine.
 	 *
@@ -236,8 +721,10 @@ export class HybridWebCache {
 	 * @template {@link ValueType} T - The type of the value being stored.
 	 * @param {@link KeyPath} keyPath - The keyPath to be stored.
 	 * @param {@link ValueType} value - The value to be stored.
-	 * @param {@link TTL} ttl - Optional TTL settings for the stored value. Defaults to
-	 *              the instance's configured TTL.
+	 * @param {@link TTL} ttl - Optional TTL settings for the stored value, or {@link SetOptions} to also
+	 *              tag the entry. Defaults to the instance's configured TTL.
+	 * @param sliding - Whether each successful read pushes the expiration forward by `ttl`.
+	 *              Defaults to the instance's `slidingExpiration`.
 	 *
 	 * @example
 	 *
@@ -271,10 +758,18 @@ export class HybridWebCache {
 	 * const cache = new HybridWebCache();
 	 * await cache.set('color.code', { rgb: [16, 31, 134], hex: '#101F86' });
 	 * ```
+	 * @example
+	 *
+	 * Tag the entry, to remove it later with every entry of the same user.
+	 * ```ts
+	 * const cache = new HybridWebCache();
+	 * await cache.set('orders', orders, { ttl: { minutes: 5 }, tags: ['user:42'] });
+	 * await cache.invalidateTag('user:42');
+	 * ```
 	 *
 	 * @category Set Methods
 	 */
-	async set<T extends ValueType>(keyPath: KeyPath, value: T, ttl: Partial<TTL> = this.options.ttl): Promise<void> {
+	async set<T extends ValueType>(keyPath: KeyPath, value: T, ttl: Partial<TTL> | SetOptions = this.options.ttl, sliding?: boolean): Promise<void> {
 		if (keyPath === undefined || keyPath === null) {
 			throw new Error("KeyPath cannot be undefined or null.");
 		}
@@ -282,11 +777,13 @@ export class HybridWebCache {
 		const key = this.createKey(keyPath);
 		const data = await this.storageBase.get(key);
 		const obj = data?.value || {};
+		const options = this.setOptionsOf(ttl, sliding);
 
 		_set(obj as object, keyPath, value);
-		const dataSet = this.prepareDataSet(obj, ttl);
+		const dataSet = this.prepareDataSet(obj, options.ttl, options.sliding, options.tags ?? data?.tags);
 
-		return this.storageBase.set(key, dataSet.data);
+		await this.storageBase.set(key, dataSet.data);
+		this.emit({ type: "set", key, keyPath, data: dataSet.data, remote: false });
 	}
 
 	/**
@@ -295,8 +792,10 @@ export class HybridWebCache {
 	 * @template {@link ValueType} T - The type of the value being stored.
 	 * @param {@link KeyPath} keyPath - The keyPath to be stored.
 	 * @param {@link ValueType} value - The value to be stored.
-	 * @param {@link TTL} ttl - Optional TTL settings for the stored value. Defaults to
-	 *              the instance's configured TTL.
+	 * @param {@link TTL} ttl - Optional TTL settings for the stored value, or {@link SetOptions} to also
+	 *              tag the entry. Defaults to the instance's configured TTL.
+	 * @param sliding - Whether each successful read pushes the expiration forward by `ttl`.
+	 *              Defaults to the instance's `slidingExpiration`.
 	 *
 	 * @example
 	 *
@@ -329,20 +828,65 @@ export class HybridWebCache {
 	 *
 	 * @category Set Methods
 	 */
-	setSync<T extends ValueType>(keyPath: KeyPath, value: T, ttl: Partial<TTL> = this.options.ttl): void {
+	setSync<T extends ValueType>(keyPath: KeyPath, value: T, ttl: Partial<TTL> | SetOptions = this.options.ttl, sliding?: boolean): void {
 		if (keyPath === undefined || keyPath === null) {
 			throw new Error("KeyPath cannot be undefined or null.");
 		}
 
 		const key = this.createKey(keyPath);
-		const data = this.storageBase.getSync(key);
+		const data = this.residentSync(key, keyPath);
 		const obj = data?.value || {};
+		const options = this.setOptionsOf(ttl, sliding);
 
 		_set(obj as object, keyPath, value);
 
-		const dataSet = this.prepareDataSet(obj, ttl);
+		const dataSet = this.prepareDataSet(obj, options.ttl, options.sliding, options.tags ?? data?.tags);
 
 		this.storageBase.setSync(key, dataSet.data);
+		this.emit({ type: "set", key, keyPath, data: dataSet.data, remote: false });
+	}
+
+	/**
+	 * Sets the values of several keyPaths at once, each as `set` would.
+	 *
+	 * The entries are read and written in one go: with IndexedDB in a single transaction, and with the storages
+	 * synchronized between tabs with a single message for the whole batch. A `set` event is emitted for each keyPath.
+	 *
+	 * @template {@link ValueType} T - The type of the values being stored.
+	 * @param entries - The values to store, by keyPath: an object or a list of `[keyPath, value]` pairs.
+	 * @param {@link TTL} ttl - Optional TTL settings for the stored values, or {@link SetOptions} to also
+	 *              tag the entries. Defaults to the instance's configured TTL.
+	 * @param sliding - Whether each successful read pushes the expiration forward by `ttl`.
+	 *              Defaults to the instance's `slidingExpiration`.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * await cache.setMany({ 'user.name': 'John', 'user.age': 42, theme: 'dark' });
+	 * await cache.setMany(products.map((product) => [`product-${product.id}`, product]), { hours: 1 });
+	 * ```
+	 *
+	 * @category Set Methods
+	 */
+	async setMany<T extends ValueType>(entries: RecordType<T> | [KeyPath, T][], ttl: Partial<TTL> | SetOptions = this.options.ttl, sliding?: boolean): Promise<void> {
+		const pairs: [KeyPath, T][] = Array.isArray(entries) ? entries : Object.entries(entries);
+		const keys = pairs.map(([keyPath]) => this.createKey(keyPath));
+		const options = this.setOptionsOf(ttl, sliding);
+
+		const stored = await Utils.getManyOf(this.storageBase, keys);
+		const staged: Map<string, DataModel<ValueType>> = new Map();
+
+		pairs.forEach(([keyPath, value], index) => {
+			// Several keyPaths of the same entry are merged into it
+			const data = staged.get(keys[index]) ?? stored.get(keys[index]);
+			const obj = data?.value || {};
+
+			_set(obj as object, keyPath, value);
+			staged.set(keys[index], this.prepareDataSet(obj, options.ttl, options.sliding, options.tags ?? data?.tags).data);
+		});
+
+		await Utils.setManyOf(this.storageBase, staged);
+		pairs.forEach(([keyPath], index) => this.emit({ type: "set", key: keys[index], keyPath, data: staged.get(keys[index]), remote: false }));
 	}
 
 	/**
@@ -417,14 +961,20 @@ export class HybridWebCache {
 			}
 
 			const isExpired = Utils.isExpired(data.expiresAt);
+			const stale = isExpired ? this.serveStale<T>(keyPath, value, data) : undefined;
+			if (stale) return stale;
+
 			if (removeExpired && isExpired) {
-				await this.unset(keyPath);
+				await this.remove(keyPath, "expire");
 				return;
 			}
 
+			const slid = isExpired ? undefined : this.slide(data);
+			if (slid) await this.storageBase.set(key, slid);
+
 			return {
 				value,
-				expiresAt: data.expiresAt,
+				expiresAt: (slid ?? data).expiresAt,
 				isExpired,
 			} as DataGetModel<T>;
 		}
@@ -494,30 +1044,219 @@ export class HybridWebCache {
 			throw new Error("KeyPath cannot be undefined or null.");
 		}
 
-		const key = this.createKey(keyPath);
-		const data = this.storageBase.getSync(key);
-
-		if (data) {
-			const value = _get(data.value, keyPath);
-
-			if (value === undefined) {
-				return;
-			}
-
-			const isExpired = Utils.isExpired(data.expiresAt);
-			if (removeExpired && isExpired) {
-				this.unsetSync(keyPath);
-				return;
-			}
+		const key = this.createKey(keyPath);
+		const data = this.storageBase.getSync(key);
+
+		if (data) {
+			const value = _get(data.value, keyPath);
+
+			if (value === undefined) {
+				return;
+			}
+
+			const isExpired = Utils.isExpired(data.expiresAt);
+			const stale = isExpired ? this.serveStale<T>(keyPath, value, data) : undefined;
+			if (stale) return stale;
+
+			if (removeExpired && isExpired) {
+				this.removeSync(keyPath, "expire");
+				return;
+			}
+
+			const slid = isExpired ? undefined : this.slide(data);
+			if (slid) this.storageBase.setSync(key, slid);
+
+			return {
+				value,
+				expiresAt: (slid ?? data).expiresAt,
+				isExpired,
+			} as DataGetModel<T>;
+		}
+
+		return;
+	}
+
+	/**
+	 * Reads the value at the given keyPath from memory without side effects: expired values are
+	 * neither removed nor revalidated, and sliding expirations are not pushed forward.
+	 * Suited to render functions, which must not change the cache.
+	 *
+	 * @template T - The type of the value.
+	 * @param {@link KeyPath} keyPath - The keyPath to read.
+	 * @returns A copy of the value with its metadata, or `undefined` when missing.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const name = cache.peekSync<string>('user.name');
+	 * if (name && !name.isExpired) render(name.value);
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	peekSync<T extends ValueType>(keyPath: KeyPath): DataGetModel<T> | undefined {
+		return this.toGetModel<T>(keyPath, this.storageBase.getSync(this.createKey(keyPath)));
+	}
+
+	/**
+	 * Retrieves the values of several keyPaths at once, each as `get` would.
+	 *
+	 * The entries are read in one go: with IndexedDB, those not held in memory are read in a single transaction.
+	 * Expired entries removed with `removeExpired` are removed at once too.
+	 *
+	 * @template T - The type of the values being retrieved.
+	 * @param {@link KeyPath} keyPaths - The keyPaths of the values.
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of returning them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns A promise that resolves with the value and its metadata for each keyPath, in the same order,
+	 *          or `undefined` for the keyPaths that do not exist or are expired and removed.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const [name, theme] = await cache.getMany(['user.name', 'theme']);
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async getMany<T extends ValueType>(keyPaths: KeyPath[], removeExpired: boolean = this.options.removeExpired): Promise<(DataGetModel<T> | undefined)[]> {
+		const keys = keyPaths.map((keyPath) => this.createKey(keyPath));
+		const stored = await Utils.getManyOf(this.storageBase, keys);
+		const expired: Map<string, KeyPath> = new Map();
+		const slid: Map<string, DataModel<ValueType>> = new Map();
+
+		const results = keyPaths.map((keyPath, index) => {
+			const data = stored.get(keys[index]);
+			const value = data ? _get(data.value, keyPath) : undefined;
+			if (!data || value === undefined) return;
+
+			const isExpired = Utils.isExpired(data.expiresAt);
+			const stale = isExpired ? this.serveStale<T>(keyPath, value, data) : undefined;
+			if (stale) return stale;
+
+			if (removeExpired && isExpired) {
+				if (!expired.has(keys[index])) expired.set(keys[index], keyPath);
+				return;
+			}
+
+			const entry = isExpired ? undefined : (slid.get(keys[index]) ?? this.slide(data));
+			if (entry) slid.set(keys[index], entry);
+
+			return { value, expiresAt: (entry ?? data).expiresAt, isExpired } as DataGetModel<T>;
+		});
+
+		await Utils.setManyOf(this.storageBase, slid);
+		for (const key of await Utils.unsetManyOf(this.storageBase, [...expired.keys()])) {
+			this.emit({ type: "expire", key, keyPath: expired.get(key), remote: false });
+		}
+
+		return results;
+	}
+
+	/**
+	 * Retrieves the value at the given keyPath or, when it is missing or expired, calls the loader,
+	 * stores its result with the given TTL and returns it.
+	 *
+	 * Concurrent calls for the same keyPath share a single call to the loader. When the loader fails,
+	 * nothing is stored and every pending call rejects with its error, so the next call tries again.
+	 *
+	 * @template T - The type of the value.
+	 * @param {@link KeyPath} keyPath - The keyPath of the value.
+	 * @param loader - Returns, or resolves, the value to store on a miss.
+	 * @param {@link TTL} ttl - Optional TTL for the loaded value, or {@link SetOptions} to also tag it. Defaults to the instance's configured TTL.
+	 * @returns A promise that resolves with the cached or loaded value.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache();
+	 *
+	 * // Ten components asking at once trigger a single request
+	 * const user = await cache.getOrSet('user.42', () => fetch('/api/users/42').then((r) => r.json()), { minutes: 5 });
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async getOrSet<T extends ValueType>(keyPath: KeyPath, loader: Loader<T>, ttl: Partial<TTL> | SetOptions = this.options.ttl): Promise<T> {
+		const cached = await this.get<T>(keyPath);
+		if (cached && !cached.isExpired) return cached.value;
+
+		return this.load(keyPath, loader, ttl);
+	}
+
+	/**
+	 * Registers the loader that refreshes the value at the given keyPath. With the `staleWhileRevalidate` option,
+	 * reading the value once expired returns it immediately, flagged as `isStale`, while the loader runs
+	 * in the background; its result is then stored and passed to `onRevalidate`.
+	 *
+	 * A loader failure keeps the stale value, and the next read tries again.
+	 *
+	 * @template T - The type of the value.
+	 * @param {@link KeyPath} keyPath - The keyPath of the value.
+	 * @param loader - Returns, or resolves, the fresh value.
+	 * @param {@link TTL} ttl - Optional TTL for the refreshed value, or {@link SetOptions} to also tag it. Defaults to the instance's configured TTL.
+	 * @returns A function that unregisters the loader.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache('app', {
+	 * 	staleWhileRevalidate: true,
+	 * 	onRevalidate: (keyPath, value) => render(keyPath, value),
+	 * });
+	 *
+	 * cache.registerLoader('feed', () => fetch('/api/feed').then((r) => r.json()), { minutes: 1 });
+	 *
+	 * // Once expired, the last feed is returned at once and refreshed in the background
+	 * const feed = await cache.get('feed');
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	registerLoader<T extends ValueType>(keyPath: KeyPath, loader: Loader<T>, ttl?: Partial<TTL> | SetOptions): () => void {
+		const id = this.pathId(keyPath);
+		const registered = { loader, ttl };
+
+		this.loaders.set(id, registered);
+		return () => {
+			if (this.loaders.get(id) === registered) this.loaders.delete(id);
+		};
+	}
+
+	/**
+	 * Memoizes an async function in the cache: each call is answered by `getOrSet`, keyed by its arguments.
+	 *
+	 * @template A - The arguments of the function.
+	 * @template R - The type of the result.
+	 * @param fn - The function to memoize.
+	 * @param {@link WrapOptions} options - The key of each call, and the TTL and tags of the results.
+	 * @returns A function with the same arguments, resolving with the cached or freshly computed result.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache();
+	 *
+	 * const fetchUser = cache.wrap(async (id: number) => (await fetch(`/api/users/${id}`)).json(), {
+	 * 	key: (id) => ['users', String(id)],
+	 * 	ttl: { minutes: 5 },
+	 * });
+	 * const user = await fetchUser(42);
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	wrap<A extends unknown[], R extends ValueType>(fn: (...args: A) => R | Promise<R>, options: WrapOptions<A> = {}): (...args: A) => Promise<R> {
+		if (!options.key && !fn.name) {
+			throw new Error("Anonymous functions need a key option to be wrapped.");
+		}
+
+		// A single-element array keeps the generated key from being parsed as a nested path
+		const key = options.key ?? ((...args: A) => [`${fn.name}(${JSON.stringify(args)})`]);
 
-			return {
-				value,
-				expiresAt: data.expiresAt,
-				isExpired,
-			} as DataGetModel<T>;
-		}
+		const ttl = options.tags ? { ttl: options.ttl, tags: options.tags } : options.ttl;
 
-		return;
+		return (...args: A) => this.getOrSet<R>(key(...args), () => fn(...args), ttl);
 	}
 
 	/**
@@ -543,18 +1282,19 @@ export class HybridWebCache {
 		const result: Map<string, DataGetModel<T>> = new Map();
 
 		for (const [key, data] of allItems) {
-			const [iKey, iValue] = Object.entries(data.value ?? { key, value: null })[0];
+			const [, iValue] = Object.entries(data.value ?? { key, value: null })[0];
 
 			// Check if the item is expired
 			const isExpired = Utils.isExpired(data.expiresAt);
 
 			// If `removeExpired` is true and the item is expired, remove it and skip adding to result
 			if (removeExpired && isExpired) {
-				await this.unset(iKey);
+				await this.expireKey(key);
 				continue;
 			}
 
-			result.set(iKey, {
+			// Listed by storage key, which tells apart the same key in different namespaces
+			result.set(key, {
 				value: iValue as T,
 				expiresAt: data.expiresAt,
 				isExpired,
@@ -588,18 +1328,19 @@ export class HybridWebCache {
 		const result: Map<string, DataGetModel<T>> = new Map();
 
 		for (const [key, data] of allItems) {
-			const [iKey, iValue] = data.value ? Object.entries(data.value)[0] : [key, null];
+			const [, iValue] = data.value ? Object.entries(data.value)[0] : [key, null];
 
 			// Check if the item is expired
 			const isExpired = Utils.isExpired(data.expiresAt);
 
 			// If `removeExpired` is true and the item is expired, remove it and skip adding to result
 			if (removeExpired && isExpired) {
-				this.unsetSync(iKey);
+				this.expireKeySync(key);
 				continue;
 			}
 
-			result.set(iKey, {
+			// Listed by storage key, which tells apart the same key in different namespaces
+			result.set(key, {
 				value: iValue as T,
 				expiresAt: data.expiresAt,
 				isExpired,
@@ -669,6 +1410,167 @@ export class HybridWebCache {
 		return allValues;
 	}
 
+	/**
+	 * Iterates over the entries of the cache, as the key and the value with its metadata, in ascending key order.
+	 * The entries are read page by page with `scan`, so the whole storage is never loaded at once.
+	 *
+	 * @template T - The type of the values.
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of returning them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns An async iterator of `[key, DataGetModel]` pairs.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * for await (const [key, { value, expiresAt }] of cache.entries()) {
+	 * 	console.log(key, value, expiresAt);
+	 * }
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async *entries<T extends ValueType>(removeExpired: boolean = this.options.removeExpired): AsyncGenerator<[string, DataGetModel<T>]> {
+		let after: string | undefined;
+		do {
+			const page = await this.scan<T>({ after }, removeExpired);
+			yield* page.entries;
+			after = page.next;
+		} while (after !== undefined);
+	}
+
+	/**
+	 * Iterates over the keys of the cache, in ascending order, reading them page by page as `entries` does.
+	 *
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of listing them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns An async iterator of the keys.
+	 *
+	 * @category Get Methods
+	 */
+	async *keys(removeExpired: boolean = this.options.removeExpired): AsyncGenerator<string> {
+		for await (const [key] of this.entries(removeExpired)) yield key;
+	}
+
+	/**
+	 * Iterates over the values of the cache, with their metadata, in the ascending order of their keys.
+	 *
+	 * @template T - The type of the values.
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of returning them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns An async iterator of the values, as {@link DataGetModel}.
+	 *
+	 * @category Get Methods
+	 */
+	async *values<T extends ValueType>(removeExpired: boolean = this.options.removeExpired): AsyncGenerator<DataGetModel<T>> {
+		for await (const [, data] of this.entries<T>(removeExpired)) yield data;
+	}
+
+	/**
+	 * Synchronous version of `entries`.
+	 *
+	 * @template T - The type of the values.
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of returning them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns An iterator of `[key, DataGetModel]` pairs.
+	 *
+	 * @category Get Methods
+	 */
+	*entriesSync<T extends ValueType>(removeExpired: boolean = this.options.removeExpired): Generator<[string, DataGetModel<T>]> {
+		yield* this.getAllSync<T>(removeExpired) ?? [];
+	}
+
+	/**
+	 * Synchronous version of `keys`.
+	 *
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of listing them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns An iterator of the keys.
+	 *
+	 * @category Get Methods
+	 */
+	*keysSync(removeExpired: boolean = this.options.removeExpired): Generator<string> {
+		for (const [key] of this.entriesSync(removeExpired)) yield key;
+	}
+
+	/**
+	 * Synchronous version of `values`.
+	 *
+	 * @template T - The type of the values.
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of returning them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns An iterator of the values, as {@link DataGetModel}.
+	 *
+	 * @category Get Methods
+	 */
+	*valuesSync<T extends ValueType>(removeExpired: boolean = this.options.removeExpired): Generator<DataGetModel<T>> {
+		for (const [, data] of this.entriesSync<T>(removeExpired)) yield data;
+	}
+
+	/**
+	 * Retrieves the entries whose key matches the pattern: starting with `prefix`, matching `glob` and `regex`.
+	 *
+	 * With IndexedDB, the keys starting with the prefix (or with the part of the glob before its first wildcard)
+	 * are found through a key range, so only the matching entries are read.
+	 *
+	 * @template T - The type of the values.
+	 * @param {@link KeyPattern} pattern - The pattern of the keys.
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of returning them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns A promise that resolves with a map of the matching entries, empty when there are none.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const reports = await cache.find({ prefix: 'report:' });
+	 * const archived = await cache.find({ glob: 'report:*:2023' });
+	 * const numbered = await cache.find({ regex: /^invoice-\d+$/ });
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async find<T extends ValueType>(pattern: KeyPattern, removeExpired: boolean = this.options.removeExpired): Promise<Map<string, DataGetModel<T>>> {
+		return this.entriesOf<T>(await this.matchingKeys(pattern), removeExpired);
+	}
+
+	/**
+	 * Retrieves a page of entries, in ascending key order, without reading the whole storage:
+	 * pass the `next` key of a page as `after` to read the following one.
+	 *
+	 * With IndexedDB, each page is read with a single query on a key range and is not loaded into memory,
+	 * which suits the `indexedDB.lazy` option. Other storages page through their entries in memory.
+	 *
+	 * @template T - The type of the values.
+	 * @param {@link ScanOptions} options - The size of the page (defaults to 100), the key it starts after and the prefix of its keys.
+	 * @param {boolean} removeExpired - A flag indicating whether to remove the expired entries instead of returning them.
+	 *                        Defaults to the instance's configured setting.
+	 * @returns A promise that resolves with the page, whose `next` key is set when more entries follow.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * let page = await cache.scan({ prefix: 'product:', limit: 50 });
+	 * render(page.entries);
+	 *
+	 * while (page.next) {
+	 * 	page = await cache.scan({ prefix: 'product:', limit: 50, after: page.next });
+	 * 	render(page.entries);
+	 * }
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async scan<T extends ValueType>(options: ScanOptions = {}, removeExpired: boolean = this.options.removeExpired): Promise<ScanPage<T>> {
+		const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_SCAN_LIMIT;
+		const page = await Utils.scanOf<T>(this.storageBase, { ...options, limit });
+
+		const entries: Map<string, DataGetModel<T>> = new Map();
+		for (const [key, data] of page.entries) {
+			await this.collect(entries, key, data, removeExpired);
+		}
+
+		return { entries, next: page.next };
+	}
+
 	/**
 	 * Checks if the given key path exists.
 	 *
@@ -844,8 +1746,11 @@ export class HybridWebCache {
 	async unset(keyPath: KeyPath): Promise<boolean>;
 
 	async unset(keyPath?: KeyPath): Promise<boolean> {
-		if (this.storageBase.length === 0) return false;
+		return this.remove(keyPath, "unset");
+	}
 
+	/** Removes the keyPath, or every entry, reporting the removal as `type`. */
+	private async remove(keyPath: KeyPath | undefined, type: "unset" | "expire"): Promise<boolean> {
 		if (keyPath) {
 			const key = this.createKey(keyPath);
 			const data = await this.storageBase.get(key);
@@ -855,16 +1760,21 @@ export class HybridWebCache {
 					if (Object.keys(data.value || {}).length > 0) {
 						//update
 						await this.storageBase.set(key, data);
+						this.emit({ type, key, keyPath, data, remote: false });
 						return true;
 					}
 				}
 
-				return this.storageBase.unset(key);
+				const removed = await this.storageBase.unset(key);
+				if (removed) this.emit({ type, key, keyPath, remote: false });
+				return removed;
 			}
 			return false;
 		}
 
-		return this.storageBase.unset();
+		const cleared = await this.storageBase.unset();
+		if (cleared) this.emit({ type: "clear", remote: false });
+		return cleared;
 	}
 
 	/**
@@ -922,27 +1832,158 @@ export class HybridWebCache {
 	unsetSync(keyPath: KeyPath): boolean;
 
 	unsetSync(keyPath?: KeyPath): boolean {
+		return this.removeSync(keyPath, "unset");
+	}
+
+	private removeSync(keyPath: KeyPath | undefined, type: "unset" | "expire"): boolean {
 		if (this.storageBase.length === 0) return false;
 
 		if (keyPath) {
 			const key = this.createKey(keyPath);
-			const data = this.storageBase.getSync(key);
+			const data = this.residentSync(key, keyPath);
 
 			if (data) {
 				if (_unset(data.value, keyPath)) {
 					if (Object.keys(data.value || {}).length > 0) {
 						//update
 						this.storageBase.setSync(key, data);
+						this.emit({ type, key, keyPath, data, remote: false });
 						return true;
 					}
 				}
+			}
+
+			// An entry not held in memory may still be stored, and is removed as a whole
+			const removed = this.storageBase.unsetSync(key);
+			if (removed) this.emit({ type, key, keyPath, remote: false });
+			return removed;
+		}
+
+		const cleared = this.storageBase.unsetSync();
+		if (cleared) this.emit({ type: "clear", remote: false });
+		return cleared;
+	}
+
+	/**
+	 * Removes every entry whose key matches the pattern: starting with `prefix`, matching `glob` and `regex`.
+	 * Each removal is notified as an `unset` event and to the other tabs.
+	 *
+	 * With IndexedDB, the keys starting with the prefix (or with the part of the glob before its first wildcard)
+	 * are found through a key range, without loading the other entries.
+	 *
+	 * @param {@link KeyPattern} pattern - The pattern of the keys to remove.
+	 * @returns A promise that resolves with the number of entries removed.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * await cache.unsetMatching({ glob: 'report:*' });
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	async unsetMatching(pattern: KeyPattern): Promise<number> {
+		return this.removeKeys(await this.matchingKeys(pattern));
+	}
 
-				return this.storageBase.unsetSync(key);
+	/**
+	 * Removes the values of several keyPaths at once, each as `unset` would: an entry is removed
+	 * once its last value is, and updated otherwise.
+	 *
+	 * The entries are read, updated and removed in one go: with IndexedDB in a single transaction per step,
+	 * and with the storages synchronized between tabs with a single message per step. An `unset` event is
+	 * emitted for each keyPath removed.
+	 *
+	 * @param {@link KeyPath} keyPaths - The keyPaths to remove.
+	 * @returns A promise that resolves with the number of keyPaths removed.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * await cache.unsetMany(['user.token', 'cart', 'checkout']);
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	async unsetMany(keyPaths: KeyPath[]): Promise<number> {
+		const keys = keyPaths.map((keyPath) => this.createKey(keyPath));
+		const stored = await Utils.getManyOf(this.storageBase, keys);
+		const updated: Map<string, DataModel<ValueType>> = new Map();
+		const removed: Map<string, KeyPath> = new Map();
+		const events: CacheEvent[] = [];
+
+		keyPaths.forEach((keyPath, index) => {
+			const key = keys[index];
+			const data = stored.get(key);
+			if (!data || removed.has(key)) return;
+
+			if (_unset(data.value, keyPath) && Object.keys(data.value || {}).length > 0) {
+				updated.set(key, data);
+				events.push({ type: "unset", key, keyPath, data, remote: false });
+				return;
 			}
-			return false;
+
+			updated.delete(key);
+			removed.set(key, keyPath);
+		});
+
+		await Utils.setManyOf(this.storageBase, updated);
+		for (const key of await Utils.unsetManyOf(this.storageBase, [...removed.keys()])) {
+			events.push({ type: "unset", key, keyPath: removed.get(key), remote: false });
+		}
+
+		events.forEach((event) => this.emit(event));
+		return events.length;
+	}
+
+	/**
+	 * Runs the callback with a {@link CacheTransaction}, whose writes to any number of keys are staged,
+	 * then committed all together once the callback resolves, or not at all when it throws.
+	 *
+	 * With IndexedDB, the commit is a single IndexedDB transaction; other storages restore the previous entries
+	 * when the commit fails. Other tabs receive a single message for the whole commit, and the `set` and `unset`
+	 * events are emitted once it is done. Reads are not isolated: a value written elsewhere between a read of
+	 * the transaction and its commit is overwritten.
+	 *
+	 * @template R - The type of the result of the callback.
+	 * @param callback - Reads and stages writes through the transaction; must not be stored for later use.
+	 * @returns A promise that resolves with the result of the callback once the changes are committed.
+	 *
+	 * @example
+	 *
+	 * Keep a cart and its totals consistent.
+	 * ```ts
+	 * await cache.transaction(async (tx) => {
+	 * 	const items = (await tx.get<Item[]>('cart.items'))?.value ?? [];
+	 * 	const updated = [...items, item];
+	 *
+	 * 	await tx.set('cart.items', updated);
+	 * 	await tx.set('totals.cart', updated.reduce((sum, { price }) => sum + price, 0));
+	 * });
+	 * ```
+	 *
+	 * @category Set Methods
+	 */
+	async transaction<R>(callback: (tx: CacheTransaction) => R | Promise<R>): Promise<R> {
+		const tx = new CacheTransaction({
+			read: (key) => this.storageBase.get(key),
+			prepare: (value, ttl, previous) => {
+				const options = this.setOptionsOf(ttl ?? this.options.ttl);
+				return this.prepareDataSet(value, options.ttl, options.sliding, options.tags ?? previous?.tags).data;
+			},
+		});
+
+		let result: R;
+		let changes: TransactionChanges;
+		try {
+			result = await callback(tx);
+		} finally {
+			changes = tx.close();
 		}
 
-		return this.storageBase.unsetSync();
+		await Utils.commitOf(this.storageBase, changes.writes, changes.removals);
+		changes.events.forEach((event) => this.emit(event));
+		return result;
 	}
 
 	/**
@@ -964,17 +2005,9 @@ export class HybridWebCache {
 	 */
 	async resetWith<T extends ValueType>(keyValues: RecordType<T>, ttl: Partial<TTL> = this.options.ttl): Promise<void> {
 		await this.storageBase.unset();
+		this.emit({ type: "clear", remote: false });
 
-		const promises = Object.entries(keyValues).map(([key, value]) => {
-			const obj: object = {};
-
-			_set(obj, key, value);
-			const dataSet = this.prepareDataSet<T>(obj as T, ttl);
-
-			return this.storageBase.set(this.createKey(key), dataSet.data);
-		});
-
-		await Promise.all(promises);
+		await this.setMany(keyValues, ttl);
 	}
 
 	/**
@@ -994,17 +2027,183 @@ export class HybridWebCache {
 	 */
 	resetWithSync<T extends ValueType>(keyValues: RecordType<T>, ttl: Partial<TTL> = this.options.ttl): void {
 		this.storageBase.unsetSync();
+		this.emit({ type: "clear", remote: false });
 
-		Object.entries(keyValues).forEach(([key, value]) => {
+		Object.entries(keyValues).forEach(([keyPath, value]) => {
 			const obj: object = {};
 
-			_set(obj, key, value);
+			_set(obj, keyPath, value);
 			const dataSet = this.prepareDataSet<T>(obj as T, ttl);
+			const key = this.createKey(keyPath);
+
+			this.storageBase.setSync(key, dataSet.data);
+			this.emit({ type: "set", key, keyPath, data: dataSet.data, remote: false });
+		});
+	}
+
+	/**
+	 * Registers a listener for a kind of change of the cache, whether made by this instance or,
+	 * for storages synchronized between tabs, by another tab (`event.remote`).
+	 *
+	 * @param {@link CacheEventType} type - The kind of change: `set`, `unset`, `clear`, `expire` or `evict`.
+	 * @param listener - Called with each {@link CacheEvent} of that type, once the change is stored.
+	 * @returns A function that removes the listener.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache('app', { storage: StorageEngine.LocalStorage });
+	 *
+	 * const off = cache.on('set', (event) => {
+	 * 	if (event.remote) console.log(`${event.key} was changed in another tab`);
+	 * });
+	 * // ...
+	 * off();
+	 * ```
+	 *
+	 * @category Event Methods
+	 */
+	on(type: CacheEventType, listener: (event: CacheEvent) => void): () => void {
+		let listeners = this.listeners.get(type);
+		if (!listeners) {
+			listeners = new Set();
+			this.listeners.set(type, listeners);
+		}
+
+		listeners.add(listener);
+		return () => listeners.delete(listener);
+	}
+
+	/**
+	 * Registers a listener for the value at the given keyPath: it is called whenever a change, made by this
+	 * instance or by another tab, gives the keyPath a different value, including when it is removed.
+	 *
+	 * @template T - The type of the value.
+	 * @param {@link KeyPath} keyPath - The keyPath to follow; changes to other keyPaths of the same entry are ignored.
+	 * @param listener - Called with the new value, `undefined` once removed, and the {@link CacheEvent} that changed it.
+	 * @returns A function that removes the listener.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache('app', { storage: StorageEngine.LocalStorage });
+	 *
+	 * const unsubscribe = cache.subscribe<string>('user.name', (name) => render(name));
+	 * cache.setSync('user.age', 42); // not called
+	 * cache.setSync('user.name', 'John'); // called with "John"
+	 * ```
+	 *
+	 * @category Event Methods
+	 */
+	subscribe<T extends ValueType>(keyPath: KeyPath, listener: (value: T | undefined, event: CacheEvent) => void): () => void {
+		const key = this.createKey(keyPath);
+		// Entries may be updated in place, so the last value is copied
+		let last = _cloneDeep(_get(this.storageBase.getSync(key)?.value, keyPath));
+
+		const handleEvent = (event: CacheEvent) => {
+			if (event.type !== "clear" && event.key !== key) return;
+
+			const value = event.data ? _get(event.data.value, keyPath) : undefined;
+			if (_isEqual(value, last)) return;
+
+			last = _cloneDeep(value);
+			listener(value as T | undefined, event);
+		};
+
+		const types: CacheEventType[] = ["set", "unset", "clear", "expire", "evict"];
+		const offs = types.map((type) => this.on(type, handleEvent));
+		return () => offs.forEach((off) => off());
+	}
+
+	/**
+	 * Watches the value at the given keyPath: the returned {@link CacheWatcher} emits its current
+	 * {@link DataGetModel}, read from the storage even when not held in memory (e.g. with `indexedDB.lazy`),
+	 * then the new one whenever the value changes, locally or in another tab,
+	 * and `undefined` once it is removed. Rewriting a parent (e.g. `user` for `user.name`) counts as
+	 * a change only when the value at the keyPath differs.
+	 *
+	 * Watching does not refresh sliding expirations nor remove expired values.
+	 *
+	 * @template T - The type of the value.
+	 * @param {@link KeyPath} keyPath - The keyPath to watch.
+	 * @returns An async iterable that is also Observable-compatible.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache();
+	 *
+	 * for await (const name of cache.watch<string>('user.name')) {
+	 * 	console.log(name?.value);
+	 * }
+	 *
+	 * // RxJS
+	 * from(cache.watch<string>('user.name')).subscribe((name) => console.log(name?.value));
+	 * ```
+	 *
+	 * @category Event Methods
+	 */
+	watch<T extends ValueType>(keyPath: KeyPath): CacheWatcher<T> {
+		const key = this.createKey(keyPath);
 
-			this.storageBase.setSync(this.createKey(key), dataSet.data);
+		return new CacheWatcher<T>({
+			read: async () => this.toGetModel<T>(keyPath, await this.storageBase.get(key)),
+			listen: (listener) => this.subscribe<T>(keyPath, (_value, event) => listener(this.toGetModel<T>(keyPath, event.data))),
 		});
 	}
 
+	/**
+	 * Returns a view of the cache scoped to the given namespace: its keys are stored with the `name:` prefix,
+	 * and its `getAll`, `unset()` (without a keyPath), `length`, `bytes`, `purgeExpired` and tag methods only
+	 * cover the keys of the namespace. Its events only report the changes made through the view and, for
+	 * the keys of the namespace, by other tabs.
+	 *
+	 * The view shares the storage of the cache, with its IndexedDB connection, its `BroadcastChannel`, its limits
+	 * (`maxEntries`, `maxBytes`), its tiers and its sweeper, instead of opening its own. It inherits the other
+	 * options, such as the TTL. Calling `namespace` again with the same name returns the same view.
+	 *
+	 * @param {string} name - The name of the namespace.
+	 * @returns The view of the namespace, itself a {@link HybridWebCache}.
+	 * @throws {Error} If the name is empty.
+	 *
+	 * @example
+	 *
+	 * ```ts
+	 * const cache = new HybridWebCache('myApp', { storage: StorageEngine.IndexedDB });
+	 * const orders = cache.namespace('orders');
+	 *
+	 * await orders.set('42', order); // stored under "orders:42"
+	 * await orders.unset(); // removes the orders only
+	 * ```
+	 *
+	 * @category Auxiliary Methods
+	 */
+	namespace(name: string): HybridWebCache {
+		const namespace = name?.trim();
+		if (!namespace) {
+			throw new Error("Namespace cannot be empty.");
+		}
+
+		let view = this.namespaces.get(namespace);
+		if (!view) {
+			view = new HybridWebCache(this.baseName, {
+				...this.options,
+				storage: new NamespaceStrategy(this.storageBase, namespace),
+				// The storage already enforces the limits of the cache and the cache sweeps and elects a leader for it
+				maxEntries: undefined,
+				maxBytes: undefined,
+				evictionPolicy: undefined,
+				quota: { evictExpired: false, evictByPolicy: false },
+				tiered: undefined,
+				sweeper: undefined,
+				leaderElection: undefined,
+			});
+			this.namespaces.set(namespace, view);
+		}
+
+		return view;
+	}
+
 	/**
 	 * Retrieves the number of items currently stored in the cache.
 	 *
@@ -1031,7 +2230,9 @@ export class HybridWebCache {
 	 * @returns An object containing:
 	 *  - `dataBase`: The name of the database used by the cache.
 	 *  - `size`: The calculated storage size in bytes represented as a string.
-	 *  - `options`: The current cache options including TTL converted to milliseconds.
+	 *  - `options`: The current cache options including TTL converted to milliseconds
+	 *    and the storage engine currently in use.
+	 *  - `fallbacks`: With `StorageEngine.Auto`, every fallback along the chain and its reason, if any.
 	 *
 	 * ```ts
 	 * {
@@ -1040,22 +2241,29 @@ export class HybridWebCache {
 	 * 	options: {
 	 * 		ttl: 300000, // 5 minutes in ms
 	 * 		removeExpired: true,
-	 * 		storage: 2 // StorageEngine.IndexedDB
-	 * 	}
+	 * 		storage: 4 // StorageEngine.Memory
+	 * 	},
+	 * 	fallbacks: [
+	 * 		{ from: 2, to: 4, reason: 'IndexedDB is not available' } // IndexedDB -> Memory
+	 * 	]
 	 * }
 	 * ```
 	 *
 	 * @category Auxiliary Methods
 	 */
-	get info(): { dataBase: string; size: string; options: Options } {
+	get info(): { dataBase: string; size: string; options: Options; fallbacks?: StorageFallback[] } {
 		const size = Utils.calculateStorageSize(this.storageBase.bytes);
+		const fallbacks = this.fallbackStorage?.fallbacks ?? [];
+
 		return {
 			dataBase: this.baseName,
 			size,
 			options: {
 				...this.options,
+				storage: this.storageBase.type,
 				ttl: Utils.convertTTLToMilliseconds(this.options.ttl),
 			},
+			...(fallbacks.length > 0 && { fallbacks: [...fallbacks] }),
 		};
 	}
 
@@ -1068,4 +2276,27 @@ export class HybridWebCache {
 	get storageType(): StorageEngine {
 		return this.storageBase.type;
 	}
+
+	/**
+	 * Whether this instance performs the background work: always, unless the `leaderElection` option is set,
+	 * in which case only the instance of the elected tab does.
+	 *
+	 * @returns `true` when this instance sweeps and refreshes stale values.
+	 * @category Auxiliary Methods
+	 */
+	get isLeader(): boolean {
+		return this.election?.isLeader ?? true;
+	}
+
+	/**
+	 * Returns the election of the tab performing the background work, with the `leaderElection` option.
+	 * Use it to follow leadership changes, to run your own background work in the leader tab only,
+	 * or to `close` it when the cache is no longer used.
+	 *
+	 * @returns The {@link LeaderElection}, or `undefined` without the `leaderElection` option.
+	 * @category Auxiliary Methods
+	 */
+	get leaderElection(): LeaderElection | undefined {
+		return this.election;
+	}
 }
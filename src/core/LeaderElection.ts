@@ -0,0 +1,225 @@
+import type { LeaderElectionOptions } from "./types";
+
+/** @internal */
+type LeaderMessage = { type: "claim" | "heartbeat" | "resign"; id: string } | { type: "task"; id: string; task: unknown };
+
+/**
+ * Elects a single leader among the tabs that open an election with the same name, over `BroadcastChannel`,
+ * so background work runs in one tab only.
+ *
+ * The leader sends a heartbeat every `heartbeatInterval` ms. When none is received for `timeout` ms, or when
+ * the leader resigns (its page is hidden or `close` is called), the other tabs claim the leadership; concurrent
+ * claims are settled in favor of the smallest `id`. A page restored from the back/forward cache joins the election again.
+ *
+ * @example
+ *
+ * ```ts
+ * const election = new LeaderElection('app.leader');
+ *
+ * election.onChange((isLeader) => (isLeader ? startPolling() : stopPolling()));
+ * election.onTask((task) => refresh(task));
+ *
+ * // Runs in the leader tab, whichever it is
+ * election.delegate({ url: '/api/feed' });
+ * ```
+ *
+ * @category Core
+ */
+export class LeaderElection {
+	/** Identifies this participant; the smallest id wins concurrent claims. */
+	readonly id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+	private channel: BroadcastChannel;
+	private options: Required<LeaderElectionOptions>;
+
+	private leader = false;
+	private closed = false;
+	private suspended = false;
+	private lastHeartbeat = 0;
+	private claimTimer?: ReturnType<typeof setTimeout>;
+	private tickTimer?: ReturnType<typeof setInterval>;
+
+	private handlePageHide = () => this.suspend();
+	private handlePageShow = (event: PageTransitionEvent) => {
+		if (event.persisted) this.resume();
+	};
+
+	private changeListeners: Set<(isLeader: boolean) => void> = new Set();
+	private taskListeners: Set<(task: unknown) => void> = new Set();
+
+	/**
+	 * @param name - The name of the election; tabs using the same name elect one leader among them.
+	 * @param options - The heartbeat interval and the failover timeout.
+	 */
+	constructor(name: string, options: LeaderElectionOptions = {}) {
+		this.options = { heartbeatInterval: options.heartbeatInterval ?? 1000, timeout: options.timeout ?? 3000 };
+		this.channel = new BroadcastChannel(name);
+		this.channel.onmessage = this.handleMessage.bind(this);
+
+		this.tickTimer = setInterval(() => this.tick(), this.options.heartbeatInterval);
+		if (typeof window !== "undefined") {
+			// Lets another tab take over at once instead of waiting for the timeout
+			window.addEventListener("pagehide", this.handlePageHide);
+			window.addEventListener("pageshow", this.handlePageShow);
+		}
+
+		this.claim();
+	}
+
+	/** Whether this participant is the current leader. */
+	get isLeader(): boolean {
+		return this.leader;
+	}
+
+	private post(type: "claim" | "heartbeat" | "resign"): void {
+		this.channel.postMessage({ type, id: this.id } satisfies LeaderMessage);
+	}
+
+	/** Announces the claim, and takes the leadership unless a leader or a smaller claimer answers in time. */
+	private claim(): void {
+		if (this.leader || this.closed || this.suspended || this.claimTimer !== undefined) return;
+
+		this.post("claim");
+		this.claimTimer = setTimeout(() => {
+			this.claimTimer = undefined;
+			this.setLeader(true);
+		}, this.options.heartbeatInterval);
+	}
+
+	private abortClaim(): void {
+		clearTimeout(this.claimTimer);
+		this.claimTimer = undefined;
+	}
+
+	private tick(): void {
+		if (this.leader) {
+			this.post("heartbeat");
+		} else if (Date.now() - this.lastHeartbeat > this.options.timeout) {
+			this.claim();
+		}
+	}
+
+	private handleMessage(event: MessageEvent<LeaderMessage>): void {
+		const message = event.data;
+		if (this.suspended) return;
+
+		switch (message.type) {
+			case "heartbeat":
+				// Two leaders after a split: the smallest id keeps the leadership
+				if (this.leader && message.id > this.id) {
+					this.post("heartbeat");
+					return;
+				}
+				this.setLeader(false);
+				this.abortClaim();
+				this.lastHeartbeat = Date.now();
+				break;
+			case "claim":
+				if (this.leader) {
+					this.post("heartbeat");
+				} else if (this.claimTimer !== undefined && message.id < this.id) {
+					this.abortClaim();
+					this.lastHeartbeat = Date.now();
+				}
+				break;
+			case "resign":
+				this.lastHeartbeat = 0;
+				this.claim();
+				break;
+			case "task":
+				if (this.leader) this.runTask(message.task);
+				break;
+		}
+	}
+
+	private setLeader(leader: boolean): void {
+		if (this.leader === leader) return;
+
+		this.leader = leader;
+		if (leader) this.post("heartbeat");
+		this.changeListeners.forEach((listener) => listener(leader));
+	}
+
+	private runTask(task: unknown): void {
+		this.taskListeners.forEach((listener) => listener(task));
+	}
+
+	/**
+	 * Registers a listener called whenever this participant gains or loses the leadership.
+	 *
+	 * @param listener - Called with the new leadership state.
+	 * @returns A function that removes the listener.
+	 */
+	onChange(listener: (isLeader: boolean) => void): () => void {
+		this.changeListeners.add(listener);
+		return () => this.changeListeners.delete(listener);
+	}
+
+	/**
+	 * Registers a listener for the tasks handed over with `delegate`; it is only called while this
+	 * participant is the leader.
+	 *
+	 * @param listener - Called with each task.
+	 * @returns A function that removes the listener.
+	 */
+	onTask(listener: (task: unknown) => void): () => void {
+		this.taskListeners.add(listener);
+		return () => this.taskListeners.delete(listener);
+	}
+
+	/**
+	 * Hands a task over to the leader: it runs here when this participant leads, otherwise it is posted
+	 * to the leader tab. A task posted while no tab leads, during a failover, is dropped.
+	 *
+	 * @param task - Any value supported by the structured clone algorithm.
+	 */
+	delegate(task: unknown): void {
+		if (this.closed) return;
+
+		if (this.leader) {
+			this.runTask(task);
+		} else {
+			this.channel.postMessage({ type: "task", id: this.id, task } satisfies LeaderMessage);
+		}
+	}
+
+	/** Resigns the leadership and stops taking part while the page is hidden, as it may be kept in the back/forward cache. */
+	private suspend(): void {
+		if (this.closed || this.suspended) return;
+		this.suspended = true;
+
+		clearInterval(this.tickTimer);
+		this.abortClaim();
+		if (this.leader) this.post("resign");
+		this.setLeader(false);
+	}
+
+	/** Takes part again once the page is restored from the back/forward cache, claiming the leadership if no tab holds it. */
+	private resume(): void {
+		if (this.closed || !this.suspended) return;
+		this.suspended = false;
+
+		this.lastHeartbeat = 0;
+		this.tickTimer = setInterval(() => this.tick(), this.options.heartbeatInterval);
+		this.claim();
+	}
+
+	/**
+	 * Leaves the election, resigning the leadership so another tab takes over immediately.
+	 */
+	close(): void {
+		if (this.closed) return;
+		this.closed = true;
+
+		clearInterval(this.tickTimer);
+		this.abortClaim();
+		if (this.leader) this.post("resign");
+		this.setLeader(false);
+
+		this.channel.close();
+		if (typeof window !== "undefined") {
+			window.removeEventListener("pagehide", this.handlePageHide);
+			window.removeEventListener("pageshow", this.handlePageShow);
+		}
+	}
+}
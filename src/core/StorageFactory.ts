@@ -1,35 +1,150 @@
-import { IndexedDBStrategy, LocalStorageStrategy, MemoryStrategy, SessionStorageStrategy } from "./strategies";
-import { type StorageBase, StorageEngine } from "./types";
+import {
+	CacheStorageStrategy,
+	FallbackStrategy,
+	IndexedDBStrategy,
+	LocalStorageStrategy,
+	MemoryStrategy,
+	OPFSStrategy,
+	SessionStorageStrategy,
+	SizeRoutingStrategy,
+} from "./strategies";
+import { type Options, type StorageBase, type StorageCreator, StorageEngine } from "./types";
 import { Utils } from "./utils";
 
-/** @ignore */
+/** @internal */
+type BuiltInStorage = {
+	name: string;
+	isAvailable: () => boolean;
+	create: (baseName: string, storeName?: string, options?: Partial<Options>) => StorageBase;
+};
+
+/**
+ * Built-in storage engines.
+ * @internal
+ */
+const builtInStorages = new Map<StorageEngine, BuiltInStorage>([
+	[StorageEngine.LocalStorage, { name: "LocalStorage", isAvailable: () => Utils.isLocalStorageAvailable(), create: (baseName) => new LocalStorageStrategy(baseName) }],
+	[
+		StorageEngine.IndexedDB,
+		{
+			name: "IndexedDB",
+			isAvailable: () => Utils.isIndexedDBAvailable(),
+			create: (baseName, storeName, options) => new IndexedDBStrategy(baseName, storeName, options?.indexedDB),
+		},
+	],
+	[StorageEngine.CacheStorage, { name: "CacheStorage", isAvailable: () => Utils.isCacheStorageAvailable(), create: (baseName) => new CacheStorageStrategy(baseName) }],
+	[StorageEngine.SessionStorage, { name: "SessionStorage", isAvailable: () => Utils.isSessionStorageAvailable(), create: (baseName) => new SessionStorageStrategy(baseName) }],
+	[StorageEngine.OPFS, { name: "OPFS", isAvailable: () => Utils.isOPFSAvailable(), create: (baseName) => new OPFSStrategy(baseName) }],
+	[StorageEngine.Memory, { name: "Memory", isAvailable: () => true, create: () => new MemoryStrategy() }],
+	[
+		StorageEngine.Hybrid,
+		{
+			name: "Hybrid",
+			isAvailable: () => Utils.isLocalStorageAvailable() && Utils.isIndexedDBAvailable(),
+			create: (baseName, storeName, options) =>
+				new SizeRoutingStrategy(new LocalStorageStrategy(baseName), new IndexedDBStrategy(baseName, storeName, options?.indexedDB), options?.sizeThreshold),
+		},
+	],
+]);
+
+/**
+ * Order in which `StorageEngine.Auto` tries the built-in engines. CacheStorage comes after the engines
+ * considered before it was added, so it is only chosen where `Auto` used to fall back to memory.
+ * @internal
+ */
+const autoOrder: StorageEngine[] = [StorageEngine.LocalStorage, StorageEngine.IndexedDB, StorageEngine.SessionStorage, StorageEngine.CacheStorage, StorageEngine.Memory];
+
+/**
+ * Creates the storage used by a cache and keeps the registry of custom storages.
+ *
+ * @category Storage
+ */
 class StorageFactory {
-	createStorage(type: StorageEngine, baseName: string, storeName?: string): StorageBase {
-		switch (type) {
-			case StorageEngine.SessionStorage:
-				if (!Utils.isSessionStorageAvailable()) throw new Error("SessionStorage is not available");
-				return new SessionStorageStrategy(baseName);
-			case StorageEngine.LocalStorage:
-				if (!Utils.isLocalStorageAvailable()) throw new Error("LocalStorage is not available");
-				return new LocalStorageStrategy(baseName);
-			case StorageEngine.IndexedDB:
-				if (!Utils.isIndexedDBAvailable()) throw new Error("IndexedDB is not available");
-				return new IndexedDBStrategy(baseName, storeName);
-			case StorageEngine.Auto:
-				if (Utils.isLocalStorageAvailable()) {
-					return new LocalStorageStrategy(baseName);
-				}
-				if (Utils.isIndexedDBAvailable()) {
-					return new IndexedDBStrategy(baseName, storeName);
-				}
-				if (Utils.isSessionStorageAvailable()) {
-					return new SessionStorageStrategy(baseName);
-				}
-				return new MemoryStrategy();
-
-			default:
-				return new MemoryStrategy();
+	private registry: Map<string, StorageCreator> = new Map();
+
+	/**
+	 * Registers a custom storage under a name, so it can be selected with `Options.storage`.
+	 *
+	 * Registering an existing name replaces the previous creator.
+	 *
+	 * @param name - The name used to select the storage.
+	 * @param creator - The factory that builds the {@link StorageBase}.
+	 * @example
+	 * ```ts
+	 * StorageFactory.register('electron', (baseName) => new ElectronStoreStrategy(baseName));
+	 *
+	 * const cache = new HybridWebCache('myApp', { storage: 'electron' });
+	 * ```
+	 */
+	register(name: string, creator: StorageCreator): void {
+		if (!name || name.trim().length === 0) throw new Error("Storage name cannot be empty.");
+		if (typeof creator !== "function") throw new Error(`Storage "${name}" must be registered with a creator function.`);
+
+		this.registry.set(name.trim(), creator);
+	}
+
+	/**
+	 * Removes a custom storage from the registry.
+	 *
+	 * @param name - The name the storage was registered with.
+	 * @returns `true` if the storage was registered, else `false`.
+	 */
+	unregister(name: string): boolean {
+		return this.registry.delete(name.trim());
+	}
+
+	/**
+	 * Checks if a custom storage is registered under the given name.
+	 *
+	 * @param name - The name the storage was registered with.
+	 */
+	isRegistered(name: string): boolean {
+		return this.registry.has(name.trim());
+	}
+
+	/**
+	 * Creates the storage used by `StorageEngine.Auto`: it starts with the first available engine of
+	 * `options.fallbackChain` and keeps falling back along the chain whenever the engine in use fails.
+	 *
+	 * @internal
+	 */
+	createFallbackStorage(baseName: string, storeName?: string, options?: Partial<Options>): FallbackStrategy {
+		return new FallbackStrategy(options?.fallbackChain ?? autoOrder, (engine) => this.createStorage(engine, baseName, storeName, options));
+	}
+
+	/**
+	 * Creates the storage described by `storage`.
+	 *
+	 * - a {@link StorageBase} instance is returned as is;
+	 * - a {@link StorageCreator} is called with `baseName` and `storeName`;
+	 * - a string selects a storage registered with `register`;
+	 * - a {@link StorageEngine} selects a built-in engine, throwing when it is not available.
+	 *   `StorageEngine.Auto` selects the first available one of `options.fallbackChain` and unknown engines fall back to memory.
+	 *   Built-in engines read their settings (e.g. `sizeThreshold`) from `options`.
+	 *
+	 * @internal
+	 */
+	createStorage(storage: StorageEngine | string | StorageBase | StorageCreator, baseName: string, storeName?: string, options?: Partial<Options>): StorageBase {
+		if (typeof storage === "object" && storage !== null) return storage;
+		if (typeof storage === "function") return storage(baseName, storeName);
+
+		if (typeof storage === "string") {
+			const creator = this.registry.get(storage.trim());
+			if (!creator) throw new Error(`Storage "${storage}" is not registered`);
+			return creator(baseName, storeName);
 		}
+
+		if (storage === StorageEngine.Auto) {
+			const chain = options?.fallbackChain ?? autoOrder;
+			const engine = chain.map((type) => builtInStorages.get(type)).find((builtIn) => builtIn?.isAvailable());
+			return engine ? engine.create(baseName, storeName, options) : new MemoryStrategy();
+		}
+
+		const builtIn = builtInStorages.get(storage);
+		if (!builtIn) return new MemoryStrategy();
+		if (!builtIn.isAvailable()) throw new Error(`${builtIn.name} is not available`);
+
+		return builtIn.create(baseName, storeName, options);
 	}
 }
 
@@ -0,0 +1,35 @@
+import { StorageEngine } from "../types";
+
+/**
+ * Thrown, or used to reject, when a value cannot be stored because the storage quota is exhausted,
+ * even after evicting entries as configured in `Options.quota`.
+ *
+ * Nothing is written when it is thrown: the storage, its in-memory mirror and the other tabs
+ * keep the previous value of the key, if any.
+ *
+ * @example
+ * ```ts
+ * import { HybridWebCache, QuotaExceededError } from 'hybrid-webcache';
+ *
+ * try {
+ *   await cache.set('report', hugeReport);
+ * } catch (error) {
+ *   if (error instanceof QuotaExceededError) console.warn(`No room left in ${StorageEngine[error.storage]} for ${error.key}`);
+ * }
+ * ```
+ *
+ * @category Errors
+ */
+export class QuotaExceededError extends Error {
+	/** The primary key that could not be stored. */
+	readonly key: string;
+	/** The storage engine whose quota is exhausted. */
+	readonly storage: StorageEngine;
+
+	constructor(key: string, storage: StorageEngine, cause?: unknown) {
+		super(`${StorageEngine[storage] ?? storage} quota exceeded while storing "${key}"`, { cause });
+		this.name = "QuotaExceededError";
+		this.key = key;
+		this.storage = storage;
+	}
+}
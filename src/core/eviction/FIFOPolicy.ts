@@ -0,0 +1,30 @@
+import type { DataModel, EvictionPolicy, ValueType } from "../types";
+
+/**
+ * First in, first out: evicts first the keys inserted the earliest, regardless of reads and updates.
+ *
+ * @category Eviction
+ */
+export class FIFOPolicy implements EvictionPolicy {
+	/** Keys in insertion order. */
+	private insertions: Set<string> = new Set();
+
+	recordSet(key: string, _data: DataModel<ValueType>): void {
+		this.insertions.add(key);
+	}
+
+	recordGet(_key: string, _data: DataModel<ValueType>): void {
+		// Reads do not change the insertion order
+	}
+
+	forget(key?: string): void {
+		if (key) this.insertions.delete(key);
+		else this.insertions.clear();
+	}
+
+	/** Keys never seen here (e.g. written by other tabs) are ranked as the oldest. */
+	rank(entries: Map<string, DataModel<ValueType>>): string[] {
+		const unseen = [...entries.keys()].filter((key) => !this.insertions.has(key));
+		return [...unseen, ...[...this.insertions].filter((key) => entries.has(key))];
+	}
+}
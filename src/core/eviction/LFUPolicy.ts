@@ -0,0 +1,38 @@
+import type { DataModel, EvictionPolicy, ValueType } from "../types";
+
+/**
+ * Least frequently used: evicts first the keys with the fewest reads and writes,
+ * the oldest ones first among keys used as often.
+ *
+ * @category Eviction
+ */
+export class LFUPolicy implements EvictionPolicy {
+	/** Access count of each key, in insertion order. */
+	private counts: Map<string, number> = new Map();
+
+	private count(key: string): void {
+		this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+	}
+
+	recordSet(key: string, _data: DataModel<ValueType>): void {
+		this.count(key);
+	}
+
+	recordGet(key: string, _data: DataModel<ValueType>): void {
+		this.count(key);
+	}
+
+	forget(key?: string): void {
+		if (key) this.counts.delete(key);
+		else this.counts.clear();
+	}
+
+	/** Keys never seen here (e.g. written by other tabs) have a count of zero. */
+	rank(entries: Map<string, DataModel<ValueType>>): string[] {
+		const unseen = [...entries.keys()].filter((key) => !this.counts.has(key));
+		const seen = [...this.counts.keys()].filter((key) => entries.has(key));
+
+		// Array.prototype.sort is stable, so ties keep the insertion order
+		return [...unseen, ...seen.sort((a, b) => (this.counts.get(a) ?? 0) - (this.counts.get(b) ?? 0))];
+	}
+}
@@ -0,0 +1,35 @@
+import type { DataModel, EvictionPolicy, ValueType } from "../types";
+
+/**
+ * Least recently used: evicts first the keys that were neither read nor written for the longest time.
+ *
+ * @category Eviction
+ */
+export class LRUPolicy implements EvictionPolicy {
+	/** Keys from the least to the most recently used. */
+	private recency: Set<string> = new Set();
+
+	private touch(key: string): void {
+		this.recency.delete(key);
+		this.recency.add(key);
+	}
+
+	recordSet(key: string, _data: DataModel<ValueType>): void {
+		this.touch(key);
+	}
+
+	recordGet(key: string, _data: DataModel<ValueType>): void {
+		this.touch(key);
+	}
+
+	forget(key?: string): void {
+		if (key) this.recency.delete(key);
+		else this.recency.clear();
+	}
+
+	/** Keys never seen here (e.g. written by other tabs) are ranked as the least recently used. */
+	rank(entries: Map<string, DataModel<ValueType>>): string[] {
+		const unseen = [...entries.keys()].filter((key) => !this.recency.has(key));
+		return [...unseen, ...[...this.recency].filter((key) => entries.has(key))];
+	}
+}
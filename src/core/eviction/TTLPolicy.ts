@@ -0,0 +1,30 @@
+import type { DataModel, EvictionPolicy, ValueType } from "../types";
+
+/**
+ * Soonest to expire first: evicts first the keys with the earliest `expiresAt`,
+ * so expired entries always go first. Entries that never expire are evicted last.
+ *
+ * @category Eviction
+ */
+export class TTLPolicy implements EvictionPolicy {
+	recordSet(_key: string, _data: DataModel<ValueType>): void {
+		// The expiration is read from the stored entries when ranking
+	}
+
+	recordGet(_key: string, _data: DataModel<ValueType>): void {
+		// The expiration is read from the stored entries when ranking
+	}
+
+	forget(_key?: string): void {
+		// Nothing is tracked
+	}
+
+	rank(entries: Map<string, DataModel<ValueType>>): string[] {
+		const expiresAt = (key: string) => entries.get(key)?.expiresAt || Number.POSITIVE_INFINITY;
+
+		return [...entries.keys()].sort((a, b) => {
+			const [first, second] = [expiresAt(a), expiresAt(b)];
+			return first === second ? 0 : first - second;
+		});
+	}
+}
@@ -0,0 +1,26 @@
+import type { EvictionPolicy, EvictionPolicyName } from "../types";
+import { FIFOPolicy } from "./FIFOPolicy";
+import { LFUPolicy } from "./LFUPolicy";
+import { LRUPolicy } from "./LRUPolicy";
+import { TTLPolicy } from "./TTLPolicy";
+
+/**
+ * Returns the given policy, or a new instance of the built-in policy with the given name.
+ * Unknown names fall back to `lru`.
+ *
+ * @internal
+ */
+export function createEvictionPolicy(policy: EvictionPolicyName | EvictionPolicy = "lru"): EvictionPolicy {
+	if (typeof policy === "object") return policy;
+
+	switch (policy) {
+		case "lfu":
+			return new LFUPolicy();
+		case "fifo":
+			return new FIFOPolicy();
+		case "ttl":
+			return new TTLPolicy();
+		default:
+			return new LRUPolicy();
+	}
+}
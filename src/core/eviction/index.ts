@@ -0,0 +1,5 @@
+export * from "./createEvictionPolicy";
+export * from "./FIFOPolicy";
+export * from "./LFUPolicy";
+export * from "./LRUPolicy";
+export * from "./TTLPolicy";
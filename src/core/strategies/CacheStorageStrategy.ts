@@ -0,0 +1,349 @@
+import type { DataModel, StorageBase, StorageChange, ValueType } from "../types";
+import { StorageEngine } from "../types";
+import { EntrySizes } from "../utils";
+
+/** @ignore */
+export class CacheStorageStrategy implements StorageBase {
+	private cache: Cache | null = null;
+	private memoryCache: Map<string, DataModel<ValueType>> = new Map();
+	private entrySizes = new EntrySizes();
+
+	private cacheName: string;
+	private keyPrefix: string;
+
+	private channel: BroadcastChannel;
+	private remoteListeners: Set<(change: StorageChange) => void> = new Set();
+	private queue: Promise<unknown> = Promise.resolve();
+
+	constructor(baseName = "HybridWebCache") {
+		this.cacheName = baseName.trim().length === 0 ? "HybridWebCache" : baseName.trim();
+		this.keyPrefix = `https://hybrid-webcache/${encodeURIComponent(this.cacheName)}/`;
+
+		this.channel = new BroadcastChannel(`${this.cacheName}.CacheStorage`);
+		this.channel.onmessage = this.handleSyncEvent.bind(this);
+	}
+
+	private handleSyncEvent(event: MessageEvent): void {
+		// Handle sync events for multi-instance communication
+		const action = event.data?.action || "";
+
+		switch (action) {
+			case "clear":
+				this.memoryCache.clear();
+				this.entrySizes.clear();
+				break;
+			case "unset": {
+				const { key } = event.data;
+				if (key) {
+					this.memoryCache.delete(key);
+					this.entrySizes.delete(key);
+				}
+				break;
+			}
+			case "sync": {
+				const { key, value } = event.data;
+				this.memoryCache.set(key, value);
+				this.entrySizes.track(key, value);
+				break;
+			}
+			case "syncMany":
+			case "unsetMany": {
+				// A batch is sent as one message, but reported key by key
+				const { entries = [], keys = [] } = event.data as { entries?: [string, DataModel<ValueType>][]; keys?: string[] };
+				for (const [key, value] of entries) {
+					this.memoryCache.set(key, value);
+					this.entrySizes.track(key, value);
+					this.remoteListeners.forEach((listener) => listener({ action: "sync", key, value }));
+				}
+				for (const key of keys) {
+					this.memoryCache.delete(key);
+					this.entrySizes.delete(key);
+					this.remoteListeners.forEach((listener) => listener({ action: "unset", key }));
+				}
+				return;
+			}
+			default:
+				return;
+		}
+
+		const { key, value } = event.data;
+		this.remoteListeners.forEach((listener) => listener({ action, key, value }));
+	}
+
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		this.remoteListeners.add(listener);
+		return () => this.remoteListeners.delete(listener);
+	}
+
+	/**
+	 * Cache API entries are indexed by request, so each key is mapped to a
+	 * synthetic URL scoped by the cache name.
+	 */
+	private formattedKey(key: string): string {
+		return `${this.keyPrefix}${encodeURIComponent(key)}`;
+	}
+
+	private originalKey(url: string): string {
+		return decodeURIComponent(url.replace(this.keyPrefix, ""));
+	}
+
+	private async openCache(): Promise<Cache> {
+		if (!this.cache) {
+			this.cache = await caches.open(this.cacheName);
+		}
+		return this.cache;
+	}
+
+	/**
+	 * Runs cache operations one after another, so a fire-and-forget write from a
+	 * sync method can never overtake a previous clear or delete.
+	 */
+	private execute<T>(operation: (cache: Cache) => Promise<T>): Promise<T> {
+		const result = this.queue.then(() => this.openCache()).then(operation);
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	private toResponse<T extends ValueType>(data: DataModel<T>): Response {
+		return new Response(JSON.stringify(data), { headers: { "Content-Type": "application/json" } });
+	}
+
+	private write<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		const response = this.toResponse(data);
+		return this.execute((cache) => cache.put(this.formattedKey(key), response));
+	}
+
+	private remove(key: string): Promise<boolean> {
+		return this.execute((cache) => cache.delete(this.formattedKey(key)));
+	}
+
+	/** Removes the entries of this storage only, as the cache may be shared with other requests, such as the assets of a PWA. */
+	private clear(): Promise<boolean[]> {
+		return this.execute(async (cache) => {
+			const requests = (await cache.keys()).filter((request) => request.url.startsWith(this.keyPrefix));
+			return Promise.all(requests.map((request) => cache.delete(request)));
+		});
+	}
+
+	/**
+	 * Puts back in memory, and in the other instances, what is persisted for the key, or for every key without one,
+	 * once a write or a removal made in the background by a sync method has failed.
+	 */
+	private async restore(key?: string): Promise<void> {
+		try {
+			if (!key) {
+				const entries = await this.getAll();
+				this.channel.postMessage({ action: "syncMany", entries: [...(entries ?? [])] });
+				return;
+			}
+
+			const response = await this.execute((cache) => cache.match(this.formattedKey(key)));
+			const data: DataModel<ValueType> | undefined = response ? await response.json() : undefined;
+
+			if (data) {
+				this.memoryCache.set(key, data);
+				this.entrySizes.track(key, data);
+				this.channel.postMessage({ action: "sync", key, value: data });
+			} else {
+				this.memoryCache.delete(key);
+				this.entrySizes.delete(key);
+				this.channel.postMessage({ action: "unset", key, value: undefined });
+			}
+		} catch {
+			// The cache cannot be read either, so the memory cache is the only copy left
+		}
+	}
+
+	/** @internal */
+	async init(): Promise<void> {
+		await this.getAll(); // Load existing data into memory cache
+	}
+
+	async set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		await this.write(key, data);
+
+		this.memoryCache.set(key, data);
+		this.entrySizes.track(key, data);
+		this.channel.postMessage({ action: "sync", key, value: data });
+	}
+
+	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		this.memoryCache.set(key, data);
+		this.entrySizes.track(key, data);
+		this.channel.postMessage({ action: "sync", key, value: data });
+
+		this.write(key, data).catch(() => this.restore(key));
+	}
+
+	/** Writes every entry in a single queued operation, notifying the other instances with a single message. */
+	async setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		await this.execute((cache) => Promise.all([...entries].map(([key, data]) => cache.put(this.formattedKey(key), this.toResponse(data)))));
+
+		entries.forEach((data, key) => {
+			this.memoryCache.set(key, data);
+			this.entrySizes.track(key, data);
+		});
+		this.channel.postMessage({ action: "syncMany", entries: [...entries] });
+	}
+
+	async get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
+		if (this.memoryCache.has(key)) {
+			return this.memoryCache.get(key) as DataModel<T>;
+		}
+
+		const response = await this.execute((cache) => cache.match(this.formattedKey(key)));
+		if (response) {
+			const data: DataModel<T> = await response.json();
+			this.memoryCache.set(key, data);
+			this.entrySizes.track(key, data);
+			return data;
+		}
+
+		return undefined;
+	}
+
+	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
+		return this.memoryCache.has(key) ? (this.memoryCache.get(key) as DataModel<T>) : undefined;
+	}
+
+	/** Reads the entries not held in memory in a single queued operation. */
+	async getMany<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>> {
+		const result = new Map<string, DataModel<T>>();
+		const missing = [...new Set(keys)].filter((key) => {
+			const data = this.memoryCache.get(key) as DataModel<T> | undefined;
+			if (data) result.set(key, data);
+			return !data;
+		});
+		if (missing.length === 0) return result;
+
+		const responses = await this.execute((cache) => Promise.all(missing.map((key) => cache.match(this.formattedKey(key)))));
+		for (const [index, response] of responses.entries()) {
+			if (!response) continue;
+
+			const data: DataModel<T> = await response.json();
+			this.memoryCache.set(missing[index], data);
+			this.entrySizes.track(missing[index], data);
+			result.set(missing[index], data);
+		}
+		return result;
+	}
+
+	async getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
+		const result = await this.execute(async (cache) => {
+			const entries = new Map<string, DataModel<T>>();
+
+			for (const request of await cache.keys()) {
+				if (!request.url.startsWith(this.keyPrefix)) continue;
+
+				const response = await cache.match(request);
+				if (response) {
+					entries.set(this.originalKey(request.url), await response.json());
+				}
+			}
+			return entries;
+		});
+
+		// Refresh memoryCache with what is actually persisted
+		this.memoryCache.clear();
+		this.entrySizes.clear();
+		result.forEach((value, key) => {
+			this.memoryCache.set(key, value);
+			this.entrySizes.track(key, value);
+		});
+
+		return result.size > 0 ? result : null;
+	}
+
+	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null {
+		return this.memoryCache.size > 0 ? (this.memoryCache as Map<string, DataModel<T>>) : null;
+	}
+
+	async has(key: string): Promise<boolean> {
+		if (this.memoryCache.has(key)) {
+			return true;
+		}
+		const value = await this.get(key);
+		return value !== undefined;
+	}
+
+	hasSync(key: string): boolean {
+		return this.memoryCache.has(key);
+	}
+
+	async unset(key?: string): Promise<boolean> {
+		if (this.memoryCache.size === 0) return false;
+
+		if (key) {
+			if (!this.memoryCache.delete(key)) return false;
+			this.entrySizes.delete(key);
+
+			this.channel.postMessage({ action: "unset", key, value: undefined }); // Notify other instances to remove key
+			await this.remove(key);
+			return true;
+		}
+
+		this.memoryCache.clear();
+		this.entrySizes.clear();
+		this.channel.postMessage({ action: "clear", key: undefined, value: undefined }); // Notify other instances to clear keys
+		await this.clear();
+
+		return true;
+	}
+
+	unsetSync(key?: string): boolean {
+		if (this.memoryCache.size === 0) return false;
+
+		if (key) {
+			if (!this.memoryCache.delete(key)) return false;
+			this.entrySizes.delete(key);
+
+			this.channel.postMessage({ action: "unset", key, value: undefined });
+			this.remove(key).catch(() => this.restore(key));
+			return true;
+		}
+
+		this.memoryCache.clear();
+		this.entrySizes.clear();
+		this.channel.postMessage({ action: "clear", key: undefined, value: undefined });
+		this.clear().catch(() => this.restore());
+
+		return true;
+	}
+
+	/** Removes the entries held in memory among the given keys, notifying the other instances with a single message. */
+	async unsetMany(keys: string[]): Promise<string[]> {
+		const removed = this.forgetMany(keys);
+		if (removed.length > 0) await this.removeMany(removed);
+		return removed;
+	}
+
+	unsetManySync(keys: string[]): string[] {
+		const removed = this.forgetMany(keys);
+		if (removed.length > 0) this.removeMany(removed).catch(() => removed.forEach((key) => this.restore(key)));
+		return removed;
+	}
+
+	private forgetMany(keys: string[]): string[] {
+		const removed = [...new Set(keys)].filter((key) => this.memoryCache.delete(key));
+
+		removed.forEach((key) => this.entrySizes.delete(key));
+		if (removed.length > 0) this.channel.postMessage({ action: "unsetMany", keys: removed });
+		return removed;
+	}
+
+	private removeMany(keys: string[]): Promise<boolean[]> {
+		return this.execute((cache) => Promise.all(keys.map((key) => cache.delete(this.formattedKey(key)))));
+	}
+
+	get length(): number {
+		return this.memoryCache.size;
+	}
+
+	get bytes(): number {
+		return this.memoryCache.size === 0 ? 0 : this.entrySizes.bytes;
+	}
+
+	get type(): StorageEngine {
+		return StorageEngine.CacheStorage;
+	}
+}
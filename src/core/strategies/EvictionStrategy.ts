@@ -0,0 +1,291 @@
+import { QuotaExceededError } from "../errors";
+import type { CapacityLimits, DataModel, EvictionPolicy, QuotaOptions, ScanOptions, StorageBase, StorageChange, StorageEngine, StoragePage, ValueType } from "../types";
+import { Utils } from "../utils";
+
+/**
+ * Enforces `maxEntries` and `maxBytes` over any storage: whenever a write makes the storage
+ * exceed them, keys are evicted in the order ranked by the {@link EvictionPolicy} until it fits again.
+ *
+ * A write rejected because the storage quota is exhausted is recovered the same way, as configured
+ * by {@link QuotaOptions}, before failing with a {@link QuotaExceededError}.
+ *
+ * @ignore
+ */
+export class EvictionStrategy implements StorageBase {
+	private storage: StorageBase;
+	private limits: CapacityLimits;
+	private policy: EvictionPolicy;
+	private onEvict?: (keys: string[]) => void;
+	private quota: QuotaOptions;
+
+	/**
+	 * @param storage - The storage to bound.
+	 * @param limits - The capacity to respect.
+	 * @param policy - Ranks the keys to evict.
+	 * @param onEvict - Called with the keys evicted by each write.
+	 * @param quota - How writes exceeding the storage quota are recovered.
+	 */
+	constructor(storage: StorageBase, limits: CapacityLimits, policy: EvictionPolicy, onEvict?: (keys: string[]) => void, quota: QuotaOptions = {}) {
+		this.storage = storage;
+		this.limits = limits;
+		this.policy = policy;
+		this.onEvict = onEvict;
+		this.quota = quota;
+
+		this.recordEntries(this.storage.getAllSync());
+		this.storage.onRemoteChange?.(this.recordRemoteChange.bind(this));
+	}
+
+	/** Keeps the policy in step with the entries written and removed by other tabs. */
+	private recordRemoteChange(change: StorageChange): void {
+		if (change.action === "sync" && change.key && change.value) {
+			this.policy.recordSet(change.key, change.value);
+		} else {
+			this.policy.forget(change.key);
+		}
+	}
+
+	private recordEntries(entries: Map<string, DataModel<ValueType>> | null): void {
+		this.policy.forget();
+		entries?.forEach((data, key) => this.policy.recordSet(key, data));
+	}
+
+	private isOverflowing(): boolean {
+		const { maxEntries = 0, maxBytes = 0 } = this.limits;
+		return (maxEntries > 0 && this.storage.length > maxEntries) || (maxBytes > 0 && this.storage.bytes > maxBytes);
+	}
+
+	/** Keys to evict, in the order ranked by the policy, always keeping the entries that were just written. */
+	private candidates(keep: string[]): string[] {
+		const entries = this.storage.getAllSync();
+		return entries ? this.policy.rank(entries).filter((key) => !keep.includes(key)) : [];
+	}
+
+	private report(evicted: string[]): void {
+		if (evicted.length > 0) this.onEvict?.(evicted);
+	}
+
+	/**
+	 * Keys to evict, batch after batch, to make room for the `keep` entries in a full storage:
+	 * every expired entry at once, then one key at a time in the order ranked by the policy.
+	 */
+	private *quotaEvictions(keep: string[]): Generator<string[]> {
+		const { evictExpired = true, evictByPolicy = true } = this.quota;
+
+		if (evictExpired) {
+			const expired = [...(this.storage.getAllSync() ?? [])].filter(([key, data]) => !keep.includes(key) && Utils.isExpired(data.expiresAt)).map(([key]) => key);
+			if (expired.length > 0) yield expired;
+		}
+
+		if (evictByPolicy) {
+			for (const key of this.candidates(keep)) yield [key];
+		}
+	}
+
+	private asQuotaError(key: string, error: unknown): unknown {
+		return error instanceof QuotaExceededError || !Utils.isQuotaExceededError(error) ? error : new QuotaExceededError(key, this.type, error);
+	}
+
+	/** Writes the `keep` entries, evicting entries and retrying as long as the storage quota is exceeded. */
+	private async persist(keep: string[], write: () => Promise<void>): Promise<void> {
+		const evictions = this.quotaEvictions(keep);
+		const evicted: string[] = [];
+
+		try {
+			for (;;) {
+				try {
+					await write();
+					return;
+				} catch (ex) {
+					const batch = Utils.isQuotaExceededError(ex) ? evictions.next() : undefined;
+					if (!batch || batch.done) throw this.asQuotaError(keep[0], ex);
+
+					for (const victim of batch.value) {
+						this.policy.forget(victim);
+						await this.storage.unset(victim);
+						evicted.push(victim);
+					}
+				}
+			}
+		} finally {
+			this.report(evicted);
+		}
+	}
+
+	private persistSync(keep: string[], write: () => void): void {
+		const evictions = this.quotaEvictions(keep);
+		const evicted: string[] = [];
+
+		try {
+			for (;;) {
+				try {
+					write();
+					return;
+				} catch (ex) {
+					const batch = Utils.isQuotaExceededError(ex) ? evictions.next() : undefined;
+					if (!batch || batch.done) throw this.asQuotaError(keep[0], ex);
+
+					for (const victim of batch.value) {
+						this.policy.forget(victim);
+						this.storage.unsetSync(victim);
+						evicted.push(victim);
+					}
+				}
+			}
+		} finally {
+			this.report(evicted);
+		}
+	}
+
+	private async evictOverflow(keep: string[]): Promise<void> {
+		if (!this.isOverflowing()) return;
+
+		const evicted: string[] = [];
+		for (const key of this.candidates(keep)) {
+			this.policy.forget(key);
+			await this.storage.unset(key);
+			evicted.push(key);
+
+			if (!this.isOverflowing()) break;
+		}
+		this.report(evicted);
+	}
+
+	private evictOverflowSync(keep: string[]): void {
+		if (!this.isOverflowing()) return;
+
+		const evicted: string[] = [];
+		for (const key of this.candidates(keep)) {
+			this.policy.forget(key);
+			this.storage.unsetSync(key);
+			evicted.push(key);
+
+			if (!this.isOverflowing()) break;
+		}
+		this.report(evicted);
+	}
+
+	/** @internal */
+	async init(): Promise<void> {
+		await this.storage.init();
+		// Only what the storage holds in memory can be counted against the limits, a lazy storage is not read in full
+		this.recordEntries(this.storage.getAllSync());
+	}
+
+	async set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		await this.persist([key], () => this.storage.set(key, data));
+		this.policy.recordSet(key, data);
+		await this.evictOverflow([key]);
+	}
+
+	/** Writes the batch as a whole, then evicts other entries until the limits are respected again. */
+	async setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		const keys = [...entries.keys()];
+
+		await this.persist(keys, () => Utils.setManyOf(this.storage, entries));
+		entries.forEach((data, key) => this.policy.recordSet(key, data));
+		await this.evictOverflow(keys);
+	}
+
+	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		this.persistSync([key], () => this.storage.setSync(key, data));
+		this.policy.recordSet(key, data);
+		this.evictOverflowSync([key]);
+	}
+
+	/** Commits as a whole, then evicts other entries until the limits are respected again. */
+	async commit<T extends ValueType>(writes: Map<string, DataModel<T>>, removals: string[]): Promise<void> {
+		const keys = [...writes.keys()];
+
+		await this.persist(keys, () => Utils.commitOf(this.storage, writes, removals));
+		writes.forEach((data, key) => this.policy.recordSet(key, data));
+		removals.forEach((key) => this.policy.forget(key));
+		await this.evictOverflow(keys);
+	}
+
+	async get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
+		const data = await this.storage.get<T>(key);
+		if (data) this.policy.recordGet(key, data);
+		return data;
+	}
+
+	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
+		const data = this.storage.getSync<T>(key);
+		if (data) this.policy.recordGet(key, data);
+		return data;
+	}
+
+	async getMany<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>> {
+		const entries = await Utils.getManyOf<T>(this.storage, keys);
+		entries.forEach((data, key) => this.policy.recordGet(key, data));
+		return entries;
+	}
+
+	getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
+		return this.storage.getAll<T>();
+	}
+
+	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null {
+		return this.storage.getAllSync<T>();
+	}
+
+	has(key: string): Promise<boolean> {
+		return this.storage.has(key);
+	}
+
+	hasSync(key: string): boolean {
+		return this.storage.hasSync(key);
+	}
+
+	unset(key?: string): Promise<boolean> {
+		this.policy.forget(key);
+		return this.storage.unset(key);
+	}
+
+	unsetSync(key?: string): boolean {
+		this.policy.forget(key);
+		return this.storage.unsetSync(key);
+	}
+
+	unsetMany(keys: string[]): Promise<string[]> {
+		keys.forEach((key) => this.policy.forget(key));
+		return Utils.unsetManyOf(this.storage, keys);
+	}
+
+	unsetManySync(keys: string[]): string[] {
+		keys.forEach((key) => this.policy.forget(key));
+		return Utils.unsetManySyncOf(this.storage, keys);
+	}
+
+	expiredKeys(now: number, limit?: number): Promise<string[]> {
+		return Utils.expiredKeysOf(this.storage, now, limit);
+	}
+
+	taggedKeys(tag: string): Promise<string[]> {
+		return Utils.taggedKeysOf(this.storage, tag);
+	}
+
+	prefixedKeys(prefix: string): Promise<string[]> {
+		return Utils.prefixedKeysOf(this.storage, prefix);
+	}
+
+	scan<T extends ValueType>(options: ScanOptions & { limit: number }): Promise<StoragePage<T>> {
+		return Utils.scanOf<T>(this.storage, options);
+	}
+
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		return this.storage.onRemoteChange?.(listener) ?? (() => {});
+	}
+
+	get length(): number {
+		return this.storage.length;
+	}
+
+	get bytes(): number {
+		return this.storage.bytes;
+	}
+
+	get type(): StorageEngine {
+		return this.storage.type;
+	}
+}
@@ -0,0 +1,233 @@
+import type { DataModel, ScanOptions, StorageBase, StorageChange, StorageFallback, StoragePage, ValueType } from "../types";
+import { StorageEngine } from "../types";
+import { Utils } from "../utils";
+
+/**
+ * Storage that walks an ordered chain of engines: it uses the first engine that can be created
+ * and, whenever an operation fails because the engine is unavailable (see `Utils.isStorageUnavailableError`),
+ * falls back to the next one and retries the operation. Other errors, including a full quota, are rethrown.
+ *
+ * Every entry the failing engine can still read is carried over: asynchronous operations wait for them before
+ * being retried, while synchronous ones carry over the entries held in memory at once and the others in the background.
+ * Entries the failing engine cannot read anymore are lost with it.
+ *
+ * @ignore
+ */
+export class FallbackStrategy implements StorageBase {
+	private current: StorageBase;
+	private chain: StorageEngine[];
+	private create: (engine: StorageEngine) => StorageBase;
+
+	private remoteListeners: Set<(change: StorageChange) => void> = new Set();
+	private stopListening?: () => void;
+
+	/** Every fallback that happened, in order. */
+	readonly fallbacks: StorageFallback[] = [];
+
+	/**
+	 * @param chain - Engines in order of preference; `Memory` is always the last resort.
+	 * @param create - Creates an engine, throwing when it is not available.
+	 */
+	constructor(chain: StorageEngine[], create: (engine: StorageEngine) => StorageBase) {
+		this.chain = chain.filter((engine) => engine !== StorageEngine.Auto);
+		if (!this.chain.includes(StorageEngine.Memory)) this.chain.push(StorageEngine.Memory);
+		this.create = create;
+
+		const first = this.chain.shift() as StorageEngine;
+		this.current = this.next(first) ?? this.create(StorageEngine.Memory);
+		this.listenRemote();
+	}
+
+	/** Relays the remote changes of the engine in use, which changes on each fallback. */
+	private listenRemote(): void {
+		this.stopListening?.();
+		this.stopListening = this.current.onRemoteChange?.((change) => this.remoteListeners.forEach((listener) => listener(change)));
+	}
+
+	private reasonOf(error: unknown): string {
+		// A `DOMException` is not an `Error` in every environment
+		const message = typeof error === "object" && error !== null ? (error as { message?: unknown }).message : undefined;
+		return typeof message === "string" ? message : String(error);
+	}
+
+	/** Creates `engine`, or the first engine after it that can be created. */
+	private next(engine: StorageEngine | undefined): StorageBase | undefined {
+		let candidate = engine;
+
+		while (candidate !== undefined) {
+			try {
+				return this.create(candidate);
+			} catch (error) {
+				const to = this.chain[0];
+				if (to !== undefined) this.fallbacks.push({ from: candidate, to, reason: this.reasonOf(error) });
+				candidate = this.chain.shift();
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Switches to the next engine of the chain, carrying over the entries the failing engine holds in memory.
+	 * Returns the failing engine, or `undefined` when the error does not make the engine unavailable
+	 * (a full engine is handled by evicting entries instead) or when the chain is exhausted.
+	 */
+	private fallback(error: unknown): StorageBase | undefined {
+		if (Utils.isQuotaExceededError(error) || !Utils.isStorageUnavailableError(error)) return;
+
+		const failed = this.current;
+		const to = this.chain[0];
+		if (to === undefined) return;
+
+		this.fallbacks.push({ from: failed.type, to, reason: this.reasonOf(error) });
+		const next = this.next(this.chain.shift());
+		if (!next) return;
+
+		try {
+			failed.getAllSync()?.forEach((data, key) => next.setSync(key, data));
+		} catch {
+			// The failing engine may not even be readable anymore
+		}
+
+		this.current = next;
+		this.listenRemote();
+		return failed;
+	}
+
+	/** Carries over the entries the failing engine does not hold in memory (e.g. with a lazy IndexedDB). */
+	private async carryOver(failed: StorageBase): Promise<void> {
+		try {
+			const entries = await failed.getAll();
+			if (!entries) return;
+
+			// Entries already in the engine in use were carried over from memory or written since the fallback
+			const present = await Utils.getManyOf(this.current, [...entries.keys()]);
+			const missing = new Map([...entries].filter(([key]) => !present.has(key)));
+			if (missing.size > 0) await Utils.setManyOf(this.current, missing);
+		} catch {
+			// The entries the failing engine cannot read anymore are lost with it
+		}
+	}
+
+	private async attempt<R>(operation: (storage: StorageBase) => Promise<R>): Promise<R> {
+		for (;;) {
+			try {
+				return await operation(this.current);
+			} catch (error) {
+				const failed = this.fallback(error);
+				if (!failed) throw error;
+				await this.carryOver(failed);
+			}
+		}
+	}
+
+	private attemptSync<R>(operation: (storage: StorageBase) => R): R {
+		for (;;) {
+			try {
+				return operation(this.current);
+			} catch (error) {
+				const failed = this.fallback(error);
+				if (!failed) throw error;
+				this.carryOver(failed);
+			}
+		}
+	}
+
+	/** @internal */
+	async init(): Promise<void> {
+		return this.attempt((storage) => storage.init());
+	}
+
+	set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		return this.attempt((storage) => storage.set(key, data));
+	}
+
+	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		this.attemptSync((storage) => storage.setSync(key, data));
+	}
+
+	setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		return this.attempt((storage) => Utils.setManyOf(storage, entries));
+	}
+
+	commit<T extends ValueType>(writes: Map<string, DataModel<T>>, removals: string[]): Promise<void> {
+		return this.attempt((storage) => Utils.commitOf(storage, writes, removals));
+	}
+
+	get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
+		return this.attempt((storage) => storage.get<T>(key));
+	}
+
+	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
+		return this.attemptSync((storage) => storage.getSync<T>(key));
+	}
+
+	getMany<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>> {
+		return this.attempt((storage) => Utils.getManyOf<T>(storage, keys));
+	}
+
+	getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
+		return this.attempt((storage) => storage.getAll<T>());
+	}
+
+	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null {
+		return this.attemptSync((storage) => storage.getAllSync<T>());
+	}
+
+	has(key: string): Promise<boolean> {
+		return this.attempt((storage) => storage.has(key));
+	}
+
+	hasSync(key: string): boolean {
+		return this.attemptSync((storage) => storage.hasSync(key));
+	}
+
+	unset(key?: string): Promise<boolean> {
+		return this.attempt((storage) => storage.unset(key));
+	}
+
+	unsetSync(key?: string): boolean {
+		return this.attemptSync((storage) => storage.unsetSync(key));
+	}
+
+	unsetMany(keys: string[]): Promise<string[]> {
+		return this.attempt((storage) => Utils.unsetManyOf(storage, keys));
+	}
+
+	unsetManySync(keys: string[]): string[] {
+		return this.attemptSync((storage) => Utils.unsetManySyncOf(storage, keys));
+	}
+
+	expiredKeys(now: number, limit?: number): Promise<string[]> {
+		return this.attempt((storage) => Utils.expiredKeysOf(storage, now, limit));
+	}
+
+	taggedKeys(tag: string): Promise<string[]> {
+		return this.attempt((storage) => Utils.taggedKeysOf(storage, tag));
+	}
+
+	prefixedKeys(prefix: string): Promise<string[]> {
+		return this.attempt((storage) => Utils.prefixedKeysOf(storage, prefix));
+	}
+
+	scan<T extends ValueType>(options: ScanOptions & { limit: number }): Promise<StoragePage<T>> {
+		return this.attempt((storage) => Utils.scanOf<T>(storage, options));
+	}
+
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		this.remoteListeners.add(listener);
+		return () => this.remoteListeners.delete(listener);
+	}
+
+	get length(): number {
+		return this.current.length;
+	}
+
+	get bytes(): number {
+		return this.current.bytes;
+	}
+
+	/** The engine currently in use. */
+	get type(): StorageEngine {
+		return this.current.type;
+	}
+}
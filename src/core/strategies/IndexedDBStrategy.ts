@@ -1,20 +1,33 @@
-import type { DataModel, StorageBase, ValueType } from "../types";
+import type { DataModel, IndexedDBOptions, ScanOptions, StorageBase, StorageChange, StoragePage, ValueType } from "../types";
 import { StorageEngine } from "../types";
+import { EntrySizes } from "../utils";
 
 /** @ignore */
 export class IndexedDBStrategy implements StorageBase {
 	private db: IDBDatabase | null = null;
 	private memoryCache: Map<string, DataModel<ValueType>> = new Map();
+	private entrySizes = new EntrySizes();
 
 	private baseName: string;
 	private storeName: string;
+	private lazy: boolean;
+	private maxResident: number;
 
 	private channel: BroadcastChannel;
+	private remoteListeners: Set<(change: StorageChange) => void> = new Set();
 	private dbPromise: Promise<IDBDatabase> | null = null; // Melhoria 2: Para gerenciar a promessa de abertura do DB
 
-	constructor(baseName = "HybridWebCache", storeName?: string) {
+	/** Version 2 adds the `expiresAt` index, version 3 the multi-entry `tags` index. */
+	private static readonly DB_VERSION = 3;
+	private static readonly EXPIRES_AT_INDEX = "expiresAt";
+	private static readonly TAGS_INDEX = "tags";
+	private static readonly DEFAULT_MAX_RESIDENT = 1000;
+
+	constructor(baseName = "HybridWebCache", storeName?: string, options: IndexedDBOptions = {}) {
 		this.baseName = baseName.trim().length === 0 ? "HybridWebCache" : baseName.trim();
 		this.storeName = storeName?.trim() ?? this.baseName;
+		this.lazy = options.lazy ?? false;
+		this.maxResident = options.maxResident !== undefined && options.maxResident >= 0 ? options.maxResident : IndexedDBStrategy.DEFAULT_MAX_RESIDENT;
 
 		this.channel = new BroadcastChannel(`${this.baseName}.${this.storeName}`);
 		this.channel.onmessage = this.handleSyncEvent.bind(this);
@@ -27,22 +40,65 @@ export class IndexedDBStrategy implements StorageBase {
 		switch (action) {
 			case "clear":
 				this.memoryCache.clear();
+				this.entrySizes.clear();
 				break;
 			case "unset": {
 				const { key } = event.data;
 				if (key) {
 					this.memoryCache.delete(key);
+					this.entrySizes.delete(key);
 				}
 				break;
 			}
 			case "sync": {
 				const { key, value } = event.data;
-				this.memoryCache.set(key, value);
+				this.remember(key, value);
 				break;
 			}
+			case "syncMany":
+			case "unsetMany":
+			case "commit": {
+				// A batch or a commit is sent as one message, but reported key by key
+				const { entries = [], keys = [] } = event.data as { entries?: [string, DataModel<ValueType>][]; keys?: string[] };
+				for (const [key, value] of entries) {
+					this.remember(key, value);
+					this.remoteListeners.forEach((listener) => listener({ action: "sync", key, value }));
+				}
+				for (const key of keys) {
+					this.memoryCache.delete(key);
+					this.entrySizes.delete(key);
+					this.remoteListeners.forEach((listener) => listener({ action: "unset", key }));
+				}
+				return;
+			}
 			default:
-				break;
+				return;
 		}
+
+		const { key, value } = event.data;
+		this.remoteListeners.forEach((listener) => listener({ action, key, value }));
+	}
+
+	/**
+	 * Keeps the entry in memory. In lazy mode, the entry becomes the most recently used one,
+	 * and the least recently used entries leave memory, but not the database, past `maxResident`.
+	 */
+	private remember<T extends ValueType>(key: string, data: DataModel<T>): void {
+		if (this.lazy) this.memoryCache.delete(key);
+		this.memoryCache.set(key, data);
+		this.entrySizes.track(key, data);
+
+		if (!this.lazy) return;
+		while (this.memoryCache.size > this.maxResident) {
+			const oldest = this.memoryCache.keys().next().value as string;
+			this.memoryCache.delete(oldest);
+			this.entrySizes.delete(oldest);
+		}
+	}
+
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		this.remoteListeners.add(listener);
+		return () => this.remoteListeners.delete(listener);
 	}
 
 	private async openDB(): Promise<IDBDatabase> {
@@ -50,12 +106,19 @@ export class IndexedDBStrategy implements StorageBase {
 		if (this.dbPromise) return this.dbPromise; // em processo de abertura
 
 		this.dbPromise = new Promise((resolve, reject) => {
-			const request = indexedDB.open(this.baseName, 1);
+			const request = indexedDB.open(this.baseName, IndexedDBStrategy.DB_VERSION);
 
 			request.onupgradeneeded = (event) => {
-				const db = (event.target as IDBOpenDBRequest).result;
-				if (!db.objectStoreNames.contains(this.storeName)) {
-					db.createObjectStore(this.storeName, { keyPath: "key" });
+				const { result: db, transaction } = event.target as IDBOpenDBRequest;
+				const store = db.objectStoreNames.contains(this.storeName)
+					? (transaction as IDBTransaction).objectStore(this.storeName)
+					: db.createObjectStore(this.storeName, { keyPath: "key" });
+
+				if (!store.indexNames.contains(IndexedDBStrategy.EXPIRES_AT_INDEX)) {
+					store.createIndex(IndexedDBStrategy.EXPIRES_AT_INDEX, "expiresAt");
+				}
+				if (!store.indexNames.contains(IndexedDBStrategy.TAGS_INDEX)) {
+					store.createIndex(IndexedDBStrategy.TAGS_INDEX, "tags", { multiEntry: true });
 				}
 			};
 
@@ -94,47 +157,121 @@ export class IndexedDBStrategy implements StorageBase {
 		});
 	}
 
+	/** Runs several requests in a single transaction, and resolves with their results once it is committed. */
+	private async executeAll<T>(transactionMode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest[]): Promise<T[]> {
+		if (!this.db) await this.openDB();
+		if (!this.db) throw new Error("Database not initialized");
+
+		const transaction = this.db.transaction(this.storeName, transactionMode);
+		let requests: IDBRequest[];
+		try {
+			requests = operation(transaction.objectStore(this.storeName));
+		} catch (ex) {
+			// A request that cannot be made (e.g. a value that cannot be cloned) must not let the others commit
+			transaction.abort();
+			throw ex;
+		}
+
+		return new Promise((resolve, reject) => {
+			transaction.oncomplete = () => resolve(requests.map((request) => request.result as T));
+			transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"));
+		});
+	}
+
 	/** @internal */
 	async init(): Promise<void> {
 		await this.openDB();
 		if (!this.db) throw new Error("IndexedDB not open, cannot load memory cache.");
 
-		await this.getAll(); // Load existing data into memory cache
+		// In lazy mode, entries are only loaded into memory once read
+		if (!this.lazy) await this.getAll(); // Load existing data into memory cache
 	}
 
 	async set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
 		await this.execute("readwrite", (store) => store.put({ key, ...data }));
 
-		this.memoryCache.set(key, data);
+		this.remember(key, data);
 		this.channel.postMessage({ action: "sync", key, value: data });
 	}
 
 	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
-		this.memoryCache.set(key, data);
+		this.remember(key, data);
 		this.channel.postMessage({ action: "sync", key, value: data });
 
 		// this.executeQueue("readwrite", (store) => store.put({ key, ...data }));
 		this.execute("readwrite", (store) => store.put({ key, ...data }));
 	}
 
+	/** Writes the entries in a single transaction, notifying the other instances with a single message. */
+	async setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		await this.executeAll("readwrite", (store) => [...entries].map(([key, data]) => store.put({ key, ...data })));
+
+		entries.forEach((data, key) => this.remember(key, data));
+		this.channel.postMessage({ action: "syncMany", entries: [...entries] });
+	}
+
+	/**
+	 * Applies the writes and the removals in a single transaction, all together or not at all,
+	 * notifying the other instances with a single message.
+	 */
+	async commit<T extends ValueType>(writes: Map<string, DataModel<T>>, removals: string[]): Promise<void> {
+		await this.executeAll("readwrite", (store) => [...[...writes].map(([key, data]) => store.put({ key, ...data })), ...removals.map((key) => store.delete(key))]);
+
+		writes.forEach((data, key) => this.remember(key, data));
+		for (const key of removals) {
+			this.memoryCache.delete(key);
+			this.entrySizes.delete(key);
+		}
+		this.channel.postMessage({ action: "commit", entries: [...writes], keys: removals });
+	}
+
 	async get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
 		if (this.memoryCache.has(key)) {
-			return this.memoryCache.get(key) as DataModel<T>;
+			const data = this.memoryCache.get(key) as DataModel<T>;
+			if (this.lazy) this.remember(key, data);
+			return data;
 		}
 
 		const data = await this.execute<DataModel<T>>("readonly", (store) => store.get(key));
 		if (data) {
-			this.memoryCache.set(key, data);
+			this.remember(key, data);
 			return data;
 		}
 
 		return undefined;
 	}
 
+	/** Reads the entries not held in memory in a single transaction. */
+	async getMany<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>> {
+		const result = new Map<string, DataModel<T>>();
+		const missing: string[] = [];
+
+		for (const key of new Set(keys)) {
+			const data = this.memoryCache.get(key) as DataModel<T> | undefined;
+			if (data) {
+				if (this.lazy) this.remember(key, data);
+				result.set(key, data);
+			} else {
+				missing.push(key);
+			}
+		}
+		if (missing.length === 0) return result;
+
+		const records = await this.executeAll<DataModel<T> | undefined>("readonly", (store) => missing.map((key) => store.get(key)));
+		records.forEach((data, index) => {
+			if (!data) return;
+			this.remember(missing[index], data);
+			result.set(missing[index], data);
+		});
+		return result;
+	}
+
+	/** In lazy mode, only finds the entries held in memory. */
 	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
 		return this.memoryCache.has(key) ? (this.memoryCache.get(key) as DataModel<T>) : undefined;
 	}
 
+	/** In lazy mode, reads every entry without loading them into memory. */
 	async getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
 		await this.openDB(); // Garante que o DB esteja aberto
 		if (!this.db) throw new Error("Database not initialized"); // Deve ser inatingível se openDB resolver
@@ -152,10 +289,16 @@ export class IndexedDBStrategy implements StorageBase {
 					const storedData = cursor.value;
 					result.set(cursor.key as string, storedData);
 					cursor.continue();
+				} else if (this.lazy) {
+					resolve(result.size > 0 ? result : null);
 				} else {
 					// Cursor finished, now update memoryCache and resolve
 					this.memoryCache.clear();
-					result.forEach((value, key) => this.memoryCache.set(key, value));
+					this.entrySizes.clear();
+					result.forEach((value, key) => {
+						this.memoryCache.set(key, value);
+						this.entrySizes.track(key, value);
+					});
 					resolve(result.size > 0 ? result : null);
 				}
 			};
@@ -165,6 +308,54 @@ export class IndexedDBStrategy implements StorageBase {
 		});
 	}
 
+	/** Queries the `expiresAt` index, so only expired entries are read. Entries that never expire have `expiresAt` 0. */
+	async expiredKeys(now: number, limit?: number): Promise<string[]> {
+		const range = IDBKeyRange.bound(1, now);
+		const keys = await this.execute<IDBValidKey[]>("readonly", (store) =>
+			store.index(IndexedDBStrategy.EXPIRES_AT_INDEX).getAllKeys(range, limit && limit > 0 ? limit : undefined)
+		);
+		return keys.map(String);
+	}
+
+	/** Queries the multi-entry `tags` index, so only the tagged entries are read. */
+	async taggedKeys(tag: string): Promise<string[]> {
+		const keys = await this.execute<IDBValidKey[]>("readonly", (store) => store.index(IndexedDBStrategy.TAGS_INDEX).getAllKeys(tag));
+		return keys.map(String);
+	}
+
+	/** Queries the range of keys starting with the prefix, so only their keys are read. */
+	async prefixedKeys(prefix: string): Promise<string[]> {
+		const range = prefix ? IDBKeyRange.bound(prefix, `${prefix}\uffff`) : undefined;
+		const keys = await this.execute<IDBValidKey[]>("readonly", (store) => store.getAllKeys(range));
+		return keys.map(String);
+	}
+
+	/**
+	 * Reads a page of entries, in ascending key order, from the range of keys after `after` and starting with `prefix`.
+	 * Pages are read from the database and are not loaded into memory.
+	 */
+	async scan<T extends ValueType>({ limit, after, prefix = "" }: ScanOptions & { limit: number }): Promise<StoragePage<T>> {
+		const upper = prefix ? `${prefix}\uffff` : undefined;
+		if (after !== undefined && upper !== undefined && after >= upper) return { entries: new Map() };
+
+		let range: IDBKeyRange | undefined;
+		if (after !== undefined && after >= prefix) {
+			range = upper === undefined ? IDBKeyRange.lowerBound(after, true) : IDBKeyRange.bound(after, upper, true);
+		} else if (upper !== undefined) {
+			range = IDBKeyRange.bound(prefix, upper);
+		}
+
+		// One more record tells whether another page follows
+		const records = await this.execute<({ key: string } & DataModel<T>)[]>("readonly", (store) => store.getAll(range, limit + 1));
+		const entries = new Map<string, DataModel<T>>();
+		for (const { key, ...data } of records.slice(0, limit)) {
+			entries.set(key, data);
+		}
+
+		return { entries, next: records.length > limit ? records[limit - 1].key : undefined };
+	}
+
+	/** In lazy mode, only lists the entries held in memory. */
 	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null {
 		return this.memoryCache.size > 0 ? (this.memoryCache as Map<string, DataModel<T>>) : null;
 	}
@@ -176,14 +367,24 @@ export class IndexedDBStrategy implements StorageBase {
 		const value = await this.get(key);
 		return value !== undefined;
 	}
+	/** In lazy mode, only finds the entries held in memory. */
 	hasSync(key: string): boolean {
 		return this.memoryCache.has(key);
 	}
 
+	/** Whether the key, or any key without one, is stored: in memory or, in lazy mode, in the database. */
+	private async isStored(key?: string): Promise<boolean> {
+		if (key ? this.memoryCache.has(key) : this.memoryCache.size > 0) return true;
+		return this.lazy && (await this.execute<number>("readonly", (store) => store.count(key))) > 0;
+	}
+
 	async unset(key?: string): Promise<boolean> {
-		if (this.memoryCache.size === 0) return false;
+		if (!(await this.isStored(key))) return false;
+
+		if (key) {
+			this.memoryCache.delete(key);
+			this.entrySizes.delete(key);
 
-		if (key && this.memoryCache.delete(key)) {
 			this.channel.postMessage({ action: "unset", key, value: undefined }); // Notify other instances to remove key
 			await this.execute("readwrite", (store) => store.delete(key));
 
@@ -191,48 +392,81 @@ export class IndexedDBStrategy implements StorageBase {
 		}
 
 		this.memoryCache.clear();
+		this.entrySizes.clear();
 		this.channel.postMessage({ action: "clear", key: undefined, value: undefined }); // Notify other instances to clear keys
 		await this.execute("readwrite", (store) => store.clear());
 
 		return true;
 	}
 
+	/** Removes the entries in a single transaction, notifying the other instances with a single message. */
+	async unsetMany(keys: string[]): Promise<string[]> {
+		const unique = [...new Set(keys)];
+
+		// Counting each key before deleting it tells, within the same transaction, whether it was stored
+		const results = await this.executeAll<number | undefined>("readwrite", (store) => unique.flatMap((key) => [store.count(key), store.delete(key)]));
+		const removed = unique.filter((key, index) => (results[index * 2] ?? 0) > 0 || this.memoryCache.has(key));
+
+		for (const key of unique) {
+			this.memoryCache.delete(key);
+			this.entrySizes.delete(key);
+		}
+		if (removed.length > 0) this.channel.postMessage({ action: "unsetMany", keys: removed });
+
+		return removed;
+	}
+
+	/**
+	 * Removes the entries from memory at once and from the database in a single background transaction, notifying
+	 * the other instances with a single message. In lazy mode, only reports the removal of those held in memory.
+	 */
+	unsetManySync(keys: string[]): string[] {
+		const unique = [...new Set(keys)];
+		const removed = unique.filter((key) => this.memoryCache.has(key));
+		// In lazy mode, the keys not held in memory may still be stored in the database
+		const deleted = this.lazy ? unique : removed;
+		if (deleted.length === 0) return [];
+
+		for (const key of removed) {
+			this.memoryCache.delete(key);
+			this.entrySizes.delete(key);
+		}
+		this.channel.postMessage({ action: "unsetMany", keys: deleted });
+		this.executeAll("readwrite", (store) => deleted.map((key) => store.delete(key)));
+
+		return removed;
+	}
+
+	/** In lazy mode, also removes the entries not held in memory, but only reports the removal of those held in memory. */
 	unsetSync(key?: string): boolean {
-		if (this.memoryCache.size === 0) return false;
+		const resident = key ? this.memoryCache.has(key) : this.memoryCache.size > 0;
+		if (!resident && !this.lazy) return false;
 
 		if (key) {
-			if (this.memoryCache.delete(key)) {
-				this.channel.postMessage({ action: "unset", key, value: undefined });
-				// this.executeQueue("readwrite", (store) => store.delete(key));
-				this.execute("readwrite", (store) => store.delete(key));
-				return true;
-			}
-			return false;
+			this.memoryCache.delete(key);
+			this.entrySizes.delete(key);
+			this.channel.postMessage({ action: "unset", key, value: undefined });
+			// this.executeQueue("readwrite", (store) => store.delete(key));
+			this.execute("readwrite", (store) => store.delete(key));
+			return resident;
 		}
 
 		this.memoryCache.clear();
+		this.entrySizes.clear();
 		this.channel.postMessage({ action: "clear", key: undefined, value: undefined });
 		// this.executeQueue("readwrite", (store) => store.clear());
 		this.execute("readwrite", (store) => store.clear());
 
-		return true;
+		return resident;
 	}
 
+	/** In lazy mode, only counts the entries held in memory. */
 	get length(): number {
 		return this.memoryCache.size;
 	}
 
 	get bytes(): number {
-		if (this.memoryCache.size === 0) return 0;
-
-		// return [...this.memoryCache.values()].reduce((acc, value) => acc + JSON.stringify(value).length, 0);
-
-		let totalSize = 0;
-		for (const [key, value] of this.memoryCache.entries()) {
-			totalSize += new TextEncoder().encode(key).length;
-			totalSize += new TextEncoder().encode(JSON.stringify(value)).length;
-		}
-		return totalSize;
+		return this.memoryCache.size === 0 ? 0 : this.entrySizes.bytes;
 	}
 
 	get type(): StorageEngine {
@@ -1,11 +1,15 @@
-import type { DataModel, StorageBase, ValueType } from "../types";
+import { QuotaExceededError } from "../errors";
+import type { DataModel, StorageBase, StorageChange, ValueType } from "../types";
 import { StorageEngine } from "../types";
+import { EntrySizes, Utils } from "../utils";
 
 /** @ignore */
 export class LocalStorageStrategy implements StorageBase {
 	private prefixKey: string;
 	private memoryCache: Map<string, DataModel<ValueType>> = new Map();
+	private entrySizes = new EntrySizes();
 	private channel: BroadcastChannel;
+	private remoteListeners: Set<(change: StorageChange) => void> = new Set();
 
 	constructor(prefixKey = "HybridWebCache") {
 		this.prefixKey = `${prefixKey.trim()}::`;
@@ -23,22 +27,50 @@ export class LocalStorageStrategy implements StorageBase {
 		switch (action) {
 			case "clear":
 				this.memoryCache.clear();
+				this.entrySizes.clear();
 				break;
 			case "unset": {
 				const { key } = event.data;
 				if (key) {
 					this.memoryCache.delete(key);
+					this.entrySizes.delete(key);
 				}
 				break;
 			}
 			case "sync": {
 				const { key, value } = event.data;
 				this.memoryCache.set(key, value);
+				this.entrySizes.track(key, value);
 				break;
 			}
+			case "syncMany":
+			case "unsetMany":
+			case "commit": {
+				// A batch or a commit is sent as one message, but reported key by key
+				const { entries = [], keys = [] } = event.data as { entries?: [string, DataModel<ValueType>][]; keys?: string[] };
+				for (const [key, value] of entries) {
+					this.memoryCache.set(key, value);
+					this.entrySizes.track(key, value);
+					this.remoteListeners.forEach((listener) => listener({ action: "sync", key, value }));
+				}
+				for (const key of keys) {
+					this.memoryCache.delete(key);
+					this.entrySizes.delete(key);
+					this.remoteListeners.forEach((listener) => listener({ action: "unset", key }));
+				}
+				return;
+			}
 			default:
-				break;
+				return;
 		}
+
+		const { key, value } = event.data;
+		this.remoteListeners.forEach((listener) => listener({ action, key, value }));
+	}
+
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		this.remoteListeners.add(listener);
+		return () => this.remoteListeners.delete(listener);
 	}
 
 	private formattedKey(key: string): string {
@@ -56,10 +88,12 @@ export class LocalStorageStrategy implements StorageBase {
 
 	private loadMemoryCache(): void {
 		this.memoryCache.clear(); // Clear existing cache before loading
+		this.entrySizes.clear();
 
 		this._forEachStorage((key, value) => {
 			const data: DataModel<ValueType> = JSON.parse(value ?? "{}");
 			this.memoryCache.set(key, data);
+			this.entrySizes.track(key, data);
 		});
 	}
 
@@ -68,16 +102,68 @@ export class LocalStorageStrategy implements StorageBase {
 		return Promise.resolve();
 	}
 
-	set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
-		return Promise.resolve(this.setSync(key, data));
+	async set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		this.setSync(key, data);
 	}
 
 	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
-		localStorage.setItem(this.formattedKey(key), JSON.stringify(data));
+		try {
+			localStorage.setItem(this.formattedKey(key), JSON.stringify(data));
+		} catch (ex) {
+			// Nothing was written, so the memory cache and the other tabs keep the previous value
+			if (Utils.isQuotaExceededError(ex)) throw new QuotaExceededError(key, this.type, ex);
+			throw ex;
+		}
+
 		this.memoryCache.set(key, data);
+		this.entrySizes.track(key, data);
 		this.channel.postMessage({ action: "sync", key, value: data });
 	}
 
+	/** Writes and removes the items, or none of them: when one fails, the items already changed are restored. */
+	private applyItems<T extends ValueType>(writes: Map<string, DataModel<T>>, removals: string[]): void {
+		const previous: [string, string | null][] = [];
+		let current = "";
+
+		try {
+			for (const [key, data] of writes) {
+				current = key;
+				previous.push([this.formattedKey(key), localStorage.getItem(this.formattedKey(key))]);
+				localStorage.setItem(this.formattedKey(key), JSON.stringify(data));
+			}
+			for (const key of removals) {
+				current = key;
+				previous.push([this.formattedKey(key), localStorage.getItem(this.formattedKey(key))]);
+				localStorage.removeItem(this.formattedKey(key));
+			}
+		} catch (ex) {
+			previous.reverse().forEach(([formattedKey, item]) => (item === null ? localStorage.removeItem(formattedKey) : localStorage.setItem(formattedKey, item)));
+			if (Utils.isQuotaExceededError(ex)) throw new QuotaExceededError(current, this.type, ex);
+			throw ex;
+		}
+
+		writes.forEach((data, key) => {
+			this.memoryCache.set(key, data);
+			this.entrySizes.track(key, data);
+		});
+		for (const key of removals) {
+			this.memoryCache.delete(key);
+			this.entrySizes.delete(key);
+		}
+	}
+
+	/** Writes every entry or, when one of them fails, none. The other instances are notified with a single message. */
+	async setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		this.applyItems(entries, []);
+		this.channel.postMessage({ action: "syncMany", entries: [...entries] });
+	}
+
+	/** Applies the writes and the removals all together or not at all, notifying the other instances with a single message. */
+	async commit<T extends ValueType>(writes: Map<string, DataModel<T>>, removals: string[]): Promise<void> {
+		this.applyItems(writes, removals);
+		this.channel.postMessage({ action: "commit", entries: [...writes], keys: removals });
+	}
+
 	get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
 		return Promise.resolve(this.getSync(key));
 	}
@@ -127,8 +213,9 @@ export class LocalStorageStrategy implements StorageBase {
 		if (!key) {
 			const keysToRemove: string[] = [];
 			this._forEachStorage((originalKey, _value) => keysToRemove.push(originalKey));
-			keysToRemove.forEach((k) => localStorage.removeItem(k));
+			keysToRemove.forEach((k) => localStorage.removeItem(this.formattedKey(k)));
 			this.memoryCache.clear();
+			this.entrySizes.clear();
 			this.channel.postMessage({ action: "clear", key: undefined, value: undefined });
 			result = true;
 		} else {
@@ -136,27 +223,37 @@ export class LocalStorageStrategy implements StorageBase {
 				const fKey = this.formattedKey(key);
 				localStorage.removeItem(fKey);
 				result = this.memoryCache.delete(key);
+				this.entrySizes.delete(key);
 				this.channel.postMessage({ action: "unset", key, value: undefined });
 			}
 		}
 		return result;
 	}
 
+	async unsetMany(keys: string[]): Promise<string[]> {
+		return this.unsetManySync(keys);
+	}
+
+	/** Removes the stored entries among the given keys, notifying the other instances with a single message. */
+	unsetManySync(keys: string[]): string[] {
+		const removed = [...new Set(keys)].filter((key) => this.memoryCache.has(key));
+
+		for (const key of removed) {
+			localStorage.removeItem(this.formattedKey(key));
+			this.memoryCache.delete(key);
+			this.entrySizes.delete(key);
+		}
+		if (removed.length > 0) this.channel.postMessage({ action: "unsetMany", keys: removed });
+
+		return removed;
+	}
+
 	get length(): number {
 		return this.memoryCache.size;
 	}
 
 	get bytes(): number {
-		if (this.memoryCache.size === 0) return 0;
-
-		let totalBytes = 0;
-		this._forEachStorage((key, value) => {
-			totalBytes += new TextEncoder().encode(key).length;
-			if (value) {
-				totalBytes += new TextEncoder().encode(value).length;
-			}
-		});
-		return totalBytes;
+		return this.memoryCache.size === 0 ? 0 : this.entrySizes.bytes;
 	}
 
 	get type(): StorageEngine {
@@ -1,9 +1,52 @@
-import type { DataModel, StorageBase, ValueType } from "../types";
+import type { CapacityLimits, DataModel, StorageBase, ValueType } from "../types";
 import { StorageEngine } from "../types";
+import { EntrySizes } from "../utils";
 
 /** @ignore */
 export class MemoryStrategy implements StorageBase {
 	private storage: Map<string, DataModel<ValueType>> = new Map();
+	private entrySizes = new EntrySizes();
+
+	private limits: CapacityLimits;
+	private onEvict?: (key: string, data: DataModel<ValueType>) => void;
+
+	/**
+	 * @param limits - Optional capacity; when set, the least recently used entries are evicted to respect it.
+	 * @param onEvict - Called with every entry evicted to respect the limits.
+	 */
+	constructor(limits: CapacityLimits = {}, onEvict?: (key: string, data: DataModel<ValueType>) => void) {
+		this.limits = limits;
+		this.onEvict = onEvict;
+	}
+
+	private get isBounded(): boolean {
+		return (this.limits.maxEntries ?? 0) > 0 || (this.limits.maxBytes ?? 0) > 0;
+	}
+
+	private isOverflowing(): boolean {
+		const { maxEntries = 0, maxBytes = 0 } = this.limits;
+		return (maxEntries > 0 && this.storage.size > maxEntries) || (maxBytes > 0 && this.entrySizes.bytes > maxBytes);
+	}
+
+	private remove(key: string): boolean {
+		if (!this.storage.has(key)) return false;
+
+		this.entrySizes.delete(key);
+		return this.storage.delete(key);
+	}
+
+	/**
+	 * Evicts the least recently used entries (the first ones in the map) until the limits are met,
+	 * always keeping the entry that was just written.
+	 */
+	private evictOverflow(keep: string): void {
+		for (const [key, data] of this.storage) {
+			if (key === keep || !this.isOverflowing()) break;
+
+			this.remove(key);
+			this.onEvict?.(key, data);
+		}
+	}
 
 	/** @internal */
 	async init(): Promise<void> {
@@ -14,14 +57,26 @@ export class MemoryStrategy implements StorageBase {
 		return Promise.resolve(this.setSync(key, data));
 	}
 	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		this.remove(key);
+
 		this.storage.set(key, data);
+		this.entrySizes.track(key, data);
+
+		if (this.isBounded) this.evictOverflow(key);
 	}
 
 	get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
 		return Promise.resolve(this.getSync(key));
 	}
 	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
-		return this.storage.get(key) as DataModel<T> | undefined;
+		const data = this.storage.get(key) as DataModel<T> | undefined;
+
+		if (data && this.isBounded) {
+			// Move the entry to the end of the map, marking it as the most recently used
+			this.storage.delete(key);
+			this.storage.set(key, data);
+		}
+		return data;
 	}
 
 	getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
@@ -47,9 +102,10 @@ export class MemoryStrategy implements StorageBase {
 
 		if (!key) {
 			this.storage.clear();
+			this.entrySizes.clear();
 			return this.storage.size === 0;
 		}
-		return this.storage.delete(key);
+		return this.remove(key);
 	}
 
 	get length(): number {
@@ -57,17 +113,7 @@ export class MemoryStrategy implements StorageBase {
 	}
 
 	get bytes(): number {
-		if (this.storage.size === 0) return 0;
-
-		let totalBytes = 0;
-
-		const entries = Array.from(this.storage.entries());
-
-		entries.forEach(([key, value]) => {
-			totalBytes += new TextEncoder().encode(key).length;
-			totalBytes += new TextEncoder().encode(JSON.stringify(value)).length;
-		});
-		return totalBytes;
+		return this.storage.size === 0 ? 0 : this.entrySizes.bytes;
 	}
 
 	get type(): StorageEngine {
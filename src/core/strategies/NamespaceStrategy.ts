@@ -0,0 +1,182 @@
+import type { DataModel, ScanOptions, StorageBase, StorageChange, StorageEngine, StoragePage, ValueType } from "../types";
+import { Utils } from "../utils";
+
+/**
+ * Scopes a storage to a namespace: keys are stored with the `namespace:` prefix, and listing,
+ * counting or clearing only cover the keys of the namespace. The storage, its connection and its
+ * channel are shared with every other namespace and with the parent cache.
+ *
+ * @ignore
+ */
+export class NamespaceStrategy implements StorageBase {
+	private storage: StorageBase;
+	private prefix: string;
+
+	constructor(storage: StorageBase, namespace: string) {
+		this.storage = storage;
+		this.prefix = `${namespace}:`;
+	}
+
+	private scoped(key: string): string {
+		return this.prefix + key;
+	}
+
+	/** Returns the key without the namespace prefix, or `undefined` when it belongs to another namespace. */
+	private unscoped(key: string): string | undefined {
+		return key.startsWith(this.prefix) ? key.slice(this.prefix.length) : undefined;
+	}
+
+	/** Keeps the entries of the namespace, under their unprefixed keys. */
+	private filter<T extends ValueType>(entries: Map<string, DataModel<T>> | null): Map<string, DataModel<T>> | null {
+		const result = new Map<string, DataModel<T>>();
+
+		entries?.forEach((data, key) => {
+			const unscoped = this.unscoped(key);
+			if (unscoped !== undefined) result.set(unscoped, data);
+		});
+		return result.size > 0 ? result : null;
+	}
+
+	private keysOf(keys: string[]): string[] {
+		return keys.map((key) => this.unscoped(key)).filter((key) => key !== undefined);
+	}
+
+	/** @internal */
+	init(): Promise<void> {
+		return this.storage.init();
+	}
+
+	set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		return this.storage.set(this.scoped(key), data);
+	}
+
+	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		this.storage.setSync(this.scoped(key), data);
+	}
+
+	setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		return Utils.setManyOf(this.storage, new Map([...entries].map(([key, data]) => [this.scoped(key), data])));
+	}
+
+	commit<T extends ValueType>(writes: Map<string, DataModel<T>>, removals: string[]): Promise<void> {
+		const scopedWrites = new Map([...writes].map(([key, data]) => [this.scoped(key), data]));
+		const scopedRemovals = removals.map((key) => this.scoped(key));
+		return Utils.commitOf(this.storage, scopedWrites, scopedRemovals);
+	}
+
+	get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
+		return this.storage.get<T>(this.scoped(key));
+	}
+
+	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
+		return this.storage.getSync<T>(this.scoped(key));
+	}
+
+	async getMany<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>> {
+		const entries = await Utils.getManyOf<T>(
+			this.storage,
+			keys.map((key) => this.scoped(key))
+		);
+		return this.filter(entries) ?? new Map();
+	}
+
+	async getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
+		return this.filter(await this.storage.getAll<T>());
+	}
+
+	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null {
+		return this.filter(this.storage.getAllSync<T>());
+	}
+
+	has(key: string): Promise<boolean> {
+		return this.storage.has(this.scoped(key));
+	}
+
+	hasSync(key: string): boolean {
+		return this.storage.hasSync(this.scoped(key));
+	}
+
+	/** Without a key, only removes the keys of the namespace, as a single batch. */
+	async unset(key?: string): Promise<boolean> {
+		if (key !== undefined) return this.storage.unset(this.scoped(key));
+
+		const keys = await Utils.prefixedKeysOf(this.storage, this.prefix);
+		return (await Utils.unsetManyOf(this.storage, keys)).length > 0;
+	}
+
+	/** Without a key, only removes the keys of the namespace held in memory, as a single batch. */
+	unsetSync(key?: string): boolean {
+		if (key !== undefined) return this.storage.unsetSync(this.scoped(key));
+
+		const keys = [...(this.storage.getAllSync()?.keys() ?? [])].filter((key) => key.startsWith(this.prefix));
+		return Utils.unsetManySyncOf(this.storage, keys).length > 0;
+	}
+
+	async unsetMany(keys: string[]): Promise<string[]> {
+		return this.keysOf(
+			await Utils.unsetManyOf(
+				this.storage,
+				keys.map((key) => this.scoped(key))
+			)
+		);
+	}
+
+	unsetManySync(keys: string[]): string[] {
+		return this.keysOf(
+			Utils.unsetManySyncOf(
+				this.storage,
+				keys.map((key) => this.scoped(key))
+			)
+		);
+	}
+
+	async expiredKeys(now: number, limit?: number): Promise<string[]> {
+		// The limit applies to the keys of the namespace, once the others are filtered out
+		const keys = this.keysOf(await Utils.expiredKeysOf(this.storage, now));
+		return limit && limit > 0 ? keys.slice(0, limit) : keys;
+	}
+
+	async taggedKeys(tag: string): Promise<string[]> {
+		return this.keysOf(await Utils.taggedKeysOf(this.storage, tag));
+	}
+
+	async prefixedKeys(prefix: string): Promise<string[]> {
+		return this.keysOf(await Utils.prefixedKeysOf(this.storage, this.scoped(prefix)));
+	}
+
+	async scan<T extends ValueType>({ limit, after, prefix = "" }: ScanOptions & { limit: number }): Promise<StoragePage<T>> {
+		const page = await Utils.scanOf<T>(this.storage, { limit, prefix: this.scoped(prefix), after: after === undefined ? undefined : this.scoped(after) });
+		return { entries: this.filter(page.entries) ?? new Map(), next: page.next === undefined ? undefined : this.unscoped(page.next) };
+	}
+
+	/** Forwards the changes of the namespace, under their unprefixed keys, and the changes clearing the whole storage. */
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		return (
+			this.storage.onRemoteChange?.((change) => {
+				if (change.action === "clear") {
+					listener(change);
+					return;
+				}
+
+				const key = change.key === undefined ? undefined : this.unscoped(change.key);
+				if (key !== undefined) listener({ ...change, key });
+			}) ?? (() => {})
+		);
+	}
+
+	get length(): number {
+		return this.getAllSync()?.size ?? 0;
+	}
+
+	get bytes(): number {
+		let bytes = 0;
+		this.getAllSync()?.forEach((data, key) => {
+			bytes += Utils.calculateEntryBytes(this.scoped(key), data);
+		});
+		return bytes;
+	}
+
+	get type(): StorageEngine {
+		return this.storage.type;
+	}
+}
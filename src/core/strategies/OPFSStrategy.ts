@@ -0,0 +1,386 @@
+import type { DataModel, StorageBase, StorageChange, ValueType } from "../types";
+import { StorageEngine } from "../types";
+import { EntrySizes } from "../utils";
+
+/**
+ * Persists each key as a file, with every value held in a memory index filled by `init()` for the sync reads.
+ * Other tabs are notified of the changed keys, not of their values, and read them from the files.
+ *
+ * @ignore
+ */
+export class OPFSStrategy implements StorageBase {
+	private directory: FileSystemDirectoryHandle | null = null;
+	private memoryCache: Map<string, DataModel<ValueType>> = new Map();
+	private entrySizes = new EntrySizes();
+
+	private baseName: string;
+
+	private channel: BroadcastChannel;
+	private remoteListeners: Set<(change: StorageChange) => void> = new Set();
+	private queue: Promise<unknown> = Promise.resolve();
+	private reported: Promise<void> = Promise.resolve();
+
+	constructor(baseName = "HybridWebCache") {
+		this.baseName = baseName.trim().length === 0 ? "HybridWebCache" : baseName.trim();
+
+		this.channel = new BroadcastChannel(`${this.baseName}.OPFS`);
+		this.channel.onmessage = this.handleSyncEvent.bind(this);
+	}
+
+	private handleSyncEvent(event: MessageEvent): void {
+		// Handle sync events for multi-instance communication
+		const action = event.data?.action || "";
+
+		switch (action) {
+			case "clear":
+				this.memoryCache.clear();
+				this.entrySizes.clear();
+				this.report(async () => [{ action }]);
+				break;
+			case "unset": {
+				const { key } = event.data;
+				if (key) this.forget(key);
+				this.report(async () => [{ action, key }]);
+				break;
+			}
+			case "sync": {
+				const { key } = event.data;
+				this.report(async () => {
+					const value = await this.refresh(key);
+					return value ? [{ action, key, value }] : [];
+				});
+				break;
+			}
+			// A batch is sent as one message, but reported key by key
+			case "syncMany": {
+				const { keys = [] } = event.data as { keys?: string[] };
+				this.report(async () => {
+					const changes: StorageChange[] = [];
+					for (const key of keys) {
+						const value = await this.refresh(key);
+						if (value) changes.push({ action: "sync", key, value });
+					}
+					return changes;
+				});
+				break;
+			}
+			case "unsetMany": {
+				const { keys = [] } = event.data as { keys?: string[] };
+				keys.forEach((key) => this.forget(key));
+				this.report(async () => keys.map((key): StorageChange => ({ action: "unset", key })));
+				break;
+			}
+			default:
+				return;
+		}
+	}
+
+	/** Reads the value written by another tab into memory, in place of the one held there until then. */
+	private async refresh(key: string): Promise<DataModel<ValueType> | undefined> {
+		const entry = await this.read(key);
+
+		if (entry) {
+			this.cacheEntry(key, entry.data, entry.size);
+		} else {
+			this.forget(key);
+		}
+		return entry?.data;
+	}
+
+	/** Reports the remote changes in the order they were received, each once the values it needs are read. */
+	private report(changes: () => Promise<StorageChange[]>): void {
+		this.reported = this.reported
+			.then(changes)
+			.then((list) => list.forEach((change) => this.remoteListeners.forEach((listener) => listener(change))))
+			.catch(() => {
+				// A value that cannot be read is reported by the next change of its key
+			});
+	}
+
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		this.remoteListeners.add(listener);
+		return () => this.remoteListeners.delete(listener);
+	}
+
+	/**
+	 * Each key is persisted as a file, so it is encoded to a valid file name.
+	 */
+	private fileName(key: string): string {
+		return encodeURIComponent(key);
+	}
+
+	private async openDirectory(): Promise<FileSystemDirectoryHandle> {
+		if (!this.directory) {
+			const root = await navigator.storage.getDirectory();
+			this.directory = await root.getDirectoryHandle(this.baseName, { create: true });
+		}
+		return this.directory;
+	}
+
+	/**
+	 * Runs file operations one after another, so a fire-and-forget write from a
+	 * sync method can never overtake a previous clear or delete.
+	 */
+	private execute<T>(operation: (directory: FileSystemDirectoryHandle) => Promise<T>): Promise<T> {
+		const result = this.queue.then(() => this.openDirectory()).then(operation);
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	private write(key: string, content: string): Promise<void> {
+		return this.execute(async (directory) => {
+			const file = await directory.getFileHandle(this.fileName(key), { create: true });
+			const writable = await file.createWritable();
+			await writable.write(content);
+			await writable.close();
+		});
+	}
+
+	private read<T extends ValueType>(key: string): Promise<{ data: DataModel<T>; size: number } | undefined> {
+		return this.execute(async (directory) => {
+			try {
+				const file = await (await directory.getFileHandle(this.fileName(key))).getFile();
+				return { data: JSON.parse(await file.text()), size: file.size };
+			} catch (ex) {
+				if ((ex as DOMException)?.name === "NotFoundError") return undefined;
+				throw ex;
+			}
+		});
+	}
+
+	/** Removes the file of a key, which another tab may have removed already. */
+	private remove(key: string): Promise<void> {
+		return this.execute((directory) => this.removeEntry(directory, this.fileName(key)));
+	}
+
+	/** Reads every file, with its value and its size. */
+	private readAll<T extends ValueType>(): Promise<Map<string, { data: DataModel<T>; size: number }>> {
+		return this.execute(async (directory) => {
+			const entries = new Map<string, { data: DataModel<T>; size: number }>();
+
+			for await (const [name, handle] of directory.entries()) {
+				if (handle.kind !== "file") continue;
+
+				const file = await (handle as FileSystemFileHandle).getFile();
+				entries.set(decodeURIComponent(name), { data: JSON.parse(await file.text()), size: file.size });
+			}
+			return entries;
+		});
+	}
+
+	private clear(): Promise<void> {
+		return this.execute(async (directory) => {
+			const names: string[] = [];
+			for await (const name of directory.keys()) names.push(name);
+			await Promise.all(names.map((name) => this.removeEntry(directory, name)));
+		});
+	}
+
+	private async removeEntry(directory: FileSystemDirectoryHandle, name: string): Promise<void> {
+		try {
+			await directory.removeEntry(name);
+		} catch (ex) {
+			if ((ex as DOMException)?.name !== "NotFoundError") throw ex;
+		}
+	}
+
+	private keyBytes(key: string): number {
+		return new TextEncoder().encode(key).length;
+	}
+
+	/** Keeps the value in memory, and indexes its size: the encoded key plus the size of its file. */
+	private cacheEntry<T extends ValueType>(key: string, data: DataModel<T>, size: number): void {
+		this.memoryCache.set(key, data);
+		this.entrySizes.set(key, this.keyBytes(key) + size);
+	}
+
+	private forget(key: string): void {
+		this.memoryCache.delete(key);
+		this.entrySizes.delete(key);
+	}
+
+	/**
+	 * Puts back in memory, and in the other instances, what is persisted for the key, or for every key without one,
+	 * once a write or a removal made in the background by a sync method has failed.
+	 */
+	private async restore(key?: string): Promise<void> {
+		try {
+			if (!key) {
+				const entries = await this.getAll();
+				this.channel.postMessage({ action: "syncMany", keys: [...(entries?.keys() ?? [])] });
+				return;
+			}
+
+			const entry = await this.read(key);
+			if (entry) {
+				this.cacheEntry(key, entry.data, entry.size);
+				this.channel.postMessage({ action: "sync", key });
+			} else {
+				this.forget(key);
+				this.channel.postMessage({ action: "unset", key, value: undefined });
+			}
+		} catch {
+			// The directory cannot be read either, so the memory cache is the only copy left
+		}
+	}
+
+	/** @internal */
+	async init(): Promise<void> {
+		await this.getAll(); // Load existing files into memory cache
+	}
+
+	async set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		const content = JSON.stringify(data);
+		const size = new TextEncoder().encode(content).length;
+		await this.write(key, content);
+
+		this.cacheEntry(key, data, size);
+		this.channel.postMessage({ action: "sync", key });
+	}
+
+	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		const content = JSON.stringify(data);
+		const size = new TextEncoder().encode(content).length;
+
+		this.cacheEntry(key, data, size);
+		// Other tabs read the value from its file, so they are notified once it is written
+		this.write(key, content)
+			.then(() => this.channel.postMessage({ action: "sync", key }))
+			.catch(() => this.restore(key));
+	}
+
+	/** Writes every file before notifying the other instances with a single message. */
+	async setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		const contents = [...entries].map(([key, data]) => [key, JSON.stringify(data)] as const);
+		await Promise.all(contents.map(([key, content]) => this.write(key, content)));
+
+		contents.forEach(([key, content]) => this.cacheEntry(key, entries.get(key) as DataModel<T>, new TextEncoder().encode(content).length));
+		this.channel.postMessage({ action: "syncMany", keys: [...entries.keys()] });
+	}
+
+	async get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
+		if (this.memoryCache.has(key)) {
+			return this.memoryCache.get(key) as DataModel<T>;
+		}
+
+		const entry = await this.read<T>(key);
+		if (entry) {
+			this.cacheEntry(key, entry.data, entry.size);
+			return entry.data;
+		}
+
+		return undefined;
+	}
+
+	async getMany<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>> {
+		const result = new Map<string, DataModel<T>>();
+
+		const values = await Promise.all([...new Set(keys)].map(async (key) => [key, await this.get<T>(key)] as const));
+		values.forEach(([key, data]) => data && result.set(key, data));
+		return result;
+	}
+
+	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
+		return this.memoryCache.get(key) as DataModel<T> | undefined;
+	}
+
+	async getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
+		const files = await this.readAll<T>();
+
+		// Refresh memoryCache with what is actually persisted
+		const result = new Map<string, DataModel<T>>();
+		this.memoryCache.clear();
+		this.entrySizes.clear();
+		files.forEach(({ data, size }, key) => {
+			this.cacheEntry(key, data, size);
+			result.set(key, data);
+		});
+
+		return result.size > 0 ? result : null;
+	}
+
+	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null {
+		return this.memoryCache.size > 0 ? (this.memoryCache as Map<string, DataModel<T>>) : null;
+	}
+
+	async has(key: string): Promise<boolean> {
+		return this.entrySizes.has(key) || (await this.get(key)) !== undefined;
+	}
+
+	hasSync(key: string): boolean {
+		return this.entrySizes.has(key);
+	}
+
+	async unset(key?: string): Promise<boolean> {
+		if (this.entrySizes.length === 0) return false;
+
+		if (key) {
+			if (!this.entrySizes.has(key)) return false;
+
+			this.forget(key);
+			this.channel.postMessage({ action: "unset", key, value: undefined }); // Notify other instances to remove key
+			await this.remove(key);
+			return true;
+		}
+
+		this.memoryCache.clear();
+		this.entrySizes.clear();
+		this.channel.postMessage({ action: "clear", key: undefined, value: undefined }); // Notify other instances to clear keys
+		await this.clear();
+
+		return true;
+	}
+
+	unsetSync(key?: string): boolean {
+		if (this.entrySizes.length === 0) return false;
+
+		if (key) {
+			if (!this.entrySizes.has(key)) return false;
+
+			this.forget(key);
+			this.channel.postMessage({ action: "unset", key, value: undefined });
+			this.remove(key).catch(() => this.restore(key));
+			return true;
+		}
+
+		this.memoryCache.clear();
+		this.entrySizes.clear();
+		this.channel.postMessage({ action: "clear", key: undefined, value: undefined });
+		this.clear().catch(() => this.restore());
+
+		return true;
+	}
+
+	/** Removes the entries held in memory among the given keys, notifying the other instances with a single message. */
+	async unsetMany(keys: string[]): Promise<string[]> {
+		const removed = this.forgetMany(keys);
+		await Promise.all(removed.map((key) => this.remove(key)));
+		return removed;
+	}
+
+	unsetManySync(keys: string[]): string[] {
+		const removed = this.forgetMany(keys);
+		removed.forEach((key) => this.remove(key).catch(() => this.restore(key)));
+		return removed;
+	}
+
+	private forgetMany(keys: string[]): string[] {
+		const removed = [...new Set(keys)].filter((key) => this.entrySizes.has(key));
+
+		removed.forEach((key) => this.forget(key));
+		if (removed.length > 0) this.channel.postMessage({ action: "unsetMany", keys: removed });
+		return removed;
+	}
+
+	get length(): number {
+		return this.entrySizes.length;
+	}
+
+	get bytes(): number {
+		return this.entrySizes.bytes;
+	}
+
+	get type(): StorageEngine {
+		return StorageEngine.OPFS;
+	}
+}
@@ -1,10 +1,13 @@
+import { QuotaExceededError } from "../errors";
 import type { DataModel, StorageBase, ValueType } from "../types";
 import { StorageEngine } from "../types";
+import { EntrySizes, Utils } from "../utils";
 
 /** @ignore */
 export class SessionStorageStrategy implements StorageBase {
 	private prefixKey: string;
 	private memoryCache: Map<string, DataModel<ValueType>> = new Map();
+	private entrySizes = new EntrySizes();
 
 	constructor(prefixKey = "HybridWebCache") {
 		this.prefixKey = `${prefixKey.trim()}::`;
@@ -26,10 +29,12 @@ export class SessionStorageStrategy implements StorageBase {
 
 	private loadMemoryCache(): void {
 		this.memoryCache.clear(); // Clear existing cache before loading
+		this.entrySizes.clear();
 
 		this._forEachStorage((key, value) => {
 			const data: DataModel<ValueType> = JSON.parse(value ?? "{}");
 			this.memoryCache.set(key, data);
+			this.entrySizes.track(key, data);
 		});
 	}
 
@@ -38,13 +43,44 @@ export class SessionStorageStrategy implements StorageBase {
 		return Promise.resolve();
 	}
 
-	set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
-		return Promise.resolve(this.setSync(key, data));
+	async set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		this.setSync(key, data);
 	}
 
 	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
-		sessionStorage.setItem(this.formattedKey(key), JSON.stringify(data));
+		try {
+			sessionStorage.setItem(this.formattedKey(key), JSON.stringify(data));
+		} catch (ex) {
+			// Nothing was written, so the memory cache keep the previous value
+			if (Utils.isQuotaExceededError(ex)) throw new QuotaExceededError(key, this.type, ex);
+			throw ex;
+		}
+
 		this.memoryCache.set(key, data);
+		this.entrySizes.track(key, data);
+	}
+
+	/** Writes every entry or, when one of them fails, none: the items already written are restored. */
+	async setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		const previous: [string, string | null][] = [];
+		let current = "";
+
+		try {
+			for (const [key, data] of entries) {
+				current = key;
+				previous.push([this.formattedKey(key), sessionStorage.getItem(this.formattedKey(key))]);
+				sessionStorage.setItem(this.formattedKey(key), JSON.stringify(data));
+			}
+		} catch (ex) {
+			previous.reverse().forEach(([formattedKey, item]) => (item === null ? sessionStorage.removeItem(formattedKey) : sessionStorage.setItem(formattedKey, item)));
+			if (Utils.isQuotaExceededError(ex)) throw new QuotaExceededError(current, this.type, ex);
+			throw ex;
+		}
+
+		entries.forEach((data, key) => {
+			this.memoryCache.set(key, data);
+			this.entrySizes.track(key, data);
+		});
 	}
 
 	get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
@@ -82,34 +118,43 @@ export class SessionStorageStrategy implements StorageBase {
 		if (!key) {
 			const keysToRemove: string[] = [];
 			this._forEachStorage((originalKey, _value) => keysToRemove.push(originalKey));
-			keysToRemove.forEach((k) => sessionStorage.removeItem(k));
+			keysToRemove.forEach((k) => sessionStorage.removeItem(this.formattedKey(k)));
 			this.memoryCache.clear();
+			this.entrySizes.clear();
 			result = true;
 		} else {
 			if (this.hasSync(key)) {
 				const fKey = this.formattedKey(key);
 				sessionStorage.removeItem(fKey);
 				result = this.memoryCache.delete(key);
+				this.entrySizes.delete(key);
 			}
 		}
 		return result;
 	}
 
+	async unsetMany(keys: string[]): Promise<string[]> {
+		return this.unsetManySync(keys);
+	}
+
+	/** Removes the stored entries among the given keys. */
+	unsetManySync(keys: string[]): string[] {
+		const removed = [...new Set(keys)].filter((key) => this.memoryCache.has(key));
+
+		for (const key of removed) {
+			sessionStorage.removeItem(this.formattedKey(key));
+			this.memoryCache.delete(key);
+			this.entrySizes.delete(key);
+		}
+		return removed;
+	}
+
 	get length(): number {
 		return this.memoryCache.size;
 	}
 
 	get bytes(): number {
-		if (this.memoryCache.size === 0) return 0;
-
-		let totalBytes = 0;
-		this._forEachStorage((key, value) => {
-			totalBytes += new TextEncoder().encode(key).length;
-			if (value) {
-				totalBytes += new TextEncoder().encode(value).length;
-			}
-		});
-		return totalBytes;
+		return this.memoryCache.size === 0 ? 0 : this.entrySizes.bytes;
 	}
 
 	get type(): StorageEngine {
@@ -0,0 +1,189 @@
+import type { DataModel, ScanOptions, StorageBase, StorageChange, StoragePage, ValueType } from "../types";
+import { StorageEngine } from "../types";
+import { Utils } from "../utils";
+
+/**
+ * Default size, in bytes, above which values are routed to the large storage.
+ * @internal
+ */
+export const DEFAULT_SIZE_THRESHOLD = 16 * 1024;
+
+/**
+ * Routes each entry by size: entries up to `threshold` bytes go to the small storage
+ * (fast, synchronous access) and larger ones to the large storage.
+ *
+ * @ignore
+ */
+export class SizeRoutingStrategy implements StorageBase {
+	private small: StorageBase;
+	private large: StorageBase;
+	private threshold: number;
+	private reported: Promise<void> = Promise.resolve();
+
+	constructor(small: StorageBase, large: StorageBase, threshold = DEFAULT_SIZE_THRESHOLD) {
+		this.small = small;
+		this.large = large;
+		this.threshold = threshold > 0 ? threshold : DEFAULT_SIZE_THRESHOLD;
+	}
+
+	/** Returns the storage the entry belongs to, followed by the other one. */
+	private route<T extends ValueType>(key: string, data: DataModel<T>): [StorageBase, StorageBase] {
+		return Utils.calculateEntryBytes(key, data) > this.threshold ? [this.large, this.small] : [this.small, this.large];
+	}
+
+	/** @internal */
+	async init(): Promise<void> {
+		await Promise.all([this.small.init(), this.large.init()]);
+	}
+
+	async set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		const [target, other] = this.route(key, data);
+
+		await target.set(key, data);
+		// The value may have crossed the threshold since it was last stored
+		if (await other.has(key)) await other.unset(key);
+	}
+
+	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		const [target, other] = this.route(key, data);
+
+		target.setSync(key, data);
+		if (other.hasSync(key)) other.unsetSync(key);
+	}
+
+	/** Writes each storage's share of the batch at once, then removes the values that crossed the threshold from the other one. */
+	async setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		const small = new Map<string, DataModel<T>>();
+		const large = new Map<string, DataModel<T>>();
+		entries.forEach((data, key) => (this.route(key, data)[0] === this.small ? small : large).set(key, data));
+
+		await Promise.all([Utils.setManyOf(this.small, small), Utils.setManyOf(this.large, large)]);
+		await Promise.all([Utils.unsetManyOf(this.large, [...small.keys()]), Utils.unsetManyOf(this.small, [...large.keys()])]);
+	}
+
+	async get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
+		return (await this.small.get<T>(key)) ?? this.large.get<T>(key);
+	}
+
+	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
+		return this.small.getSync<T>(key) ?? this.large.getSync<T>(key);
+	}
+
+	async getMany<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>> {
+		const small = await Utils.getManyOf<T>(this.small, keys);
+		const large = await Utils.getManyOf<T>(
+			this.large,
+			keys.filter((key) => !small.has(key))
+		);
+		return new Map([...large, ...small]);
+	}
+
+	async getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
+		const [small, large] = await Promise.all([this.small.getAll<T>(), this.large.getAll<T>()]);
+		return this.merge(small, large);
+	}
+
+	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null {
+		return this.merge(this.small.getAllSync<T>(), this.large.getAllSync<T>());
+	}
+
+	private merge<T extends ValueType>(small: Map<string, DataModel<T>> | null, large: Map<string, DataModel<T>> | null): Map<string, DataModel<T>> | null {
+		if (!small) return large;
+		if (!large) return small;
+
+		return new Map([...large, ...small]);
+	}
+
+	async has(key: string): Promise<boolean> {
+		return (await this.small.has(key)) || this.large.has(key);
+	}
+
+	hasSync(key: string): boolean {
+		return this.small.hasSync(key) || this.large.hasSync(key);
+	}
+
+	async unset(key?: string): Promise<boolean> {
+		const [small, large] = await Promise.all([this.small.unset(key), this.large.unset(key)]);
+		return small || large;
+	}
+
+	unsetSync(key?: string): boolean {
+		const small = this.small.unsetSync(key);
+		const large = this.large.unsetSync(key);
+		return small || large;
+	}
+
+	async unsetMany(keys: string[]): Promise<string[]> {
+		const [small, large] = await Promise.all([Utils.unsetManyOf(this.small, keys), Utils.unsetManyOf(this.large, keys)]);
+		return [...new Set([...small, ...large])];
+	}
+
+	unsetManySync(keys: string[]): string[] {
+		const small = Utils.unsetManySyncOf(this.small, keys);
+		const large = Utils.unsetManySyncOf(this.large, keys);
+		return [...new Set([...small, ...large])];
+	}
+
+	async expiredKeys(now: number, limit?: number): Promise<string[]> {
+		const [small, large] = await Promise.all([Utils.expiredKeysOf(this.small, now, limit), Utils.expiredKeysOf(this.large, now, limit)]);
+		const keys = [...new Set([...small, ...large])];
+		return limit && limit > 0 ? keys.slice(0, limit) : keys;
+	}
+
+	async taggedKeys(tag: string): Promise<string[]> {
+		const [small, large] = await Promise.all([Utils.taggedKeysOf(this.small, tag), Utils.taggedKeysOf(this.large, tag)]);
+		return [...new Set([...small, ...large])];
+	}
+
+	async scan<T extends ValueType>(options: ScanOptions & { limit: number }): Promise<StoragePage<T>> {
+		const [small, large] = await Promise.all([Utils.scanOf<T>(this.small, options), Utils.scanOf<T>(this.large, options)]);
+		// As in `merge`, the small storage wins for a key held by both
+		return Utils.mergePages(options.limit, large, small);
+	}
+
+	async prefixedKeys(prefix: string): Promise<string[]> {
+		const [small, large] = await Promise.all([Utils.prefixedKeysOf(this.small, prefix), Utils.prefixedKeysOf(this.large, prefix)]);
+		return [...new Set([...small, ...large])];
+	}
+
+	/**
+	 * A value that crossed the threshold is written to one storage before it is removed from the other, and the
+	 * two storages may notify these changes in any order: its removal is not reported while it is still stored.
+	 * The changes are reported in the order they were received, each once checked.
+	 */
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		const report = (change: StorageChange) => {
+			this.reported = this.reported
+				.then(() => (change.action === "unset" && change.key ? this.get(change.key) : undefined))
+				.then(
+					(stored) => {
+						if (!stored) listener(change);
+					},
+					() => listener(change)
+				)
+				.catch(() => {
+					// A failing listener must not stop the next changes from being reported
+				});
+		};
+
+		const small = this.small.onRemoteChange?.(report);
+		const large = this.large.onRemoteChange?.(report);
+
+		return () => {
+			small?.();
+			large?.();
+		};
+	}
+
+	get length(): number {
+		return this.small.length + this.large.length;
+	}
+
+	get bytes(): number {
+		return this.small.bytes + this.large.bytes;
+	}
+
+	get type(): StorageEngine {
+		return StorageEngine.Hybrid;
+	}
+}
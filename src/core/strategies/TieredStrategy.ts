@@ -0,0 +1,468 @@
+import type { CapacityLimits, DataModel, ScanOptions, StorageBase, StorageChange, StorageEngine, StoragePage, TierOptions, ValueType } from "../types";
+import { EntrySizes, Utils } from "../utils";
+import { MemoryStrategy } from "./MemoryStrategy";
+
+/**
+ * Two-tier storage: a bounded {@link MemoryStrategy} (L1) holding the hot set in front of
+ * a persistent storage (L2) holding the long tail.
+ *
+ * Only L1 is meant to be held in memory: L2 is read on demand, and `getSync` only sees what L2 keeps
+ * in memory itself (nothing for the lazy IndexedDB created for `Options.tiered`). The keys of L2 are
+ * indexed without their values, so `hasSync`, `length` and `bytes` still cover every entry.
+ *
+ * @ignore
+ */
+export class TieredStrategy implements StorageBase {
+	private l1: MemoryStrategy;
+	private l2: StorageBase;
+	private onEvict?: (keys: string[]) => void;
+
+	private options: Required<Pick<TierOptions, "writePolicy" | "flushDelay">> & Pick<TierOptions, "l2">;
+
+	/**
+	 * Sizes of the entries persisted in L2, from the least to the most recently used.
+	 * Indexes every key of L2 without its value, so L2 never has to be held in memory to count it.
+	 */
+	private l2Sizes = new EntrySizes();
+	/** Write-back entries not yet persisted in L2. */
+	private dirty: Map<string, DataModel<ValueType>> = new Map();
+	private flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+	private handlePageHide = () => this.flushSync();
+
+	private static readonly TRACK_PAGE_SIZE = 100;
+
+	/**
+	 * @param l2 - The persistent tier.
+	 * @param options - The limits of both tiers and the write policy.
+	 * @param onEvict - Called with the keys evicted from L2 to respect its limits.
+	 */
+	constructor(l2: StorageBase, options: TierOptions = {}, onEvict?: (keys: string[]) => void) {
+		this.l2 = l2;
+		this.onEvict = onEvict;
+		this.options = { writePolicy: options.writePolicy ?? "write-through", flushDelay: options.flushDelay ?? 1000, l2: options.l2 };
+		this.l1 = new MemoryStrategy(options.l1, this.handleL1Eviction.bind(this));
+
+		this.l2.getAllSync()?.forEach((data, key) => this.l2Sizes.track(key, data));
+
+		this.l2.onRemoteChange?.(this.handleRemoteChange.bind(this));
+
+		if (this.options.writePolicy === "write-back" && typeof window !== "undefined") {
+			// Persist pending writes before the page goes away
+			window.addEventListener("pagehide", this.handlePageHide);
+		}
+	}
+
+	private get isWriteBack(): boolean {
+		return this.options.writePolicy === "write-back";
+	}
+
+	/** Measures the entries persisted in L2 page by page, so they are never all held in memory at once. */
+	private async trackL2Sizes(sizes: EntrySizes): Promise<void> {
+		sizes.clear();
+
+		let after: string | undefined;
+		do {
+			const page = await Utils.scanOf(this.l2, { limit: TieredStrategy.TRACK_PAGE_SIZE, after });
+			page.entries.forEach((data, key) => sizes.track(key, data));
+			after = page.next;
+		} while (after !== undefined);
+	}
+
+	/** Entries changed in L2 by another tab are dropped from L1, so the next read gets them from L2. */
+	private handleRemoteChange(change: StorageChange): void {
+		if (change.action === "clear") {
+			this.cancelFlush();
+			this.dirty.clear();
+			this.l2Sizes.clear();
+			this.l1.unsetSync();
+			return;
+		}
+
+		// A pending write of this tab is newer than what L2 held
+		if (!change.key || this.dirty.has(change.key)) return;
+
+		this.l1.unsetSync(change.key);
+		if (change.action === "sync" && change.value) {
+			this.l2Sizes.track(change.key, change.value);
+		} else {
+			this.l2Sizes.delete(change.key);
+		}
+	}
+
+	/** An entry evicted from L1 that was never persisted must not be lost. */
+	private handleL1Eviction(key: string, data: DataModel<ValueType>): void {
+		if (this.dirty.delete(key)) {
+			this.persistSync(key, data);
+		}
+	}
+
+	/** Keys evicted from L2 to respect its limits, always keeping the entries that were just written. */
+	private l2Overflow(keep: string[]): string[] {
+		const { maxEntries = 0, maxBytes = 0 }: CapacityLimits = this.options.l2 ?? {};
+		if (maxEntries <= 0 && maxBytes <= 0) return [];
+
+		const evicted: string[] = [];
+		let length = this.l2Sizes.length;
+		let bytes = this.l2Sizes.bytes;
+
+		for (const key of this.l2Sizes.keys()) {
+			if (keep.includes(key) || !((maxEntries > 0 && length > maxEntries) || (maxBytes > 0 && bytes > maxBytes))) break;
+
+			evicted.push(key);
+			length--;
+			bytes -= this.l2Sizes.get(key);
+		}
+		return evicted;
+	}
+
+	private async persist<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		await this.l2.set(key, data);
+		this.l2Sizes.track(key, data);
+
+		await this.evictOverflow([key]);
+	}
+
+	private async persistMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		await Utils.setManyOf(this.l2, entries);
+		entries.forEach((data, key) => this.l2Sizes.track(key, data));
+
+		await this.evictOverflow([...entries.keys()]);
+	}
+
+	private persistSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		this.l2.setSync(key, data);
+		this.l2Sizes.track(key, data);
+
+		const evicted = this.l2Overflow([key]);
+		for (const victim of evicted) {
+			this.l1.unsetSync(victim);
+			this.l2.unsetSync(victim);
+			this.l2Sizes.delete(victim);
+		}
+		if (evicted.length > 0) this.onEvict?.(evicted);
+	}
+
+	private async evictOverflow(keep: string[]): Promise<void> {
+		const evicted = this.l2Overflow(keep);
+		for (const victim of evicted) {
+			this.l1.unsetSync(victim);
+			await this.l2.unset(victim);
+			this.l2Sizes.delete(victim);
+		}
+		if (evicted.length > 0) this.onEvict?.(evicted);
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushTimer !== undefined) return;
+
+		this.flushTimer = setTimeout(() => {
+			this.flushTimer = undefined;
+			// The entries that failed to persist are still pending, and retried after another delay
+			this.flush().catch(() => this.scheduleFlush());
+		}, this.options.flushDelay);
+	}
+
+	private cancelFlush(): void {
+		clearTimeout(this.flushTimer);
+		this.flushTimer = undefined;
+	}
+
+	private promote<T extends ValueType>(key: string, data: DataModel<T> | undefined): DataModel<T> | undefined {
+		if (data) {
+			this.l1.setSync(key, data);
+			this.l2Sizes.touch(key);
+		}
+		return data;
+	}
+
+	/** The entry is no longer pending once persisted, unless it was written again in the meantime. */
+	private settle<T extends ValueType>(key: string, data: DataModel<T>): void {
+		if (this.dirty.get(key) === data) this.dirty.delete(key);
+	}
+
+	/**
+	 * Persists every pending `write-back` entry in L2.
+	 * Entries stay pending until L2 has stored them, so a failed write is retried by the next flush.
+	 */
+	async flush(): Promise<void> {
+		this.cancelFlush();
+
+		for (const [key, data] of [...this.dirty]) {
+			await this.persist(key, data);
+			this.settle(key, data);
+		}
+	}
+
+	/**
+	 * Synchronous version of `flush`.
+	 */
+	flushSync(): void {
+		this.cancelFlush();
+
+		for (const [key, data] of [...this.dirty]) {
+			this.persistSync(key, data);
+			this.settle(key, data);
+		}
+	}
+
+	/**
+	 * Persists the pending writes and stops listening to the page lifecycle.
+	 */
+	dispose(): void {
+		if (typeof window !== "undefined") window.removeEventListener("pagehide", this.handlePageHide);
+		this.flushSync();
+	}
+
+	/** @internal */
+	async init(): Promise<void> {
+		await this.l2.init();
+		await this.trackL2Sizes(this.l2Sizes);
+	}
+
+	async set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void> {
+		this.l1.setSync(key, data);
+
+		if (this.isWriteBack) {
+			this.dirty.set(key, data);
+			this.scheduleFlush();
+			return;
+		}
+
+		await this.persist(key, data);
+	}
+
+	async setMany<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void> {
+		if (this.isWriteBack) {
+			// Each entry is pending before the next one may evict it from L1
+			entries.forEach((data, key) => {
+				this.l1.setSync(key, data);
+				this.dirty.set(key, data);
+			});
+			this.scheduleFlush();
+			return;
+		}
+
+		entries.forEach((data, key) => this.l1.setSync(key, data));
+		await this.persistMany(entries);
+	}
+
+	/**
+	 * Commits to L2 at once, even with `write-back`, so the transaction is persisted as a whole;
+	 * L1 is only updated once L2 has committed.
+	 */
+	async commit<T extends ValueType>(writes: Map<string, DataModel<T>>, removals: string[]): Promise<void> {
+		await Utils.commitOf(this.l2, writes, removals);
+
+		// Pending writes of these keys are superseded by the commit, and must not be persisted when evicted from L1
+		for (const key of [...writes.keys(), ...removals]) {
+			this.dirty.delete(key);
+		}
+
+		writes.forEach((data, key) => {
+			this.l1.setSync(key, data);
+			this.l2Sizes.track(key, data);
+		});
+		for (const key of removals) {
+			this.l1.unsetSync(key);
+			this.l2Sizes.delete(key);
+		}
+
+		await this.evictOverflow([...writes.keys()]);
+	}
+
+	setSync<T extends ValueType>(key: string, data: DataModel<T>): void {
+		this.l1.setSync(key, data);
+
+		if (this.isWriteBack) {
+			this.dirty.set(key, data);
+			this.scheduleFlush();
+			return;
+		}
+
+		this.persistSync(key, data);
+	}
+
+	/** Reads from L1, keeping the L2 recency in step so hot keys are the last evicted from L2. */
+	private fromL1<T extends ValueType>(key: string): DataModel<T> | undefined {
+		const data = this.l1.getSync<T>(key);
+		if (data) this.l2Sizes.touch(key);
+		return data;
+	}
+
+	async get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined> {
+		return this.fromL1<T>(key) ?? this.promote(key, await this.l2.get<T>(key));
+	}
+
+	getSync<T extends ValueType>(key: string): DataModel<T> | undefined {
+		return this.fromL1<T>(key) ?? this.promote(key, this.l2.getSync<T>(key));
+	}
+
+	/** Reads from L1, then the missing keys from L2 at once. */
+	async getMany<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>> {
+		const result = new Map<string, DataModel<T>>();
+		const missing: string[] = [];
+
+		for (const key of new Set(keys)) {
+			const data = this.fromL1<T>(key);
+			if (data) {
+				result.set(key, data);
+			} else {
+				missing.push(key);
+			}
+		}
+
+		(await Utils.getManyOf<T>(this.l2, missing)).forEach((data, key) => result.set(key, this.promote(key, data) as DataModel<T>));
+		return result;
+	}
+
+	async getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null> {
+		return this.withPending(await this.l2.getAll<T>());
+	}
+
+	/** The entries L2 holds in memory, overlaid with the entries of L1, which include the pending writes. */
+	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null {
+		const hot = this.l1.getAllSync<T>();
+		if (!hot) return this.l2.getAllSync<T>();
+
+		const result = new Map(this.l2.getAllSync<T>() ?? []);
+		hot.forEach((data, key) => result.set(key, data));
+		return result;
+	}
+
+	/** Merges the `write-back` entries not yet persisted into the entries read from L2. */
+	private withPending<T extends ValueType>(entries: Map<string, DataModel<T>> | null): Map<string, DataModel<T>> | null {
+		if (this.dirty.size === 0) return entries;
+
+		const result = new Map(entries ?? []);
+		this.dirty.forEach((data, key) => result.set(key, data as DataModel<T>));
+		return result;
+	}
+
+	async has(key: string): Promise<boolean> {
+		return this.l1.hasSync(key) || this.l2.has(key);
+	}
+
+	/** Also finds the entries of L2 that are not held in memory, whose value `getSync` cannot read. */
+	hasSync(key: string): boolean {
+		return this.l1.hasSync(key) || this.l2Sizes.has(key) || this.l2.hasSync(key);
+	}
+
+	async unset(key?: string): Promise<boolean> {
+		if (!key) {
+			const indexed = this.l2Sizes.length > 0;
+			this.cancelFlush();
+			this.dirty.clear();
+			this.l2Sizes.clear();
+
+			const removed = this.l1.unsetSync() || indexed;
+			return (await this.l2.unset()) || removed;
+		}
+
+		const pending = this.dirty.delete(key);
+		const removed = this.l1.unsetSync(key) || this.l2Sizes.has(key);
+		this.l2Sizes.delete(key);
+
+		return (await this.l2.unset(key)) || removed || pending;
+	}
+
+	unsetSync(key?: string): boolean {
+		if (!key) {
+			const indexed = this.l2Sizes.length > 0;
+			this.cancelFlush();
+			this.dirty.clear();
+			this.l2Sizes.clear();
+
+			const removed = this.l1.unsetSync() || indexed;
+			return this.l2.unsetSync() || removed;
+		}
+
+		const pending = this.dirty.delete(key);
+		const removed = this.l1.unsetSync(key) || this.l2Sizes.has(key);
+		this.l2Sizes.delete(key);
+
+		return this.l2.unsetSync(key) || removed || pending;
+	}
+
+	/** Removes the keys from L1, the pending writes and the index of L2, returning those that were found there. */
+	private unsetLocal(keys: string[]): string[] {
+		return keys.filter((key) => {
+			const pending = this.dirty.delete(key);
+			const removed = this.l1.unsetSync(key) || this.l2Sizes.has(key);
+			this.l2Sizes.delete(key);
+			return pending || removed;
+		});
+	}
+
+	async unsetMany(keys: string[]): Promise<string[]> {
+		const unique = [...new Set(keys)];
+		const local = this.unsetLocal(unique);
+
+		const persisted = await Utils.unsetManyOf(this.l2, unique);
+		return unique.filter((key) => local.includes(key) || persisted.includes(key));
+	}
+
+	unsetManySync(keys: string[]): string[] {
+		const unique = [...new Set(keys)];
+		const local = this.unsetLocal(unique);
+
+		const persisted = Utils.unsetManySyncOf(this.l2, unique);
+		return unique.filter((key) => local.includes(key) || persisted.includes(key));
+	}
+
+	/** Expired keys persisted in L2, followed by the expired `write-back` entries not yet persisted. */
+	async expiredKeys(now: number, limit?: number): Promise<string[]> {
+		// A pending write supersedes what L2 holds for the same key
+		const persisted = (await Utils.expiredKeysOf(this.l2, now, limit)).filter((key) => !this.dirty.has(key));
+		const pending = Utils.findExpiredKeys(this.dirty, now);
+
+		const keys = [...persisted, ...pending];
+		return limit && limit > 0 ? keys.slice(0, limit) : keys;
+	}
+
+	/** Tagged keys persisted in L2, followed by the tagged `write-back` entries not yet persisted. */
+	async taggedKeys(tag: string): Promise<string[]> {
+		// A pending write supersedes what L2 holds for the same key
+		const persisted = (await Utils.taggedKeysOf(this.l2, tag)).filter((key) => !this.dirty.has(key));
+		return [...persisted, ...Utils.findTaggedKeys(this.dirty, tag)];
+	}
+
+	/** Keys persisted in L2, followed by the `write-back` entries not yet persisted. */
+	async prefixedKeys(prefix: string): Promise<string[]> {
+		const persisted = (await Utils.prefixedKeysOf(this.l2, prefix)).filter((key) => !this.dirty.has(key));
+		return [...persisted, ...[...this.dirty.keys()].filter((key) => key.startsWith(prefix))];
+	}
+
+	/** Pages through L2, with the pending writes taking precedence over the persisted values. */
+	async scan<T extends ValueType>(options: ScanOptions & { limit: number }): Promise<StoragePage<T>> {
+		const persisted = await Utils.scanOf<T>(this.l2, options);
+		const pending = Utils.pageOf(this.dirty as Map<string, DataModel<T>>, options);
+		return Utils.mergePages(options.limit, persisted, pending);
+	}
+
+	onRemoteChange(listener: (change: StorageChange) => void): () => void {
+		return this.l2.onRemoteChange?.(listener) ?? (() => {});
+	}
+
+	/** The entries indexed in L2, plus the entries of L1 not persisted there yet. */
+	get length(): number {
+		let hot = 0;
+		this.l1.getAllSync()?.forEach((_data, key) => {
+			if (!this.l2Sizes.has(key)) hot++;
+		});
+		return this.l2Sizes.length + hot;
+	}
+
+	get bytes(): number {
+		let hot = 0;
+		this.l1.getAllSync()?.forEach((data, key) => {
+			if (!this.l2Sizes.has(key)) hot += Utils.calculateEntryBytes(key, data);
+		});
+		return this.l2Sizes.bytes + hot;
+	}
+
+	/** The engine of the persistent tier. */
+	get type(): StorageEngine {
+		return this.l2.type;
+	}
+}
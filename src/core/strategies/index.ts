@@ -1,4 +1,11 @@
+export * from "./CacheStorageStrategy";
+export * from "./EvictionStrategy";
+export * from "./FallbackStrategy";
 export * from "./IndexedDBStrategy";
 export * from "./LocalStorageStrategy";
 export * from "./MemoryStrategy";
+export * from "./NamespaceStrategy";
+export * from "./OPFSStrategy";
 export * from "./SessionStorageStrategy";
+export * from "./SizeRoutingStrategy";
+export * from "./TieredStrategy";
@@ -0,0 +1,43 @@
+import type { DataModel, ValueType } from "./types";
+
+/**
+ * `EvictionPolicy` decides which keys are evicted when a write exceeds `Options.maxEntries`
+ * or `Options.maxBytes`.
+ *
+ * `HybridWebCache` reports every write, read and removal of a primary key to the policy and,
+ * when a limit is hit, asks it to rank the stored keys, evicting them in that order until the
+ * cache fits again. The key that was just written is never evicted.
+ *
+ * Keys may also be written by other tabs without being reported, so `rank` must include every
+ * key of `entries`, even those it never saw.
+ *
+ * @example
+ * ```ts
+ * import { HybridWebCache, type EvictionPolicy } from 'hybrid-webcache';
+ *
+ * // Evicts the largest entries first
+ * class LargestFirstPolicy implements EvictionPolicy {
+ *   recordSet() {}
+ *   recordGet() {}
+ *   forget() {}
+ *   rank(entries) {
+ *     const size = (key) => JSON.stringify(entries.get(key)).length;
+ *     return [...entries.keys()].sort((a, b) => size(b) - size(a));
+ *   }
+ * }
+ *
+ * const cache = new HybridWebCache('myApp', { maxBytes: 1024 * 1024, evictionPolicy: new LargestFirstPolicy() });
+ * ```
+ *
+ * @category Eviction
+ */
+export interface EvictionPolicy {
+	/** Records that the key was written. */
+	recordSet(key: string, data: DataModel<ValueType>): void;
+	/** Records that the key was read. */
+	recordGet(key: string, data: DataModel<ValueType>): void;
+	/** Forgets the key, or every key when omitted. */
+	forget(key?: string): void;
+	/** Ranks the stored keys, the first one being the first evicted. */
+	rank(entries: Map<string, DataModel<ValueType>>): string[];
+}
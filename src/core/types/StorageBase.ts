@@ -1,31 +1,162 @@
-import type { DataModel, StorageEngine, ValueType } from "./types";
+import type { DataModel, ScanOptions, StorageEngine, ValueType } from "./types";
 
-/** @ignore */
+/**
+ * `StorageBase` is the contract every storage engine implements.
+ *
+ * `HybridWebCache` only talks to its storage through this interface, so a custom backend
+ * (e.g. for an Electron shell) can be plugged in by implementing it and passing the instance,
+ * or a {@link StorageCreator}, in `Options.storage` or registering it with `StorageFactory.register`.
+ *
+ * Keys received by the storage are always primary keys (the first segment of a {@link KeyPath}),
+ * and values are always wrapped in a {@link DataModel}. The synchronous methods are expected to
+ * answer from memory, so storages backed by an asynchronous API should keep an in-memory mirror
+ * that is loaded by `init()`.
+ *
+ * @example
+ * ```ts
+ * import { HybridWebCache, StorageEngine, type StorageBase } from 'hybrid-webcache';
+ *
+ * class ElectronStoreStrategy implements StorageBase {
+ *   // ...implement every member of the contract
+ *   get type() { return StorageEngine.Custom; }
+ * }
+ *
+ * const cache = new HybridWebCache('myApp', { storage: new ElectronStoreStrategy() });
+ * ```
+ *
+ * @category Storage
+ */
 export interface StorageBase {
+	/** Prepares the storage for use, loading persisted data into memory for the synchronous methods. */
 	init(): Promise<void>;
 
+	/** Persists the data under the given key. */
 	set<T extends ValueType>(key: string, data: DataModel<T>): Promise<void>;
+	/** Synchronous version of `set`; asynchronous storages may persist in the background. */
 	setSync<T extends ValueType>(key: string, data: DataModel<T>): void;
 
+	/** Resolves the data stored under the given key, or `undefined` when missing. */
 	get<T extends ValueType>(key: string): Promise<DataModel<T> | undefined>;
+	/** Synchronous version of `get`. */
 	getSync<T extends ValueType>(key: string): DataModel<T> | undefined;
 
+	/** Resolves every stored entry, or `null` when the storage is empty. */
 	getAll<T extends ValueType>(): Promise<Map<string, DataModel<T>> | null>;
+	/** Synchronous version of `getAll`. */
 	getAllSync<T extends ValueType>(): Map<string, DataModel<T>> | null;
 
+	/** Resolves whether the given key is stored. */
 	has(key: string): Promise<boolean>;
-
+	/** Synchronous version of `has`. */
 	hasSync(key: string): boolean;
 
-	// unset(): Promise<boolean>;
-	// unset(key: string): Promise<boolean>;
+	/** Removes the given key, or every entry when no key is provided. Resolves `false` if nothing was removed. */
 	unset(key?: string): Promise<boolean>;
-
-	// unsetSync(): boolean;
-	// unsetSync(key: string): boolean;
+	/** Synchronous version of `unset`. */
 	unsetSync(key?: string): boolean;
 
+	/**
+	 * Optional. Resolves the stored entries of the given keys, leaving out the missing ones.
+	 * Storages that can read several keys at once (e.g. in a single IndexedDB transaction) should implement it;
+	 * otherwise the batch methods of `HybridWebCache` call `get` for each key.
+	 */
+	getMany?<T extends ValueType>(keys: string[]): Promise<Map<string, DataModel<T>>>;
+
+	/**
+	 * Optional. Writes every entry at once. Storages that synchronize tabs should send a single message
+	 * for the whole batch; otherwise the batch methods of `HybridWebCache` call `set` for each entry.
+	 */
+	setMany?<T extends ValueType>(entries: Map<string, DataModel<T>>): Promise<void>;
+
+	/**
+	 * Optional. Removes the entries of the given keys at once and resolves with the keys that were stored.
+	 * Otherwise the batch methods of `HybridWebCache` call `unset` for each key.
+	 */
+	unsetMany?(keys: string[]): Promise<string[]>;
+
+	/**
+	 * Optional. Synchronous version of `unsetMany`, returning the keys that were stored.
+	 * Otherwise the synchronous methods of `HybridWebCache` call `unsetSync` for each key.
+	 */
+	unsetManySync?(keys: string[]): string[];
+
+	/**
+	 * Optional. Applies the writes and the removals all together or not at all (e.g. in a single IndexedDB transaction).
+	 * Storages that synchronize tabs should send a single message for the whole commit; otherwise
+	 * `HybridWebCache.transaction` writes them in batches and restores the previous entries when one fails.
+	 */
+	commit?<T extends ValueType>(writes: Map<string, DataModel<T>>, removals: string[]): Promise<void>;
+
+	/**
+	 * Optional. Resolves the keys whose `expiresAt` is reached at `now`, at most `limit` of them.
+	 * Storages that can query expirations without reading every entry (e.g. through an index)
+	 * should implement it; otherwise `HybridWebCache.purgeExpired` scans `getAll()`.
+	 */
+	expiredKeys?(now: number, limit?: number): Promise<string[]>;
+
+	/**
+	 * Optional. Resolves the keys whose `tags` include the given tag.
+	 * Storages that can query tags without reading every entry (e.g. through a multi-entry index)
+	 * should implement it; otherwise `HybridWebCache.invalidateTag` and `getByTag` scan `getAll()`.
+	 */
+	taggedKeys?(tag: string): Promise<string[]>;
+
+	/**
+	 * Optional. Resolves the keys starting with the given prefix, every key when it is empty.
+	 * Storages that can query key ranges without reading every entry (e.g. IndexedDB) should implement it;
+	 * otherwise `HybridWebCache.find` and `unsetMatching` scan `getAll()`.
+	 */
+	prefixedKeys?(prefix: string): Promise<string[]>;
+
+	/**
+	 * Optional. Resolves a page of at most `limit` entries in ascending key order, after the `after` key and
+	 * starting with `prefix` when given. Storages that can read pages without loading every entry (e.g. through
+	 * an IndexedDB key range) should implement it; otherwise `HybridWebCache.scan` pages through `getAll()`.
+	 */
+	scan?<T extends ValueType>(options: ScanOptions & { limit: number }): Promise<StoragePage<T>>;
+
+	/**
+	 * Optional. Registers a listener for the changes made by other tabs, once applied to the memory cache.
+	 * Storages that synchronize tabs should implement it so `HybridWebCache` can notify its subscribers.
+	 * Returns a function that removes the listener.
+	 */
+	onRemoteChange?(listener: (change: StorageChange) => void): () => void;
+
+	/** The number of stored entries. */
 	get length(): number;
+	/** The number of bytes used by the stored keys and values. */
 	get bytes(): number;
+	/** The engine implemented by the storage, `StorageEngine.Custom` for user-supplied storages. */
 	get type(): StorageEngine;
 }
+
+/**
+ * `StorageChange` describes a change made by another tab, as broadcast by the storages that synchronize tabs:
+ * an entry stored (`sync`), an entry removed (`unset`) or every entry removed (`clear`).
+ *
+ * @category Storage
+ */
+export type StorageChange = { action: "sync" | "unset" | "clear"; key?: string; value?: DataModel<ValueType> };
+
+/**
+ * `StoragePage` is a page of entries read by `StorageBase.scan`, with the key to read the next page after, if any.
+ *
+ * @category Storage
+ */
+export type StoragePage<T extends ValueType> = { entries: Map<string, DataModel<T>>; next?: string };
+
+/**
+ * `StorageCreator` is a factory that builds a {@link StorageBase} for a cache.
+ *
+ * @param baseName - The base name of the cache requesting the storage.
+ * @param storeName - Optional store name, used by engines that support several stores per base.
+ * @example
+ * ```ts
+ * StorageFactory.register('electron', (baseName) => new ElectronStoreStrategy(baseName));
+ *
+ * const cache = new HybridWebCache('myApp', { storage: 'electron' });
+ * ```
+ *
+ * @category Storage
+ */
+export type StorageCreator = (baseName: string, storeName?: string) => StorageBase;
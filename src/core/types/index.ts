@@ -1,2 +1,3 @@
+export * from "./EvictionPolicy";
 export * from "./StorageBase";
 export * from "./types";
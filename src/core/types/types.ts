@@ -1,3 +1,6 @@
+import type { EvictionPolicy } from "./EvictionPolicy";
+import type { StorageBase, StorageCreator } from "./StorageBase";
+
 /**
  * Enum representing the different storage engines that can be used.
  *
@@ -25,6 +28,25 @@ export enum StorageEngine {
 	 * Uses in-memory storage for caching, synchronization only with the instance itself.
 	 */
 	Memory = 4,
+	/**
+	 * Uses the browser's Cache API (`caches`) for caching, with synchronization between tabs via `BroadcastChannel`.
+	 */
+	CacheStorage = 5,
+	/**
+	 * Uses the Origin Private File System (OPFS), one file per key, suited for large values.
+	 * Synchronization between tabs via `BroadcastChannel`.
+	 */
+	OPFS = 6,
+	/**
+	 * A user-supplied storage implementing {@link StorageBase}, provided in `Options.storage`
+	 * or registered with `StorageFactory.register`.
+	 */
+	Custom = 7,
+	/**
+	 * Routes each value by size: small values to local storage, for synchronous access, and values
+	 * above `Options.sizeThreshold` bytes to IndexedDB. Synchronization between tabs via `BroadcastChannel`.
+	 */
+	Hybrid = 8,
 }
 
 /**
@@ -33,6 +55,10 @@ export enum StorageEngine {
  * @template T - The type of the value stored.
  * @property {T} value - The value stored in the cache.
  * @property {number} expiresAt - The timestamp in milliseconds when the value expires.
+ * @property {number} ttl - With sliding expiration, the original TTL in milliseconds by which
+ * `expiresAt` is pushed forward on each read. Absent otherwise.
+ * @property {string[]} tags - The tags given to `set`, by which the entry is found by `getByTag` and
+ * removed by `invalidateTag`. Absent when untagged.
  *
  * @category Model
  * @internal
@@ -41,6 +67,8 @@ export enum StorageEngine {
 export interface DataModel<T> {
 	value: T;
 	expiresAt: number;
+	ttl?: number;
+	tags?: string[];
 }
 
 /**
@@ -51,11 +79,14 @@ export interface DataModel<T> {
  * @property {T} value - The value stored in the cache.
  * @property {number} expiresAt - The timestamp in milliseconds when the value expires.
  * @property {boolean} isExpired - Whether the value has expired.
+ * @property {boolean} isStale - Set when an expired value is returned while a registered loader refreshes it
+ * in the background (see `Options.staleWhileRevalidate`).
  *
  * @category Model
  */
 export interface DataGetModel<T> extends DataModel<T> {
 	isExpired: boolean;
+	isStale?: boolean;
 }
 
 /**
@@ -131,12 +162,342 @@ export type RecordType<T extends ValueType> = Record<string, T>;
  */
 export type TTL = number | { seconds?: number; minutes?: number; hours?: number; days?: number };
 
+/**
+ * `SetOptions` may be passed to `set` instead of a TTL, to tag the stored entry.
+ *
+ * @property {Partial<TTL>} ttl - The time to live of the value. Defaults to the instance's TTL.
+ * @property {boolean} sliding - Whether each successful read pushes the expiration forward by `ttl`.
+ * Defaults to the instance's `slidingExpiration`.
+ * @property {string[]} tags - The tags of the entry, replacing its previous ones. Entries keep their tags
+ * when rewritten without `tags`; an empty array removes them.
+ *
+ * @example
+ * ```ts
+ * await cache.set('report-2024', report, { ttl: { hours: 1 }, tags: ['user:42', 'reports'] });
+ * await cache.invalidateTag('user:42');
+ * ```
+ *
+ * @category Types
+ */
+export type SetOptions = {
+	ttl?: Partial<TTL>;
+	sliding?: boolean;
+	tags?: string[];
+};
+
+/**
+ * `KeyPattern` selects keys for `find` and `unsetMatching`. A key matches when it meets every given criterion.
+ *
+ * @property {string} prefix - The start of the keys, e.g. `report:`. With IndexedDB, the keys are found through a key range.
+ * @property {string} glob - A glob the whole key matches, where `*` stands for any characters and `?` for one, e.g. `report:*:2024`.
+ * @property {RegExp} regex - A regular expression the key matches.
+ *
+ * @example
+ * ```ts
+ * await cache.find({ prefix: 'report:' });
+ * await cache.unsetMatching({ glob: 'report:*', regex: /2023$/ });
+ * ```
+ *
+ * @category Types
+ */
+export type KeyPattern = {
+	prefix?: string;
+	glob?: string;
+	regex?: RegExp;
+};
+
+/**
+ * `ScanOptions` selects a page of entries for `scan`, in ascending key order.
+ *
+ * @property {number} limit - The maximum number of entries of the page. Defaults to `100`.
+ * @property {string} after - Starts after this key, usually the `next` key of the previous page.
+ * @property {string} prefix - Only the keys starting with this prefix.
+ *
+ * @category Types
+ */
+export type ScanOptions = {
+	limit?: number;
+	after?: string;
+	prefix?: string;
+};
+
+/**
+ * `ScanPage` is a page of entries returned by `scan`.
+ *
+ * @template T - The type of the values.
+ * @property {Map<string, DataGetModel<T>>} entries - The entries of the page, by key, in ascending key order.
+ * @property {string} next - The key to pass as `after` to read the next page; absent on the last page.
+ *
+ * @category Types
+ */
+export type ScanPage<T> = {
+	entries: Map<string, DataGetModel<T>>;
+	next?: string;
+};
+
+/**
+ * Capacity limits of a storage tier. A limit of `0` or `undefined` means unbounded.
+ *
+ * @property {number} maxEntries - The maximum number of keys.
+ * @property {number} maxBytes - The maximum number of bytes used by keys and values.
+ *
+ * @category Types
+ */
+export type CapacityLimits = {
+	maxEntries?: number;
+	maxBytes?: number;
+};
+
+/**
+ * How writes reach the persistent tier of a tiered cache.
+ *
+ * - `write-through`: every write is persisted immediately in both tiers.
+ * - `write-back`: writes land in memory and are persisted in the background, after `flushDelay`,
+ *   when evicted from memory, or when `flush()` is called.
+ *
+ * @category Types
+ */
+export type WritePolicy = "write-through" | "write-back";
+
+/**
+ * `TierOptions` configures a two-tier cache: a bounded memory L1 in front of the persistent L2
+ * selected by `Options.storage`. Reads that miss L1 are served by L2 and promoted to L1.
+ *
+ * @property {CapacityLimits} l1 - Limits of the memory tier, where the least recently used keys are evicted.
+ * @property {CapacityLimits} l2 - Limits of the persistent tier, where the least recently used keys are evicted.
+ * @property {WritePolicy} writePolicy - How writes reach L2. Defaults to `write-through`.
+ * @property {number} flushDelay - Milliseconds before pending `write-back` writes are persisted. Defaults to `1000`.
+ *
+ * @example
+ * ```ts
+ * const cache = new HybridWebCache("CacheDB", {
+ * 	storage: StorageEngine.IndexedDB,
+ * 	tiered: { l1: { maxEntries: 100 }, l2: { maxBytes: 50 * 1024 * 1024 }, writePolicy: "write-back" },
+ * });
+ * ```
+ * @category Types
+ */
+export type TierOptions = {
+	l1?: CapacityLimits;
+	l2?: CapacityLimits;
+	writePolicy?: WritePolicy;
+	flushDelay?: number;
+};
+
+/**
+ * Built-in eviction policies, used when `maxEntries` or `maxBytes` is exceeded.
+ *
+ * - `lru`: evicts the least recently used keys first.
+ * - `lfu`: evicts the least frequently used keys first.
+ * - `fifo`: evicts the oldest keys first.
+ * - `ttl`: evicts the keys closest to expiring first.
+ *
+ * @category Types
+ */
+export type EvictionPolicyName = "lru" | "lfu" | "fifo" | "ttl";
+
+/**
+ * `QuotaOptions` configures how a write that exceeds the storage quota is recovered.
+ * Each step frees some room and retries the write; when every step is exhausted,
+ * the write fails with a `QuotaExceededError`.
+ *
+ * @property {boolean} evictExpired - First, evict every expired entry at once. Defaults to `true`.
+ * @property {boolean} evictByPolicy - Then, evict entries one at a time in the order of `evictionPolicy`. Defaults to `true`.
+ *
+ * @category Types
+ */
+export type QuotaOptions = {
+	evictExpired?: boolean;
+	evictByPolicy?: boolean;
+};
+
+/**
+ * `LeaderElectionOptions` configures the election of the tab that performs the background work.
+ *
+ * @property {number} heartbeatInterval - Milliseconds between two heartbeats of the leader. Defaults to `1000`.
+ * @property {number} timeout - Milliseconds without a heartbeat after which the leader is considered gone and
+ * another tab takes over. Defaults to `3000`.
+ *
+ * @category Types
+ */
+export type LeaderElectionOptions = {
+	heartbeatInterval?: number;
+	timeout?: number;
+};
+
+/**
+ * `IndexedDBOptions` configures how much of an IndexedDB store is kept in memory.
+ *
+ * By default the whole store is loaded into memory by `init()`, so every synchronous method sees every entry.
+ * In lazy mode, nothing is loaded upfront: the memory mirror only holds the entries recently read or written,
+ * at most `maxResident` of them, and large stores are read page by page with `scan`. The synchronous methods
+ * (`getSync`, `hasSync`, `getAllSync`, `length`, `bytes`), and therefore `maxEntries`/`maxBytes`, then only cover
+ * the resident entries, while the asynchronous ones read through to IndexedDB.
+ *
+ * @property {boolean} lazy - Loads entries on demand instead of mirroring the whole store. Defaults to `false`.
+ * @property {number} maxResident - In lazy mode, the maximum number of entries kept in memory, the least recently
+ * used being dropped from memory (not from IndexedDB) first; `0` keeps none. Defaults to `1000`.
+ *
+ * @category Types
+ */
+export type IndexedDBOptions = {
+	lazy?: boolean;
+	maxResident?: number;
+};
+
+/**
+ * `SweeperOptions` configures the background sweeper that purges expired entries.
+ *
+ * @property {boolean} enabled - Starts the sweeper with the cache. Defaults to `true`; use `startSweeper()` otherwise.
+ * @property {number} interval - Milliseconds between two sweeps. Defaults to `60000` (1 minute).
+ * @property {number} batchSize - Maximum number of expired entries removed by each sweep. Defaults to `100`.
+ *
+ * @category Types
+ */
+export type SweeperOptions = {
+	enabled?: boolean;
+	interval?: number;
+	batchSize?: number;
+};
+
+/**
+ * `CacheEventType` names the changes reported by `HybridWebCache.on`:
+ * - `set`: an entry was stored.
+ * - `unset`: a keyPath or a whole entry was removed.
+ * - `clear`: every entry was removed.
+ * - `expire`: an expired entry was removed, when read or by `purgeExpired`.
+ * - `evict`: an entry was evicted to respect `maxEntries`, `maxBytes` or the storage quota.
+ *
+ * Changes made by other tabs are reported as `set`, `unset` or `clear`.
+ *
+ * @category Types
+ */
+export type CacheEventType = "set" | "unset" | "clear" | "expire" | "evict";
+
+/**
+ * Interface representing a change of the cache, made by this instance or by another tab.
+ *
+ * @property {CacheEventType} type - The kind of change.
+ * @property {string} key - The primary key of the changed entry; `undefined` for `clear`.
+ * @property {KeyPath} keyPath - The keyPath passed to the method that made the change; `undefined` for
+ * the changes made by other tabs, by evictions and by `purgeExpired`.
+ * @property {DataModel<ValueType>} data - The entry as stored after the change, when it still exists:
+ * after `set`, or after `unset` of a nested keyPath.
+ * @property {boolean} remote - Whether the change was made by another tab.
+ *
+ * @category Model
+ */
+export interface CacheEvent {
+	type: CacheEventType;
+	key?: string;
+	keyPath?: KeyPath;
+	data?: DataModel<ValueType>;
+	remote: boolean;
+}
+
+/**
+ * An observer of the values emitted by `HybridWebCache.watch`, compatible with the Observable proposal and RxJS.
+ *
+ * @template T - The type of the emitted values.
+ * @property next - Called with each value.
+ * @property error - Part of the Observable contract; never called by the cache.
+ * @property complete - Part of the Observable contract; never called by the cache.
+ *
+ * @category Types
+ */
+export type WatchObserver<T> = {
+	next?: (value: T) => void;
+	error?: (error: unknown) => void;
+	complete?: () => void;
+};
+
+/**
+ * The subscription returned by `CacheWatcher.subscribe`.
+ *
+ * @property unsubscribe - Stops the notifications.
+ * @property closed - Whether `unsubscribe` was called.
+ *
+ * @category Types
+ */
+export type WatchSubscription = {
+	unsubscribe: () => void;
+	readonly closed: boolean;
+};
+
+/**
+ * A function returning the value to cache when a key is missing or expired.
+ *
+ * @category Types
+ */
+export type Loader<T extends ValueType> = () => T | Promise<T>;
+
+/**
+ * `WrapOptions` configures a function memoized with `HybridWebCache.wrap`.
+ *
+ * @template A - The arguments of the memoized function.
+ * @property {(...args: A) => KeyPath} key - Builds the cache key of a call. Defaults to the function name
+ * followed by its JSON-serialized arguments, e.g. `fetchUser([42])`.
+ * @property {Partial<TTL>} ttl - The time to live of each result. Defaults to the instance's TTL.
+ * @property {string[]} tags - The tags of each result, e.g. to drop them all with `invalidateTag`.
+ *
+ * @category Types
+ */
+export type WrapOptions<A extends unknown[]> = {
+	key?: (...args: A) => KeyPath;
+	ttl?: Partial<TTL>;
+	tags?: string[];
+};
+
+/**
+ * `StorageFallback` describes a switch from one storage engine to the next one of the fallback chain.
+ *
+ * @property {StorageEngine} from - The engine that was not available or started failing.
+ * @property {StorageEngine} to - The engine tried next.
+ * @property {string} reason - The error that caused the fallback.
+ *
+ * @category Types
+ */
+export type StorageFallback = {
+	from: StorageEngine;
+	to: StorageEngine;
+	reason: string;
+};
+
 /**
  * `Options` types contain all the configuration options that can be set in the constructor
  *
- * @property {StorageEngine} storage - The storage engine to use.
+ * @property {StorageEngine | string | StorageBase | StorageCreator} storage - The storage engine to use:
+ * a built-in {@link StorageEngine}, the name of a storage registered with `StorageFactory.register`,
+ * a {@link StorageBase} instance or a {@link StorageCreator}.
  * @property {Partial<TTL>} ttl - The time to live for data in the cache.
  * @property {boolean} removeExpired - Automatically removes expired items when attempting to access them.
+ * @property {boolean} slidingExpiration - Pushes `expiresAt` forward by the original TTL on each successful read,
+ * so entries only expire after a period of inactivity. Can be overridden per `set`. Defaults to `false`.
+ * @property {boolean} staleWhileRevalidate - Reading an expired value that has a loader registered with `registerLoader`
+ * returns it at once, flagged as `isStale`, instead of removing it, while the loader refreshes it in the background.
+ * Defaults to `false`.
+ * @property {(keyPath: KeyPath, value: ValueType) => void} onRevalidate - Called with each value refreshed in the background.
+ * @property {number} maxEntries - Maximum number of keys kept; beyond it keys are evicted according to `evictionPolicy`.
+ * @property {number} maxBytes - Maximum size in bytes of the cache; beyond it keys are evicted according to `evictionPolicy`.
+ * @property {EvictionPolicyName | EvictionPolicy} evictionPolicy - Which keys are evicted first when `maxEntries`
+ * or `maxBytes` is exceeded: a built-in policy name or your own {@link EvictionPolicy}. Defaults to `lru`.
+ * @property {(keys: string[]) => void} onEvict - Called with the keys evicted to respect `maxEntries`, `maxBytes`, the `tiered.l2` limits
+ * or the storage quota.
+ * @property {QuotaOptions} quota - How a write that exceeds the storage quota is recovered before failing with a `QuotaExceededError`.
+ * @property {SweeperOptions} sweeper - Optional background sweeper that periodically purges expired entries.
+ * @property {boolean | LeaderElectionOptions} leaderElection - Elects one tab, among those sharing the same base name,
+ * to perform the background work: sweeps and loader refreshes. The other tabs hand their refreshes over to it,
+ * and another tab takes over when it closes. Defaults to `false`, every tab doing its own work.
+ * @property {TierOptions} tiered - Optional two-tier mode, with a bounded memory L1 in front of `storage` as L2.
+ * L2 is then read on demand: IndexedDB is opened in lazy mode without resident entries, whatever `indexedDB` says,
+ * so `maxEntries` and `maxBytes` only cover L1; bound L2 with `tiered.l2` instead.
+ * @property {StorageEngine[]} fallbackChain - With `StorageEngine.Auto`, the engines to try in order of preference.
+ * The cache uses the first available one and falls back to the next one whenever the engine in use becomes unavailable.
+ * `Memory` is always the last resort. Defaults to `[LocalStorage, IndexedDB, CacheStorage, SessionStorage, Memory]`.
+ * @property {number} sizeThreshold - With `StorageEngine.Hybrid`, the size in bytes above which values are stored
+ * in IndexedDB instead of local storage. Defaults to `16384` (16 KB).
+ * @property {IndexedDBOptions} indexedDB - How much of the IndexedDB store is kept in memory, e.g. `{ lazy: true }`
+ * for stores too large to be loaded at once.
  *
  * @default
  * ```ts
@@ -150,7 +511,21 @@ export type TTL = number | { seconds?: number; minutes?: number; hours?: number;
  * @category Types
  */
 export type Options = {
-	storage: StorageEngine;
+	storage: StorageEngine | string | StorageBase | StorageCreator;
 	ttl: Partial<TTL>;
 	removeExpired: boolean;
+	slidingExpiration?: boolean;
+	staleWhileRevalidate?: boolean;
+	onRevalidate?: (keyPath: KeyPath, value: ValueType) => void;
+	maxEntries?: number;
+	maxBytes?: number;
+	evictionPolicy?: EvictionPolicyName | EvictionPolicy;
+	onEvict?: (keys: string[]) => void;
+	quota?: QuotaOptions;
+	sweeper?: SweeperOptions;
+	leaderElection?: boolean | LeaderElectionOptions;
+	tiered?: TierOptions;
+	sizeThreshold?: number;
+	indexedDB?: IndexedDBOptions;
+	fallbackChain?: StorageEngine[];
 };
@@ -0,0 +1,60 @@
+import { Utils } from "./Utils";
+
+/**
+ * Keeps the size in bytes of every entry of a storage and their running total,
+ * so reading `bytes` never has to walk and encode the whole storage again.
+ *
+ * @internal
+ */
+export class EntrySizes {
+	private sizes: Map<string, number> = new Map();
+	private total = 0;
+
+	/** Records the size of an entry, as computed by `Utils.calculateEntryBytes`. */
+	track(key: string, data: unknown): void {
+		this.set(key, Utils.calculateEntryBytes(key, data));
+	}
+
+	/** Records the size of an entry already known in bytes. */
+	set(key: string, size: number): void {
+		this.delete(key);
+		this.sizes.set(key, size);
+		this.total += size;
+	}
+
+	get(key: string): number {
+		return this.sizes.get(key) ?? 0;
+	}
+
+	has(key: string): boolean {
+		return this.sizes.has(key);
+	}
+
+	/** Moves a tracked entry last, so `keys` lists the entries from the least to the most recently touched. */
+	touch(key: string): void {
+		if (this.sizes.has(key)) this.set(key, this.get(key));
+	}
+
+	/** The tracked keys, in the order they were last recorded or touched. */
+	keys(): IterableIterator<string> {
+		return this.sizes.keys();
+	}
+
+	delete(key: string): void {
+		this.total -= this.sizes.get(key) ?? 0;
+		this.sizes.delete(key);
+	}
+
+	clear(): void {
+		this.sizes.clear();
+		this.total = 0;
+	}
+
+	get length(): number {
+		return this.sizes.size;
+	}
+
+	get bytes(): number {
+		return this.total;
+	}
+}
@@ -1,4 +1,4 @@
-import type { KeyPath, TTL } from "../types";
+import type { DataModel, KeyPath, KeyPattern, ScanOptions, StorageBase, StoragePage, TTL, ValueType } from "../types";
 
 /**
  * Class Helper
@@ -71,6 +71,283 @@ export const Utils = {
 		return expiresAt > 0 ? expiresAt <= Date.now() : false;
 	},
 
+	/**
+	 * Finds the keys of the entries whose `expiresAt` is reached at `now`.
+	 *
+	 * @param entries - The entries to look into.
+	 * @param now - The reference timestamp.
+	 * @param limit - The maximum number of keys to return, unlimited when omitted or not positive.
+	 * @returns The expired keys, in the order of the entries.
+	 */
+	findExpiredKeys(entries: Map<string, DataModel<ValueType>> | null, now: number, limit = 0): string[] {
+		const keys: string[] = [];
+
+		for (const [key, data] of entries ?? []) {
+			if (limit > 0 && keys.length >= limit) break;
+			if (data.expiresAt > 0 && data.expiresAt <= now) keys.push(key);
+		}
+		return keys;
+	},
+
+	/**
+	 * Resolves the expired keys of a storage, through its `expiredKeys` when implemented,
+	 * or by scanning all of its entries otherwise.
+	 *
+	 * @param storage - The storage to look into.
+	 * @param now - The reference timestamp.
+	 * @param limit - The maximum number of keys to return, unlimited when omitted or not positive.
+	 * @returns The expired keys.
+	 */
+	async expiredKeysOf(storage: StorageBase, now: number, limit = 0): Promise<string[]> {
+		if (storage.expiredKeys) return storage.expiredKeys(now, limit);
+		return this.findExpiredKeys(await storage.getAll(), now, limit);
+	},
+
+	/**
+	 * Finds the keys of the entries tagged with the given tag.
+	 *
+	 * @param entries - The entries to look into.
+	 * @param tag - The tag to look for.
+	 * @returns The tagged keys, in the order of the entries.
+	 */
+	findTaggedKeys(entries: Map<string, DataModel<ValueType>> | null, tag: string): string[] {
+		const keys: string[] = [];
+		for (const [key, data] of entries ?? []) {
+			if (data.tags?.includes(tag)) keys.push(key);
+		}
+		return keys;
+	},
+
+	/**
+	 * Resolves the keys of a storage tagged with the given tag, through its `taggedKeys` when implemented,
+	 * or by scanning all of its entries otherwise.
+	 *
+	 * @param storage - The storage to look into.
+	 * @param tag - The tag to look for.
+	 * @returns The tagged keys.
+	 */
+	async taggedKeysOf(storage: StorageBase, tag: string): Promise<string[]> {
+		if (storage.taggedKeys) return storage.taggedKeys(tag);
+		return this.findTaggedKeys(await storage.getAll(), tag);
+	},
+
+	/**
+	 * Resolves the keys of a storage starting with the given prefix, through its `prefixedKeys` when implemented,
+	 * or by scanning all of its entries otherwise.
+	 *
+	 * @param storage - The storage to look into.
+	 * @param prefix - The prefix of the keys, every key when empty.
+	 * @returns The matching keys.
+	 */
+	async prefixedKeysOf(storage: StorageBase, prefix: string): Promise<string[]> {
+		if (storage.prefixedKeys) return storage.prefixedKeys(prefix);
+		return [...((await storage.getAll())?.keys() ?? [])].filter((key) => key.startsWith(prefix));
+	},
+
+	/**
+	 * Resolves the stored entries of the given keys, through the `getMany` of the storage when implemented,
+	 * or by reading each key otherwise.
+	 *
+	 * @param storage - The storage to read.
+	 * @param keys - The keys to read.
+	 * @returns The entries found, by key.
+	 */
+	async getManyOf<T extends ValueType>(storage: StorageBase, keys: string[]): Promise<Map<string, DataModel<T>>> {
+		if (keys.length === 0) return new Map();
+		if (storage.getMany) return storage.getMany<T>(keys);
+
+		const result = new Map<string, DataModel<T>>();
+		for (const key of new Set(keys)) {
+			const data = await storage.get<T>(key);
+			if (data) result.set(key, data);
+		}
+		return result;
+	},
+
+	/**
+	 * Writes the entries, through the `setMany` of the storage when implemented, or one at a time otherwise.
+	 *
+	 * @param storage - The storage to write.
+	 * @param entries - The entries to write, by key.
+	 */
+	async setManyOf<T extends ValueType>(storage: StorageBase, entries: Map<string, DataModel<T>>): Promise<void> {
+		if (entries.size === 0) return;
+		if (storage.setMany) return storage.setMany(entries);
+
+		for (const [key, data] of entries) {
+			await storage.set(key, data);
+		}
+	},
+
+	/**
+	 * Removes the entries of the given keys, through the `unsetMany` of the storage when implemented,
+	 * or one at a time otherwise.
+	 *
+	 * @param storage - The storage to remove the entries from.
+	 * @param keys - The keys to remove.
+	 * @returns The keys that were stored, and are now removed.
+	 */
+	async unsetManyOf(storage: StorageBase, keys: string[]): Promise<string[]> {
+		if (keys.length === 0) return [];
+		if (storage.unsetMany) return storage.unsetMany(keys);
+
+		const removed: string[] = [];
+		for (const key of new Set(keys)) {
+			// Loads the entry first, as storages only remove the keys held in their memory cache
+			if ((await storage.has(key)) && (await storage.unset(key))) removed.push(key);
+		}
+		return removed;
+	},
+
+	/**
+	 * Synchronous version of `unsetManyOf`, through the `unsetManySync` of the storage when implemented,
+	 * or one at a time otherwise.
+	 *
+	 * @param storage - The storage to remove the entries from.
+	 * @param keys - The keys to remove.
+	 * @returns The keys that were stored, and are now removed.
+	 */
+	unsetManySyncOf(storage: StorageBase, keys: string[]): string[] {
+		if (keys.length === 0) return [];
+		if (storage.unsetManySync) return storage.unsetManySync(keys);
+
+		return [...new Set(keys)].filter((key) => storage.unsetSync(key));
+	},
+
+	/**
+	 * Applies the writes and the removals all together or not at all, through the `commit` of the storage when
+	 * implemented. Otherwise they are written in batches, and the previous entries are restored when one fails.
+	 *
+	 * @param storage - The storage to write.
+	 * @param writes - The entries to write, by key.
+	 * @param removals - The keys to remove.
+	 */
+	async commitOf<T extends ValueType>(storage: StorageBase, writes: Map<string, DataModel<T>>, removals: string[]): Promise<void> {
+		if (writes.size === 0 && removals.length === 0) return;
+		if (storage.commit) return storage.commit(writes, removals);
+
+		const keys = [...writes.keys(), ...removals];
+		const previous = await this.getManyOf<T>(storage, keys);
+
+		try {
+			await this.setManyOf(storage, writes);
+			await this.unsetManyOf(storage, removals);
+		} catch (ex) {
+			// Restores the storage as it was: the new keys are removed, the previous entries written back
+			await this.unsetManyOf(
+				storage,
+				keys.filter((key) => !previous.has(key))
+			);
+			await this.setManyOf(storage, previous);
+			throw ex;
+		}
+	},
+
+	/**
+	 * Reads a page of entries, in ascending key order, from entries held in memory.
+	 *
+	 * @param entries - The entries to page through.
+	 * @param options - The size of the page, the key it starts after and the prefix of its keys.
+	 * @returns The page, with the key to read the next page after when more entries follow.
+	 */
+	pageOf<T extends ValueType>(entries: Map<string, DataModel<T>> | null, { limit, after, prefix = "" }: ScanOptions & { limit: number }): StoragePage<T> {
+		const keys = [...(entries?.keys() ?? [])].filter((key) => key.startsWith(prefix) && (after === undefined || key > after)).sort();
+		const page = keys.slice(0, limit);
+
+		return {
+			entries: new Map(page.map((key) => [key, entries?.get(key) as DataModel<T>])),
+			next: keys.length > limit ? page[page.length - 1] : undefined,
+		};
+	},
+
+	/**
+	 * Merges pages read from several storages into one page of at most `limit` entries, in ascending key order.
+	 * For a key found in several pages, the entry of the last page wins.
+	 *
+	 * @param limit - The maximum number of entries of the merged page.
+	 * @param pages - The pages to merge.
+	 * @returns The merged page, with the key to read the next page after when any page has more entries.
+	 */
+	mergePages<T extends ValueType>(limit: number, ...pages: StoragePage<T>[]): StoragePage<T> {
+		const merged = new Map<string, DataModel<T>>();
+		pages.forEach((page) => {
+			page.entries.forEach((data, key) => {
+				merged.set(key, data);
+			});
+		});
+
+		const keys = [...merged.keys()].sort();
+		const page = keys.slice(0, limit);
+		const more = keys.length > limit || pages.some((source) => source.next !== undefined);
+
+		return {
+			entries: new Map(page.map((key) => [key, merged.get(key) as DataModel<T>])),
+			next: more && page.length > 0 ? page[page.length - 1] : undefined,
+		};
+	},
+
+	/**
+	 * Resolves a page of entries of a storage, through its `scan` when implemented,
+	 * or by paging through all of its entries otherwise.
+	 *
+	 * @param storage - The storage to read.
+	 * @param options - The size of the page, the key it starts after and the prefix of its keys.
+	 * @returns The page of entries.
+	 */
+	async scanOf<T extends ValueType>(storage: StorageBase, options: ScanOptions & { limit: number }): Promise<StoragePage<T>> {
+		if (storage.scan) return storage.scan<T>(options);
+		return this.pageOf(await storage.getAll<T>(), options);
+	},
+
+	/**
+	 * Converts a glob into an anchored regular expression: `*` matches any characters, `?` a single one,
+	 * and every other character matches itself.
+	 *
+	 * @param glob - The glob to convert, e.g. `report:*`.
+	 * @returns The equivalent regular expression.
+	 */
+	globToRegExp(glob: string): RegExp {
+		const source = glob
+			.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+			.replace(/\*/g, ".*")
+			.replace(/\?/g, ".");
+		return new RegExp(`^${source}$`);
+	},
+
+	/**
+	 * Returns the prefix shared by every key matching the pattern: its `prefix`, or the part of its `glob`
+	 * before the first wildcard when longer.
+	 *
+	 * @param pattern - The pattern of the keys.
+	 * @returns The literal prefix, empty when the keys may start with anything.
+	 */
+	literalPrefix(pattern: KeyPattern): string {
+		const prefix = pattern.prefix ?? "";
+		const globPrefix = pattern.glob?.split(/[*?]/)[0] ?? "";
+
+		return globPrefix.length > prefix.length ? globPrefix : prefix;
+	},
+
+	/**
+	 * Checks whether a key matches every criterion of the pattern.
+	 *
+	 * @param key - The key to check.
+	 * @param pattern - The pattern of the keys.
+	 * @returns True if the key starts with `prefix`, matches `glob` and matches `regex`, when given.
+	 */
+	matchesPattern(key: string, pattern: KeyPattern): boolean {
+		if (pattern.prefix !== undefined && !key.startsWith(pattern.prefix)) return false;
+		if (pattern.glob !== undefined && !this.globToRegExp(pattern.glob).test(key)) return false;
+
+		if (pattern.regex) {
+			// A global or sticky regex keeps its position between calls
+			pattern.regex.lastIndex = 0;
+			if (!pattern.regex.test(key)) return false;
+		}
+
+		return true;
+	},
+
 	/**
 	 * Checks if the sessionStorage is available.
 	 *
@@ -125,6 +402,84 @@ export const Utils = {
 		}
 	},
 
+	/**
+	 * Checks if the Cache API (CacheStorage) is available.
+	 *
+	 * This method simply checks if `caches` is available in the window object.
+	 * If the Cache API is available, it returns true. Otherwise, it returns false.
+	 *
+	 * @returns true if the Cache API is available, false otherwise.
+	 */
+	isCacheStorageAvailable(): boolean {
+		try {
+			return "caches" in window;
+		} catch {
+			return false;
+		}
+	},
+
+	/**
+	 * Checks if the Origin Private File System (OPFS) is available.
+	 *
+	 * This method checks if `navigator.storage.getDirectory` is available.
+	 * If the OPFS is available, it returns true. Otherwise, it returns false.
+	 *
+	 * @returns true if the OPFS is available, false otherwise.
+	 */
+	isOPFSAvailable(): boolean {
+		try {
+			return typeof navigator.storage?.getDirectory === "function";
+		} catch {
+			return false;
+		}
+	},
+
+	/**
+	 * Checks if an error thrown by a browser storage means its quota is exhausted.
+	 *
+	 * Browsers report it as a `DOMException` named `QuotaExceededError` (code 22),
+	 * or `NS_ERROR_DOM_QUOTA_REACHED` (code 1014) in older Firefox versions.
+	 *
+	 * @param error - The error to check.
+	 * @returns true if the error is a quota error, false otherwise.
+	 */
+	isQuotaExceededError(error: unknown): boolean {
+		if (typeof error !== "object" || error === null) return false;
+
+		const { name, code } = error as { name?: string; code?: number };
+		return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED" || code === 22 || code === 1014;
+	},
+
+	/**
+	 * Checks if an error thrown by a browser storage means the engine cannot be used anymore,
+	 * rather than a single operation failing.
+	 *
+	 * Browsers report it as a `DOMException` named `SecurityError` (storage denied, e.g. in private mode or
+	 * in a sandboxed frame), `InvalidStateError` (database closed or deleted), `UnknownError` (broken backing store),
+	 * `NotAllowedError` (permission refused) or `NotSupportedError`.
+	 *
+	 * @param error - The error to check.
+	 * @returns true if the engine is unavailable, false otherwise.
+	 */
+	isStorageUnavailableError(error: unknown): boolean {
+		if (typeof error !== "object" || error === null) return false;
+
+		const { name } = error as { name?: string };
+		return name === "SecurityError" || name === "InvalidStateError" || name === "UnknownError" || name === "NotAllowedError" || name === "NotSupportedError";
+	},
+
+	/**
+	 * Calculates the number of bytes used by a key and its serialized data.
+	 *
+	 * @param key - The key of the entry.
+	 * @param data - The data stored under the key.
+	 * @returns The encoded length of the key plus the encoded length of the data as JSON.
+	 */
+	calculateEntryBytes(key: string, data: unknown): number {
+		const encoder = new TextEncoder();
+		return encoder.encode(key).length + encoder.encode(JSON.stringify(data)).length;
+	},
+
 	/**
 	 * Calculates the size of the given bytes as a human-readable string.
 	 *
@@ -1 +1,2 @@
+export * from "./EntrySizes";
 export * from "./Utils";
@@ -1,2 +1,8 @@
+export * from "./core/CacheTransaction";
+export * from "./core/CacheWatcher";
+export * from "./core/errors";
+export { FIFOPolicy, LFUPolicy, LRUPolicy, TTLPolicy } from "./core/eviction";
 export * from "./core/HybridWebCache";
+export * from "./core/LeaderElection";
+export * from "./core/StorageFactory";
 export * from "./core/types";
@@ -0,0 +1,56 @@
+import { createContext, createElement, type ReactNode, useContext } from "react";
+import type { HybridWebCache } from "../core/HybridWebCache";
+
+/** @internal */
+const HybridWebCacheContext = createContext<HybridWebCache | null>(null);
+
+/**
+ * `HybridWebCacheProviderProps` are the props of {@link HybridWebCacheProvider}.
+ *
+ * @property {HybridWebCache} cache - The cache used by the hooks of the children.
+ * @property {ReactNode} children - The components using the cache.
+ *
+ * @category React
+ */
+export type HybridWebCacheProviderProps = {
+	cache: HybridWebCache;
+	children?: ReactNode;
+};
+
+/**
+ * Provides a {@link HybridWebCache} to the `useCacheValue` and `useCacheState` hooks of its children.
+ *
+ * With IndexedDB, initialize the cache (`await cache.init()`) before rendering, so the hooks read
+ * the stored values from the first render.
+ *
+ * @example
+ *
+ * ```ts
+ * const cache = new HybridWebCache('myApp', { storage: StorageEngine.LocalStorage });
+ *
+ * createRoot(container).render(createElement(HybridWebCacheProvider, { cache }, createElement(App)));
+ * ```
+ *
+ * @category React
+ */
+export function HybridWebCacheProvider({ cache, children }: HybridWebCacheProviderProps) {
+	return createElement(HybridWebCacheContext.Provider, { value: cache }, children);
+}
+
+/**
+ * Returns the {@link HybridWebCache} provided by the closest {@link HybridWebCacheProvider}.
+ *
+ * @returns The provided cache.
+ * @throws {Error} If the component is not rendered inside a `HybridWebCacheProvider`.
+ *
+ * @category React
+ */
+export function useHybridWebCache(): HybridWebCache {
+	const cache = useContext(HybridWebCacheContext);
+
+	if (!cache) {
+		throw new Error("useHybridWebCache must be used within a HybridWebCacheProvider.");
+	}
+
+	return cache;
+}
@@ -0,0 +1,3 @@
+export * from "./HybridWebCacheProvider";
+export * from "./useCacheState";
+export * from "./useCacheValue";
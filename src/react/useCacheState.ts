@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from "react";
+import type { KeyPath, TTL, ValueType } from "../core/types";
+import { useHybridWebCache } from "./HybridWebCacheProvider";
+import { useCacheValue } from "./useCacheValue";
+
+/**
+ * `CacheStateSetter` stores a new value, or the result of an updater called with the current value,
+ * and resolves once it is stored.
+ *
+ * @category React
+ */
+export type CacheStateSetter<T extends ValueType> = (value: T | ((previous: T) => T)) => Promise<void>;
+
+/**
+ * Like `useState`, but the state lives at the given keyPath of the provided cache: the setter
+ * writes through `set`, and every component using the keyPath, in this tab or another one,
+ * re-renders with the new value.
+ *
+ * @template T - The type of the value.
+ * @param {@link KeyPath} keyPath - The keyPath of the value.
+ * @param {T} initial - The value returned while nothing is stored at the keyPath.
+ * @param {@link TTL} ttl - Optional TTL of the stored values. Defaults to the cache's TTL.
+ * @returns The current value and its setter.
+ *
+ * @example
+ *
+ * ```ts
+ * function Counter() {
+ * 	const [count, setCount] = useCacheState('counter', 0);
+ * 	return createElement('button', { onClick: () => setCount((count) => count + 1) }, count);
+ * }
+ * ```
+ *
+ * @category React
+ */
+export function useCacheState<T extends ValueType>(keyPath: KeyPath, initial: T, ttl?: Partial<TTL>): [T, CacheStateSetter<T>] {
+	const cache = useHybridWebCache();
+	const value = useCacheValue<T>(keyPath);
+	// The keyPath and the TTL are compared by value, so new literals on each render keep the same setter
+	const id = JSON.stringify(keyPath);
+	const ttlId = JSON.stringify(ttl);
+	const stableKeyPath = useMemo<KeyPath>(() => JSON.parse(id), [id]);
+	const stableTtl = useMemo<Partial<TTL> | undefined>(() => (ttlId === undefined ? undefined : JSON.parse(ttlId)), [ttlId]);
+
+	const setValue = useCallback<CacheStateSetter<T>>(
+		(next) => {
+			// Updaters get the stored value rather than the rendered one, which may be outdated
+			const resolved = typeof next === "function" ? (next as (previous: T) => T)(cache.getSync<T>(stableKeyPath)?.value ?? initial) : next;
+			return cache.set(stableKeyPath, resolved, stableTtl);
+		},
+		[cache, stableKeyPath, stableTtl, initial]
+	);
+
+	return [value === undefined ? initial : value, setValue];
+}
@@ -0,0 +1,72 @@
+import { cloneDeep as _cloneDeep, isEqual as _isEqual } from "lodash";
+import { useMemo, useSyncExternalStore } from "react";
+import type { HybridWebCache } from "../core/HybridWebCache";
+import type { KeyPath, ValueType } from "../core/types";
+import { useHybridWebCache } from "./HybridWebCacheProvider";
+
+/** @internal */
+type CacheStore<T> = {
+	subscribe: (onChange: () => void) => () => void;
+	getSnapshot: () => T | undefined;
+};
+
+/**
+ * Adapts the value at a keyPath to `useSyncExternalStore`: the snapshot is read with `peekSync`,
+ * which has no side effects during renders, and only replaced when the value changes, so unchanged
+ * values keep the same reference.
+ */
+function createCacheStore<T extends ValueType>(cache: HybridWebCache, keyPath: KeyPath): CacheStore<T> {
+	const peek = () => {
+		const model = cache.peekSync<T>(keyPath);
+		return model?.isExpired ? undefined : model?.value;
+	};
+	let snapshot = peek();
+
+	return {
+		subscribe: (onChange) => {
+			const unsubscribe = cache.subscribe<T>(keyPath, (value) => {
+				snapshot = _cloneDeep(value);
+				onChange();
+			});
+
+			// Read once mounted, so an expired value is removed, and the changes made since the render are caught
+			const current = _cloneDeep(cache.getSync<T>(keyPath)?.value);
+			if (!_isEqual(current, snapshot)) {
+				snapshot = current;
+				onChange();
+			}
+
+			return unsubscribe;
+		},
+		getSnapshot: () => snapshot,
+	};
+}
+
+/**
+ * Returns the value at the given keyPath of the provided cache, and re-renders the component
+ * whenever it changes, locally or in another tab. Returns `undefined` while the value is missing.
+ *
+ * @template T - The type of the value.
+ * @param {@link KeyPath} keyPath - The keyPath of the value.
+ * @returns The current value.
+ *
+ * @example
+ *
+ * ```ts
+ * function Greeting() {
+ * 	const name = useCacheValue<string>('user.name');
+ * 	return `Hello ${name ?? 'stranger'}`;
+ * }
+ * ```
+ *
+ * @category React
+ */
+export function useCacheValue<T extends ValueType>(keyPath: KeyPath): T | undefined {
+	const cache = useHybridWebCache();
+	// The keyPath is compared by value, so a new array on each render keeps the same store
+	const id = JSON.stringify(keyPath);
+	const stableKeyPath = useMemo<KeyPath>(() => JSON.parse(id), [id]);
+	const store = useMemo(() => createCacheStore<T>(cache, stableKeyPath), [cache, stableKeyPath]);
+
+	return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
@@ -0,0 +1,57 @@
+import { cloneDeep as _cloneDeep } from "lodash";
+import { get, type Writable, writable } from "svelte/store";
+import type { HybridWebCache } from "../core/HybridWebCache";
+import type { KeyPath, TTL, ValueType } from "../core/types";
+
+/**
+ * Returns a writable Svelte store of the value at the given keyPath: its subscribers get the
+ * current value, then every change made locally or in another tab, and `undefined` once it is removed.
+ * `set` and `update` write through `HybridWebCache.set` (writing `undefined` removes the value);
+ * a write that fails restores the stored value.
+ *
+ * The store follows the cache only while it has subscribers.
+ *
+ * @template T - The type of the value.
+ * @param {HybridWebCache} cache - The cache holding the value.
+ * @param {@link KeyPath} keyPath - The keyPath of the value.
+ * @param {@link TTL} ttl - Optional TTL of the written values. Defaults to the cache's TTL.
+ * @returns The writable store of the value.
+ *
+ * @example
+ *
+ * ```ts
+ * const theme = cacheStore<string>(cache, 'settings.theme');
+ * theme.set('dark'); // stored, and seen by the other tabs
+ * ```
+ *
+ * @category Svelte
+ */
+export function cacheStore<T extends ValueType>(cache: HybridWebCache, keyPath: KeyPath, ttl?: Partial<TTL>): Writable<T | undefined> {
+	// Entries may be updated in place, so the store holds copies
+	const read = () => _cloneDeep(cache.getSync<T>(keyPath)?.value);
+	let pending = 0;
+
+	const store = writable<T | undefined>(read(), (set) => {
+		// The value may have changed while nobody was subscribed, unless it is still being written
+		if (pending === 0) set(read());
+		return cache.subscribe<T>(keyPath, (value) => set(_cloneDeep(value)));
+	});
+
+	const write = (value: T | undefined) => {
+		store.set(value);
+		pending++;
+
+		const stored = value === undefined ? cache.unset(keyPath) : cache.set(keyPath, value, ttl);
+		stored
+			.catch(() => store.set(read()))
+			.finally(() => {
+				pending--;
+			});
+	};
+
+	return {
+		subscribe: store.subscribe,
+		set: write,
+		update: (updater) => write(updater(get(store))),
+	};
+}
@@ -0,0 +1,109 @@
+import { cloneDeep as _cloneDeep } from "lodash";
+import { customRef, getCurrentScope, hasInjectionContext, type InjectionKey, inject, onScopeDispose, type Plugin, type Ref } from "vue";
+import type { HybridWebCache } from "../core/HybridWebCache";
+import type { KeyPath, TTL, ValueType } from "../core/types";
+
+/**
+ * The key under which `hybridWebCachePlugin` provides the cache to `useCache`.
+ *
+ * @category Vue
+ */
+export const HYBRID_WEBCACHE_KEY: InjectionKey<HybridWebCache> = Symbol("HybridWebCache");
+
+/**
+ * `UseCacheOptions` configures the ref returned by `useCache`.
+ *
+ * @property {HybridWebCache} cache - The cache holding the value. Defaults to the one provided by `hybridWebCachePlugin`.
+ * @property {Partial<TTL>} ttl - The time to live of the written values. Defaults to the cache's TTL.
+ *
+ * @category Vue
+ */
+export type UseCacheOptions = {
+	cache?: HybridWebCache;
+	ttl?: Partial<TTL>;
+};
+
+/**
+ * Returns a plugin providing the given cache to the `useCache` calls of the application.
+ *
+ * @param cache - The cache to provide.
+ * @returns The plugin to install with `app.use`.
+ *
+ * @example
+ *
+ * ```ts
+ * createApp(App).use(hybridWebCachePlugin(new HybridWebCache('myApp'))).mount('#app');
+ * ```
+ *
+ * @category Vue
+ */
+export function hybridWebCachePlugin(cache: HybridWebCache): Plugin {
+	return {
+		install: (app) => {
+			app.provide(HYBRID_WEBCACHE_KEY, cache);
+		},
+	};
+}
+
+/**
+ * Returns a ref of the value at the given keyPath: it is updated whenever the value changes,
+ * locally or in another tab, and holds `undefined` once removed. Assigning the ref writes through
+ * `set` (assigning `undefined` removes the value); a write that fails restores the stored value.
+ *
+ * Called within a component or an effect scope, the ref stops following the cache when the scope is disposed.
+ *
+ * @template T - The type of the value.
+ * @param {@link KeyPath} keyPath - The keyPath of the value.
+ * @param {@link UseCacheOptions} options - The cache to use, if not provided by `hybridWebCachePlugin`, and the TTL of the writes.
+ * @returns The ref of the value.
+ * @throws {Error} If no cache is given nor provided.
+ *
+ * @example
+ *
+ * ```ts
+ * const theme = useCache<string>('settings.theme');
+ * theme.value = 'dark'; // stored, and seen by the other tabs
+ * ```
+ *
+ * @category Vue
+ */
+export function useCache<T extends ValueType>(keyPath: KeyPath, options: UseCacheOptions = {}): Ref<T | undefined> {
+	const cache = options.cache ?? (hasInjectionContext() ? inject(HYBRID_WEBCACHE_KEY, undefined) : undefined);
+
+	if (!cache) {
+		throw new Error("useCache requires a cache: install hybridWebCachePlugin or pass options.cache.");
+	}
+
+	// Entries may be updated in place, so the ref holds copies
+	const read = () => _cloneDeep(cache.getSync<T>(keyPath)?.value);
+	let current = read();
+	let stop = () => {};
+
+	const value = customRef<T | undefined>((track, trigger) => {
+		stop = cache.subscribe<T>(keyPath, (next) => {
+			current = _cloneDeep(next);
+			trigger();
+		});
+
+		return {
+			get: () => {
+				track();
+				return current;
+			},
+			set: (next) => {
+				current = next;
+				trigger();
+
+				const write = next === undefined ? cache.unset(keyPath) : cache.set(keyPath, next, options.ttl);
+				write.catch(() => {
+					current = read();
+					trigger();
+				});
+			},
+		};
+	});
+
+	if (getCurrentScope()) onScopeDispose(() => stop());
+
+	return value;
+}
@@ -0,0 +1,164 @@
+// Compiles the partially compiled Angular packages just in time, as the Angular CLI would ahead of time
+import "@angular/compiler";
+import { HttpContext, type HttpEvent, HttpHeaders, HttpRequest, HttpResponse } from "@angular/common/http";
+import { APP_INITIALIZER, createEnvironmentInjector, type EnvironmentInjector, Injector, runInInjectionContext } from "@angular/core";
+import { firstValueFrom, type Observable, of } from "rxjs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { StorageEngine } from "../src";
+import {
+	CACHE_HTTP_RESPONSE,
+	HYBRID_WEBCACHE,
+	type HybridWebCacheConfig,
+	HybridWebCacheService,
+	hybridWebCacheInterceptor,
+	provideHybridWebCache,
+} from "../src/angular";
+
+describe("Angular integration", () => {
+	let injector: EnvironmentInjector | undefined;
+
+	const bootstrap = async (config: HybridWebCacheConfig = {}) => {
+		injector = createEnvironmentInjector([provideHybridWebCache({ storage: StorageEngine.Memory, ...config })], Injector.NULL as EnvironmentInjector);
+		await Promise.all(injector.get(APP_INITIALIZER).map((initialize) => initialize()));
+		return injector;
+	};
+
+	afterEach(() => {
+		injector?.destroy();
+		injector = undefined;
+	});
+
+	describe("provideHybridWebCache", () => {
+		it("should provide a single initialized cache configured with the given options", async () => {
+			const injector = await bootstrap({ baseName: "ng", ttl: { minutes: 5 } });
+			const cache = injector.get(HYBRID_WEBCACHE);
+
+			expect(cache).toBe(injector.get(HYBRID_WEBCACHE));
+			expect(cache.info.dataBase).toBe("ng");
+			expect(cache.info.options.ttl).toBe(5 * 60 * 1000);
+			expect(injector.get(HybridWebCacheService).cache).toBe(cache);
+		});
+	});
+
+	describe("HybridWebCacheService", () => {
+		it("should expose values as signals updated on changes", async () => {
+			const injector = await bootstrap();
+			const service = injector.get(HybridWebCacheService);
+			await service.set("user.name", "John");
+
+			const name = service.signal<string>("user.name");
+			expect(name()).toBe("John");
+			expect(service.signal("user.name")).not.toBe(undefined);
+
+			await service.set("user.name", "Jane");
+			expect(name()).toBe("Jane");
+
+			await service.unset("user");
+			expect(name()).toBeUndefined();
+		});
+
+		it("should follow the changes made by another tab", async () => {
+			localStorage.clear();
+			const injector = await bootstrap({ baseName: "ng-tabs", storage: StorageEngine.LocalStorage });
+			const theme = injector.get(HybridWebCacheService).signal<string>("theme");
+
+			const otherTab = createEnvironmentInjector(
+				[provideHybridWebCache({ baseName: "ng-tabs", storage: StorageEngine.LocalStorage })],
+				Injector.NULL as EnvironmentInjector
+			);
+			otherTab.get(HYBRID_WEBCACHE).setSync("theme", "dark");
+
+			await vi.waitFor(() => expect(theme()).toBe("dark"));
+			otherTab.destroy();
+		});
+
+		it("should stop updating signals once the injector is destroyed", async () => {
+			const destroyed = createEnvironmentInjector([provideHybridWebCache({ storage: StorageEngine.Memory })], Injector.NULL as EnvironmentInjector);
+			const cache = destroyed.get(HYBRID_WEBCACHE);
+			const count = destroyed.get(HybridWebCacheService).signal<number>("count");
+
+			destroyed.destroy();
+			cache.setSync("count", 1);
+			expect(count()).toBeUndefined();
+		});
+	});
+
+	describe("hybridWebCacheInterceptor", () => {
+		const intercept = (request: HttpRequest<unknown>, next: (request: HttpRequest<unknown>) => Observable<HttpEvent<unknown>>) =>
+			firstValueFrom(runInInjectionContext(injector as EnvironmentInjector, () => hybridWebCacheInterceptor(request, next)));
+
+		const backend = () =>
+			vi.fn((request: HttpRequest<unknown>) =>
+				of(new HttpResponse({ body: { url: request.url }, status: 200, url: request.url, headers: new HttpHeaders({ "x-id": "1" }) }))
+			);
+
+		it("should answer repeated GET requests from the cache", async () => {
+			const injector = await bootstrap({ http: { ttl: { minutes: 1 } } });
+			const next = backend();
+			const request = new HttpRequest("GET", "/api/users.json");
+
+			const first = (await intercept(request, next)) as HttpResponse<unknown>;
+			// The response is stored in the background
+			await vi.waitFor(() => expect(injector.get(HYBRID_WEBCACHE).length).toBe(1));
+			const second = (await intercept(request, next)) as HttpResponse<unknown>;
+
+			expect(next).toHaveBeenCalledTimes(1);
+			expect(second.body).toEqual(first.body);
+			expect(second.status).toBe(200);
+			expect(second.headers.get("x-id")).toBe("1");
+		});
+
+		it("should cache the responses per Accept header and not cache credentialed requests", async () => {
+			await bootstrap();
+			const next = backend();
+
+			const requests = [
+				new HttpRequest("GET", "/api/report", { headers: new HttpHeaders({ Accept: "application/json" }) }),
+				new HttpRequest("GET", "/api/report", { headers: new HttpHeaders({ Accept: "text/csv" }), responseType: "text" }),
+				new HttpRequest("GET", "/api/me", { headers: new HttpHeaders({ Authorization: "Bearer abc" }) }),
+				new HttpRequest("GET", "/api/me", { withCredentials: true }),
+			];
+			for (const request of requests) {
+				await intercept(request, next);
+			}
+			await vi.waitFor(() => expect(injector?.get(HYBRID_WEBCACHE).length).toBe(2));
+			for (const request of requests) {
+				await intercept(request, next);
+			}
+
+			expect(next).toHaveBeenCalledTimes(6);
+		});
+
+		it("should send the request when the cache cannot be read", async () => {
+			const injector = await bootstrap();
+			vi.spyOn(injector.get(HYBRID_WEBCACHE), "get").mockRejectedValue(new Error("Storage failed"));
+			const next = backend();
+
+			const response = (await intercept(new HttpRequest("GET", "/api/users"), next)) as HttpResponse<unknown>;
+
+			expect(response.body).toEqual({ url: "/api/users" });
+			expect(next).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not cache other methods, failures, filtered URLs or opted-out requests", async () => {
+			await bootstrap({ http: { filter: (url) => !url.startsWith("/api/live") } });
+			const next = backend();
+			const failing = vi.fn(() => of(new HttpResponse({ status: 500 })));
+
+			const requests = [
+				new HttpRequest("POST", "/api/users", {}),
+				new HttpRequest("GET", "/api/live/feed"),
+				new HttpRequest("GET", "/api/now", { context: new HttpContext().set(CACHE_HTTP_RESPONSE, false) }),
+			];
+			for (const request of requests) {
+				await intercept(request, next);
+				await intercept(request, next);
+			}
+			await intercept(new HttpRequest("GET", "/api/broken"), failing);
+			await intercept(new HttpRequest("GET", "/api/broken"), failing);
+
+			expect(next).toHaveBeenCalledTimes(6);
+			expect(failing).toHaveBeenCalledTimes(2);
+		});
+	});
+});
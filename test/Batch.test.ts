@@ -0,0 +1,312 @@
+import FDBDatabase from "fake-indexeddb/lib/FDBDatabase";
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type CacheEvent, HybridWebCache, QuotaExceededError, StorageEngine } from "../src";
+import { CacheStorageStrategy, IndexedDBStrategy, LocalStorageStrategy, OPFSStrategy, SessionStorageStrategy } from "../src/core/strategies";
+import { MockCacheStorage } from "./mocks/MockCacheStorage";
+import { MockFileSystemDirectoryHandle } from "./mocks/MockFileSystemDirectoryHandle";
+import { MockQuotaStorage } from "./mocks/MockQuotaStorage";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const entry = (value: string) => ({ value, expiresAt: 0 });
+
+describe("IndexedDBStrategy batches", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should write, read and remove many keys in a single transaction and message each", async () => {
+		const idb = new IndexedDBStrategy("batch");
+		await idb.init();
+		const transactions = vi.spyOn(FDBDatabase.prototype, "transaction");
+		const messages = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+
+		await idb.setMany(
+			new Map([
+				["a", entry("A")],
+				["b", entry("B")],
+				["c", entry("C")],
+			])
+		);
+		expect(transactions).toHaveBeenCalledTimes(1);
+		expect(messages).toHaveBeenCalledTimes(1);
+		expect(idb.getSync("b")?.value).toBe("B");
+
+		expect(await idb.unsetMany(["a", "b", "missing"])).toEqual(["a", "b"]);
+		expect(transactions).toHaveBeenCalledTimes(2);
+		expect(messages).toHaveBeenCalledTimes(2);
+		expect(messages).toHaveBeenLastCalledWith({ action: "unsetMany", keys: ["a", "b"] });
+		expect(idb.length).toBe(1);
+
+		expect(await idb.unsetMany(["a"])).toEqual([]);
+		expect(messages).toHaveBeenCalledTimes(2);
+	});
+
+	it("should only read the keys not held in memory", async () => {
+		const writer = new IndexedDBStrategy("batch-lazy");
+		await writer.setMany(new Map(["a", "b", "c"].map((key) => [key, entry(key.toUpperCase())])));
+
+		const lazy = new IndexedDBStrategy("batch-lazy", undefined, { lazy: true });
+		await lazy.get("a");
+		const transactions = vi.spyOn(FDBDatabase.prototype, "transaction");
+
+		const found = await lazy.getMany(["a", "b", "c", "missing"]);
+		expect([...found.keys()]).toEqual(["a", "b", "c"]);
+		expect(transactions).toHaveBeenCalledTimes(1);
+		expect(lazy.length).toBe(3);
+
+		expect(await lazy.getMany(["a", "b"])).toHaveProperty("size", 2);
+		expect(transactions).toHaveBeenCalledTimes(1);
+	});
+
+	it("should remove the keys not held in memory in lazy mode", async () => {
+		const writer = new IndexedDBStrategy("batch-unset");
+		await writer.setMany(new Map(["a", "b"].map((key) => [key, entry(key)])));
+
+		const lazy = new IndexedDBStrategy("batch-unset", undefined, { lazy: true });
+		expect(await lazy.unsetMany(["a", "b", "c"])).toEqual(["a", "b"]);
+		expect(await lazy.getAll()).toBeNull();
+	});
+
+	it("should apply a batch of another tab and report each key", async () => {
+		const idb = new IndexedDBStrategy("batch-tabs");
+		const otherTab = new IndexedDBStrategy("batch-tabs");
+		const changes = vi.fn();
+		idb.onRemoteChange(changes);
+
+		await otherTab.setMany(
+			new Map([
+				["a", entry("A")],
+				["b", entry("B")],
+			])
+		);
+		await vi.waitFor(() => expect(changes).toHaveBeenCalledTimes(2));
+		expect(idb.getSync("b")?.value).toBe("B");
+
+		await otherTab.unsetMany(["a", "b"]);
+		await vi.waitFor(() => expect(changes).toHaveBeenCalledTimes(4));
+		expect(changes).toHaveBeenLastCalledWith({ action: "unset", key: "b" });
+		expect(idb.length).toBe(0);
+	});
+});
+
+describe("HybridWebCache batches", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+		localStorage.clear();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it.each([StorageEngine.Memory, StorageEngine.LocalStorage, StorageEngine.IndexedDB, StorageEngine.Hybrid])("should set, get and unset many keyPaths with storage %s", async (storage) => {
+		const cache = new HybridWebCache("batch", { storage, sizeThreshold: 60 });
+		await cache.init();
+		const events: CacheEvent[] = [];
+		cache.on("set", (event) => events.push(event));
+		cache.on("unset", (event) => events.push(event));
+
+		await cache.set("user.id", 42);
+		await cache.setMany({ "user.name": "John", "user.age": 30, theme: "dark", notes: "x".repeat(80) }, { tags: ["import"] });
+
+		expect(cache.getSync("user")?.value).toEqual({ id: 42, name: "John", age: 30 });
+		expect([...(await cache.getByTag("import")).keys()].sort()).toEqual(["notes", "theme", "user"]);
+		expect(events.map(({ key, keyPath }) => [key, keyPath])).toEqual([
+			["user", "user.id"],
+			["user", "user.name"],
+			["user", "user.age"],
+			["theme", "theme"],
+			["notes", "notes"],
+		]);
+
+		const [name, theme, missing] = await cache.getMany(["user.name", "theme", "missing"]);
+		expect(name?.value).toBe("John");
+		expect(theme?.value).toBe("dark");
+		expect(missing).toBeUndefined();
+
+		events.length = 0;
+		expect(await cache.unsetMany(["user.age", "theme", "notes", "missing"])).toBe(3);
+		expect(events.map(({ type, key }) => [type, key])).toEqual([
+			["unset", "user"],
+			["unset", "theme"],
+			["unset", "notes"],
+		]);
+		expect(cache.getSync("user")?.value).toEqual({ id: 42, name: "John" });
+		expect(cache.hasSync("theme")).toBe(false);
+		expect(cache.hasSync("notes")).toBe(false);
+	});
+
+	it("should accept [keyPath, value] pairs", async () => {
+		const cache = new HybridWebCache("batch-pairs", { storage: StorageEngine.Memory });
+
+		await cache.setMany([
+			[["color", "name"], "cerulean"],
+			["size", 10],
+		]);
+
+		expect((await cache.getMany<string | number>([["color", "name"], "size"])).map((data) => data?.value)).toEqual(["cerulean", 10]);
+	});
+
+	it("should remove the expired entries read unless asked to return them", async () => {
+		const cache = new HybridWebCache("batch-expired", { storage: StorageEngine.Memory });
+		const expired: CacheEvent[] = [];
+		cache.on("expire", (event) => expired.push(event));
+
+		await cache.setMany({ "old.a": 1, "old.b": 2 }, 1);
+		await cache.set("new", 3);
+		await wait(5);
+
+		expect((await cache.getMany(["old.a", "new"], false))[0]?.isExpired).toBe(true);
+		expect((await cache.getMany(["old.a", "old.b", "new"])).map((data) => data?.value)).toEqual([undefined, undefined, 3]);
+		expect(expired).toMatchObject([{ type: "expire", key: "old", keyPath: "old.a" }]);
+		expect(cache.hasSync("old")).toBe(false);
+	});
+
+	it("should reset with a single batch", async () => {
+		const cache = new HybridWebCache("batch-reset", { storage: StorageEngine.IndexedDB });
+		await cache.init();
+		await cache.set("stale", true);
+		const messages = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+
+		await cache.resetWith({ a: 1, b: 2, c: 3 });
+
+		expect(messages.mock.calls.map(([message]) => message.action)).toEqual(["clear", "syncMany"]);
+		expect([...cache.keysSync()].sort()).toEqual(["a", "b", "c"]);
+	});
+
+	it("should keep the limits, the namespaces and the tiers in step with batches", async () => {
+		const evicted = vi.fn();
+		const cache = new HybridWebCache("batch-wrappers", {
+			storage: StorageEngine.IndexedDB,
+			onEvict: evicted,
+			tiered: { l1: { maxEntries: 1 }, l2: { maxEntries: 3 }, writePolicy: "write-back" },
+		});
+		await cache.init();
+		const orders = cache.namespace("orders");
+
+		await cache.set("theme", "dark");
+		await orders.setMany({ 1: "A", 2: "B", 3: "C" });
+		await cache.flush();
+
+		expect(evicted).toHaveBeenCalledWith(["theme"]);
+		expect((await orders.getMany(["1", "3"])).map((data) => data?.value)).toEqual(["A", "C"]);
+
+		expect(await orders.unsetMany(["1", "2"])).toBe(2);
+		expect([...((await cache.getAll())?.keys() ?? [])]).toEqual(["orders:3"]);
+	});
+});
+
+describe("LocalStorageStrategy batches", () => {
+	it("should write a batch entirely or not at all", async () => {
+		Object.defineProperty(window, "localStorage", { value: new MockQuotaStorage(200), writable: true });
+		const strategy = new LocalStorageStrategy("batch");
+		strategy.setSync("a", entry("old"));
+
+		const batch = new Map([
+			["a", entry("new")],
+			["b", entry("x".repeat(200))],
+		]);
+
+		await expect(strategy.setMany(batch)).rejects.toThrowError(QuotaExceededError);
+		expect(JSON.parse(localStorage.getItem("batch::a") ?? "{}").value).toBe("old");
+		expect(localStorage.getItem("batch::b")).toBeNull();
+		expect(strategy.getSync("a")?.value).toBe("old");
+		expect(strategy.length).toBe(1);
+	});
+});
+
+describe("CacheStorageStrategy and OPFSStrategy batches", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "caches", { value: new MockCacheStorage(), writable: true });
+		const root = new MockFileSystemDirectoryHandle();
+		Object.defineProperty(navigator, "storage", { value: { getDirectory: async () => root }, configurable: true, writable: true });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it.each([
+		["CacheStorage", (name: string) => new CacheStorageStrategy(name)],
+		["OPFS", (name: string) => new OPFSStrategy(name)],
+	])("should write, read and remove many keys with a single message each with %s", async (_, create) => {
+		const storage = create("batch-tabs");
+		const otherTab = create("batch-tabs");
+		await otherTab.init();
+		const changes = vi.fn();
+		otherTab.onRemoteChange(changes);
+		const messages = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+
+		await storage.setMany(
+			new Map([
+				["a", entry("A")],
+				["b", entry("B")],
+			])
+		);
+		expect(messages).toHaveBeenCalledTimes(1);
+		await vi.waitFor(() => expect(changes).toHaveBeenCalledTimes(2));
+		expect(changes).toHaveBeenLastCalledWith({ action: "sync", key: "b", value: entry("B") });
+
+		const read = await otherTab.getMany(["a", "b", "missing"]);
+		expect([...read.keys()]).toEqual(["a", "b"]);
+		expect(read.get("a")?.value).toBe("A");
+
+		expect(await storage.unsetMany(["a", "b", "missing"])).toEqual(["a", "b"]);
+		expect(messages).toHaveBeenCalledTimes(2);
+		await vi.waitFor(() => expect(changes).toHaveBeenCalledTimes(4));
+		expect(changes).toHaveBeenLastCalledWith({ action: "unset", key: "b" });
+		expect(otherTab.length).toBe(0);
+		expect(await create("batch-tabs").getAll()).toBeNull();
+	});
+
+	it("should restore the entries whose files could not be removed by unsetManySync with OPFS", async () => {
+		const storage = new OPFSStrategy("batch-failures");
+		await storage.setMany(
+			new Map([
+				["a", entry("A")],
+				["b", entry("B")],
+			])
+		);
+		vi.spyOn(MockFileSystemDirectoryHandle.prototype, "removeEntry").mockRejectedValueOnce(new DOMException("Failed", "UnknownError"));
+
+		expect(storage.unsetManySync(["a", "b"])).toEqual(["a", "b"]);
+		expect(storage.length).toBe(0);
+
+		await vi.waitFor(() => expect(storage.getSync("a")?.value).toBe("A"));
+		expect(storage.hasSync("b")).toBe(false);
+		expect([...((await new OPFSStrategy("batch-failures").getAll())?.keys() ?? [])]).toEqual(["a"]);
+	});
+});
+
+describe("SessionStorageStrategy batches", () => {
+	it("should write a batch entirely or not at all, and remove many keys", async () => {
+		Object.defineProperty(window, "sessionStorage", { value: new MockQuotaStorage(200), writable: true });
+		const strategy = new SessionStorageStrategy("batch");
+		strategy.setSync("a", entry("old"));
+
+		await expect(
+			strategy.setMany(
+				new Map([
+					["a", entry("new")],
+					["b", entry("x".repeat(200))],
+				])
+			)
+		).rejects.toThrowError(QuotaExceededError);
+		expect(JSON.parse(sessionStorage.getItem("batch::a") ?? "{}").value).toBe("old");
+		expect(strategy.length).toBe(1);
+
+		await strategy.setMany(new Map([["b", entry("B")]]));
+		expect(strategy.unsetManySync(["a", "b", "missing"])).toEqual(["a", "b"]);
+		expect(sessionStorage.getItem("batch::b")).toBeNull();
+		expect(strategy.length).toBe(0);
+	});
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+import { type CacheEvent, HybridWebCache, StorageEngine } from "../src";
+
+const expire = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("HybridWebCache events", () => {
+	it("should report local sets, unsets and clears", async () => {
+		const cache = new HybridWebCache("events", { storage: StorageEngine.Memory });
+		const events: CacheEvent[] = [];
+		// Entries are updated in place, so each event is copied when received
+		const record = (event: CacheEvent) => events.push(structuredClone(event));
+		cache.on("set", record);
+		cache.on("unset", record);
+		cache.on("clear", record);
+
+		await cache.set("user.name", "John");
+		cache.setSync("user.age", 42);
+		cache.unsetSync("user.age");
+		await cache.unset("user");
+		await cache.set("theme", "dark");
+		cache.unsetSync();
+
+		expect(events.map(({ type, key, keyPath, remote }) => ({ type, key, keyPath, remote }))).toEqual([
+			{ type: "set", key: "user", keyPath: "user.name", remote: false },
+			{ type: "set", key: "user", keyPath: "user.age", remote: false },
+			{ type: "unset", key: "user", keyPath: "user.age", remote: false },
+			{ type: "unset", key: "user", keyPath: "user", remote: false },
+			{ type: "set", key: "theme", keyPath: "theme", remote: false },
+			{ type: "clear", key: undefined, keyPath: undefined, remote: false },
+		]);
+		expect(events[0].data?.value).toEqual({ user: { name: "John" } });
+		expect(events[2].data?.value).toEqual({ user: { name: "John" } });
+	});
+
+	it("should stop calling a listener once removed", () => {
+		const cache = new HybridWebCache("events", { storage: StorageEngine.Memory });
+		const listener = vi.fn();
+		const off = cache.on("set", listener);
+
+		cache.setSync("a", 1);
+		off();
+		cache.setSync("a", 2);
+
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+
+	it("should report expired entries removed when read or purged", async () => {
+		const cache = new HybridWebCache("events", { storage: StorageEngine.Memory });
+		const expired = vi.fn();
+		const unset = vi.fn();
+		cache.on("expire", expired);
+		cache.on("unset", unset);
+
+		cache.setSync("a", "A", 1);
+		cache.setSync("b", "B", 1);
+		await expire();
+
+		expect(cache.getSync("a")).toBeUndefined();
+		expect(await cache.purgeExpired()).toBe(1);
+
+		expect(expired.mock.calls.map(([event]) => event.key)).toEqual(["a", "b"]);
+		expect(unset).not.toHaveBeenCalled();
+	});
+
+	it("should report evicted entries", () => {
+		const onEvict = vi.fn();
+		const cache = new HybridWebCache("events", { storage: StorageEngine.Memory, maxEntries: 1, onEvict });
+		const evicted = vi.fn();
+		cache.on("evict", evicted);
+
+		cache.setSync("a", "A");
+		cache.setSync("b", "B");
+
+		expect(evicted).toHaveBeenCalledWith({ type: "evict", key: "a", remote: false });
+		expect(onEvict).toHaveBeenCalledWith(["a"]);
+	});
+
+	it("should report the changes made by another tab", async () => {
+		localStorage.clear();
+		const tab1 = new HybridWebCache("events-remote", { storage: StorageEngine.LocalStorage });
+		const tab2 = new HybridWebCache("events-remote", { storage: StorageEngine.LocalStorage });
+		const events: CacheEvent[] = [];
+		tab2.on("set", (event) => events.push(event));
+		tab2.on("unset", (event) => events.push(event));
+
+		tab1.setSync("user.name", "John");
+		await vi.waitFor(() => expect(events).toHaveLength(1));
+		expect(events[0]).toMatchObject({ type: "set", key: "user", remote: true, data: { value: { user: { name: "John" } } } });
+		expect(tab2.getSync("user.name")?.value).toBe("John");
+
+		tab1.unsetSync("user");
+		await vi.waitFor(() => expect(events).toHaveLength(2));
+		expect(events[1]).toMatchObject({ type: "unset", key: "user", remote: true });
+	});
+});
+
+describe("HybridWebCache subscribe", () => {
+	it("should call the listener only when the value at the keyPath changes", async () => {
+		const cache = new HybridWebCache("subscribe", { storage: StorageEngine.Memory });
+		cache.setSync("user", { name: "John", age: 41 });
+
+		const listener = vi.fn();
+		cache.subscribe("user.name", listener);
+
+		cache.setSync("user.age", 42);
+		cache.setSync("theme", "dark");
+		expect(listener).not.toHaveBeenCalled();
+
+		cache.setSync("user.name", "Jane");
+		expect(listener).toHaveBeenLastCalledWith("Jane", expect.objectContaining({ type: "set", key: "user" }));
+
+		cache.setSync("user.name", "Jane");
+		expect(listener).toHaveBeenCalledTimes(1);
+
+		await cache.unset("user.name");
+		expect(listener).toHaveBeenLastCalledWith(undefined, expect.objectContaining({ type: "unset" }));
+
+		cache.setSync("user.name", "Joe");
+		cache.unsetSync();
+		expect(listener).toHaveBeenCalledTimes(4);
+		expect(listener).toHaveBeenLastCalledWith(undefined, expect.objectContaining({ type: "clear" }));
+	});
+
+	it("should follow nested values updated in place", () => {
+		const cache = new HybridWebCache("subscribe", { storage: StorageEngine.Memory });
+		cache.setSync("user.name", "John");
+
+		const listener = vi.fn();
+		cache.subscribe("user", listener);
+		cache.setSync("user.name", "Jane");
+
+		expect(listener).toHaveBeenCalledWith({ name: "Jane" }, expect.anything());
+	});
+
+	it("should be called for values changed by another tab", async () => {
+		localStorage.clear();
+		const tab1 = new HybridWebCache("subscribe-remote", { storage: StorageEngine.LocalStorage });
+		const tab2 = new HybridWebCache("subscribe-remote", { storage: StorageEngine.LocalStorage });
+
+		const listener = vi.fn();
+		const unsubscribe = tab2.subscribe(["settings", "theme"], listener);
+
+		tab1.setSync("settings.theme", "dark");
+		await vi.waitFor(() => expect(listener).toHaveBeenCalledWith("dark", expect.objectContaining({ remote: true })));
+
+		unsubscribe();
+		tab1.setSync("settings.theme", "light");
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+});
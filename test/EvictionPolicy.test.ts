@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+import { type DataModel, type EvictionPolicy, FIFOPolicy, HybridWebCache, LFUPolicy, LRUPolicy, StorageEngine, TTLPolicy, type ValueType } from "../src";
+
+const data = (value: string, expiresAt = 0): DataModel<ValueType> => ({ value, expiresAt });
+
+const entries = (...keys: string[]) => new Map(keys.map((key) => [key, data(key)]));
+
+describe("Eviction policies", () => {
+	it("LRUPolicy should rank the least recently used keys first", () => {
+		const policy = new LRUPolicy();
+		policy.recordSet("a", data("A"));
+		policy.recordSet("b", data("B"));
+		policy.recordGet("a", data("A"));
+
+		expect(policy.rank(entries("a", "b", "remote"))).toEqual(["remote", "b", "a"]);
+	});
+
+	it("LFUPolicy should rank the least frequently used keys first", () => {
+		const policy = new LFUPolicy();
+		policy.recordSet("a", data("A"));
+		policy.recordSet("b", data("B"));
+		policy.recordSet("c", data("C"));
+		policy.recordGet("a", data("A"));
+		policy.recordGet("a", data("A"));
+		policy.recordGet("c", data("C"));
+
+		expect(policy.rank(entries("a", "b", "c", "remote"))).toEqual(["remote", "b", "c", "a"]);
+	});
+
+	it("FIFOPolicy should rank the oldest keys first, ignoring reads and updates", () => {
+		const policy = new FIFOPolicy();
+		policy.recordSet("a", data("A"));
+		policy.recordSet("b", data("B"));
+		policy.recordGet("a", data("A"));
+		policy.recordSet("a", data("A2"));
+
+		expect(policy.rank(entries("a", "b"))).toEqual(["a", "b"]);
+	});
+
+	it("TTLPolicy should rank the keys closest to expiring first and never-expiring keys last", () => {
+		const policy = new TTLPolicy();
+		const stored = new Map([
+			["never", data("N", 0)],
+			["later", data("L", 2000)],
+			["soon", data("S", 1000)],
+		]);
+
+		expect(policy.rank(stored)).toEqual(["soon", "later", "never"]);
+	});
+
+	it("should forget keys", () => {
+		const policy = new LRUPolicy();
+		policy.recordSet("a", data("A"));
+		policy.recordSet("b", data("B"));
+		policy.forget("b");
+
+		expect(policy.rank(entries("a"))).toEqual(["a"]);
+		policy.forget();
+		expect(policy.rank(new Map())).toEqual([]);
+	});
+});
+
+describe("HybridWebCache with evictionPolicy", () => {
+	it("should evict using the named policy and report the evicted keys", async () => {
+		const onEvict = vi.fn();
+		const cache = new HybridWebCache("eviction-fifo", { storage: StorageEngine.Memory, maxEntries: 2, evictionPolicy: "fifo", onEvict });
+
+		await cache.set("a", "A");
+		await cache.set("b", "B");
+		await cache.get("a");
+		await cache.set("c", "C");
+
+		expect(await cache.has("a")).toBe(false);
+		expect(cache.hasSync("b")).toBe(true);
+		expect(onEvict).toHaveBeenCalledWith(["a"]);
+	});
+
+	it("should evict the keys closest to expiring with the ttl policy", () => {
+		const onEvict = vi.fn();
+		const cache = new HybridWebCache("eviction-ttl", { storage: StorageEngine.Memory, maxEntries: 2, evictionPolicy: "ttl", onEvict });
+
+		cache.setSync("long", "L", { hours: 2 });
+		cache.setSync("short", "S", { minutes: 1 });
+		cache.setSync("medium", "M", { hours: 1 });
+
+		expect(cache.hasSync("short")).toBe(false);
+		expect(onEvict).toHaveBeenCalledWith(["short"]);
+	});
+
+	it("should accept a custom policy", () => {
+		const policy: EvictionPolicy = {
+			recordSet: vi.fn(),
+			recordGet: vi.fn(),
+			forget: vi.fn(),
+			rank: (stored) => [...stored.keys()].sort().reverse(),
+		};
+		const cache = new HybridWebCache("eviction-custom", { storage: StorageEngine.Memory, maxEntries: 2, evictionPolicy: policy });
+
+		cache.setSync("a", "A");
+		cache.setSync("z", "Z");
+		cache.setSync("m", "M");
+
+		expect(policy.recordSet).toHaveBeenCalledWith("m", expect.objectContaining({ value: { m: "M" } }));
+		expect(cache.hasSync("z")).toBe(false);
+		expect(cache.hasSync("a")).toBe(true);
+	});
+});
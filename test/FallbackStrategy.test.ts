@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import { HybridWebCache, StorageEngine } from "../src";
+import { FallbackStrategy, MemoryStrategy } from "../src/core/strategies";
+import type { DataModel, StorageBase, ValueType } from "../src/core/types";
+import { Utils } from "../src/core/utils";
+
+const data = (value: string) => ({ value, expiresAt: 0 });
+
+/** A memory storage reporting itself as `engine`, whose writes fail with `failure` once `broken` is set. */
+class FailingStorage extends MemoryStrategy {
+	broken = false;
+	failure = "SecurityError";
+	private engine: StorageEngine;
+
+	constructor(engine: StorageEngine) {
+		super();
+		this.engine = engine;
+	}
+
+	setSync<T extends ValueType>(key: string, value: DataModel<T>): void {
+		if (this.broken) throw new DOMException(`${StorageEngine[this.engine]} write failed`, this.failure);
+		super.setSync(key, value);
+	}
+
+	get type(): StorageEngine {
+		return this.engine;
+	}
+}
+
+describe("FallbackStrategy", () => {
+	it("should skip the engines that cannot be created and record why", () => {
+		const create = (engine: StorageEngine): StorageBase => {
+			if (engine === StorageEngine.IndexedDB) throw new Error("IndexedDB is not available");
+			return new FailingStorage(engine);
+		};
+
+		const storage = new FallbackStrategy([StorageEngine.IndexedDB, StorageEngine.LocalStorage], create);
+
+		expect(storage.type).toBe(StorageEngine.LocalStorage);
+		expect(storage.fallbacks).toEqual([{ from: StorageEngine.IndexedDB, to: StorageEngine.LocalStorage, reason: "IndexedDB is not available" }]);
+	});
+
+	it("should always end the chain with Memory", () => {
+		const storage = new FallbackStrategy([StorageEngine.IndexedDB], (engine) => {
+			if (engine !== StorageEngine.Memory) throw new Error(`${StorageEngine[engine]} is not available`);
+			return new MemoryStrategy();
+		});
+
+		expect(storage.type).toBe(StorageEngine.Memory);
+		expect(storage.fallbacks).toEqual([{ from: StorageEngine.IndexedDB, to: StorageEngine.Memory, reason: "IndexedDB is not available" }]);
+	});
+
+	it("should fall back at runtime, retry the operation and carry over the entries", async () => {
+		const local = new FailingStorage(StorageEngine.LocalStorage);
+		const storage = new FallbackStrategy([StorageEngine.LocalStorage, StorageEngine.SessionStorage], (engine) =>
+			engine === StorageEngine.LocalStorage ? local : new FailingStorage(engine),
+		);
+
+		await storage.set("a", data("A"));
+		local.broken = true;
+		await storage.set("b", data("B"));
+
+		expect(storage.type).toBe(StorageEngine.SessionStorage);
+		expect(storage.getSync("a")).toEqual(data("A"));
+		expect(storage.getSync("b")).toEqual(data("B"));
+		expect(storage.fallbacks).toEqual([{ from: StorageEngine.LocalStorage, to: StorageEngine.SessionStorage, reason: "LocalStorage write failed" }]);
+	});
+
+	it.each(["QuotaExceededError", "DataCloneError", "AbortError"])("should rethrow a %s without falling back", async (failure) => {
+		const local = new FailingStorage(StorageEngine.LocalStorage);
+		const storage = new FallbackStrategy([StorageEngine.LocalStorage, StorageEngine.SessionStorage], () => local);
+
+		local.broken = true;
+		local.failure = failure;
+		await expect(storage.set("a", data("A"))).rejects.toHaveProperty("name", failure);
+
+		expect(storage.type).toBe(StorageEngine.LocalStorage);
+		expect(storage.fallbacks).toEqual([]);
+	});
+
+	it("should carry over the entries the failing engine does not hold in memory", async () => {
+		const lazy = new FailingStorage(StorageEngine.IndexedDB);
+		lazy.setSync("resident", data("R"));
+		vi.spyOn(lazy, "getAll").mockResolvedValue(
+			new Map([
+				["resident", data("R")],
+				["stored", data("S")],
+			]),
+		);
+		const storage = new FallbackStrategy([StorageEngine.IndexedDB, StorageEngine.Memory], (engine) => (engine === StorageEngine.IndexedDB ? lazy : new MemoryStrategy()));
+
+		lazy.broken = true;
+		await storage.set("a", data("A"));
+
+		expect(storage.type).toBe(StorageEngine.Memory);
+		expect([...(storage.getAllSync()?.keys() ?? [])].sort()).toEqual(["a", "resident", "stored"]);
+	});
+
+	it("should rethrow when the chain is exhausted", () => {
+		const memory = new FailingStorage(StorageEngine.Memory);
+		const storage = new FallbackStrategy([StorageEngine.Memory], () => memory);
+
+		memory.broken = true;
+		expect(() => storage.setSync("a", data("A"))).toThrowError("Memory write failed");
+	});
+});
+
+describe("HybridWebCache with fallbackChain", () => {
+	it("should report the engine in use and the fallbacks in info", async () => {
+		Utils.isIndexedDBAvailable = () => false;
+		Utils.isSessionStorageAvailable = () => true;
+		sessionStorage.clear();
+
+		const cache = new HybridWebCache("fallback", { fallbackChain: [StorageEngine.IndexedDB, StorageEngine.SessionStorage] });
+		await cache.set("theme", "dark");
+
+		expect(cache.storageType).toBe(StorageEngine.SessionStorage);
+		expect(cache.info.options.storage).toBe(StorageEngine.SessionStorage);
+		expect(cache.info.fallbacks).toEqual([{ from: StorageEngine.IndexedDB, to: StorageEngine.SessionStorage, reason: "IndexedDB is not available" }]);
+		expect((await cache.get("theme"))?.value).toBe("dark");
+	});
+
+	it("should not report fallbacks when the first engine is used", () => {
+		Utils.isLocalStorageAvailable = () => true;
+		const cache = new HybridWebCache("fallback", { fallbackChain: [StorageEngine.LocalStorage] });
+
+		expect(cache.storageType).toBe(StorageEngine.LocalStorage);
+		expect(cache.info.fallbacks).toBeUndefined();
+	});
+});
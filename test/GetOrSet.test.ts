@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import { HybridWebCache, StorageEngine } from "../src";
+
+const newCache = () => new HybridWebCache("getOrSet", { storage: StorageEngine.Memory });
+
+describe("HybridWebCache getOrSet", () => {
+	it("should load and store the value on a miss, then serve it from the cache", async () => {
+		const cache = newCache();
+		const loader = vi.fn(async () => "John");
+
+		expect(await cache.getOrSet("user.name", loader)).toBe("John");
+		expect(await cache.getOrSet("user.name", loader)).toBe("John");
+		expect(loader).toHaveBeenCalledTimes(1);
+		expect(cache.getSync("user.name")?.value).toBe("John");
+	});
+
+	it("should reload an expired value", async () => {
+		const cache = newCache();
+		cache.setSync("token", "old", 1);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+
+		expect(await cache.getOrSet("token", () => "new", { minutes: 1 })).toBe("new");
+		expect(cache.getSync("token")?.isExpired).toBe(false);
+	});
+
+	it("should share a single load between concurrent calls", async () => {
+		const cache = newCache();
+		let resolve: (value: string) => void = () => {};
+		const loaded = new Promise<string>((r) => (resolve = r));
+		const loader = vi.fn(() => loaded);
+
+		const calls = Promise.all([cache.getOrSet("user", loader), cache.getOrSet("user", loader), cache.getOrSet(["user"], loader)]);
+		await vi.waitFor(() => expect(loader).toHaveBeenCalled());
+		resolve("John");
+
+		expect(await calls).toEqual(["John", "John", "John"]);
+		expect(loader).toHaveBeenCalledTimes(1);
+	});
+
+	it("should reject every waiter and store nothing when the loader fails", async () => {
+		const cache = newCache();
+		const loader = vi.fn(async () => {
+			throw new Error("network down");
+		});
+
+		const calls = [cache.getOrSet("user", loader), cache.getOrSet("user", loader)];
+		await expect(calls[0]).rejects.toThrow("network down");
+		await expect(calls[1]).rejects.toThrow("network down");
+		expect(loader).toHaveBeenCalledTimes(1);
+		expect(cache.hasSync("user")).toBe(false);
+
+		expect(await cache.getOrSet("user", () => "John")).toBe("John");
+	});
+});
+
+describe("HybridWebCache wrap", () => {
+	it("should memoize calls by function name and arguments", async () => {
+		const cache = newCache();
+		const load = vi.fn();
+		async function fetchUser(id: number) {
+			load(id);
+			return { id };
+		}
+		const cached = cache.wrap(fetchUser);
+
+		expect(await cached(1)).toEqual({ id: 1 });
+		expect(await cached(1)).toEqual({ id: 1 });
+		expect(await cached(2)).toEqual({ id: 2 });
+		expect(load).toHaveBeenCalledTimes(2);
+		expect(cache.hasSync(["fetchUser([1])"])).toBe(true);
+	});
+
+	it("should use the key option", async () => {
+		const cache = newCache();
+		const cached = cache.wrap(async (id: number) => `user ${id}`, { key: (id) => ["users", String(id)], ttl: { minutes: 1 } });
+
+		expect(await cached(42)).toBe("user 42");
+		expect(cache.getSync("users.42")?.value).toBe("user 42");
+	});
+
+	it("should require a key option for anonymous functions", () => {
+		const cache = newCache();
+		expect(() => cache.wrap(async () => 1)).toThrow();
+	});
+});
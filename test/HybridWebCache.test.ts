@@ -1,6 +1,9 @@
 import FDBFactory from "fake-indexeddb/lib/FDBFactory";
-import { beforeEach, describe, expect, it } from "vitest";
-import { HybridWebCache, StorageEngine } from "../src";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type CacheEvent, HybridWebCache, StorageEngine } from "../src";
+import { MockCache, MockCacheStorage } from "./mocks/MockCacheStorage";
+import { MockFileSystemDirectoryHandle, MockFileSystemFileHandle } from "./mocks/MockFileSystemDirectoryHandle";
 
 const strategies = [
 	{ name: "Automatic", type: StorageEngine.Auto },
@@ -8,6 +11,9 @@ const strategies = [
 	{ name: "SessionStorage", type: StorageEngine.SessionStorage },
 	{ name: "IndexedDB", type: StorageEngine.IndexedDB },
 	{ name: "Memory", type: StorageEngine.Memory },
+	{ name: "CacheStorage", type: StorageEngine.CacheStorage },
+	{ name: "OPFS", type: StorageEngine.OPFS },
+	{ name: "Hybrid", type: StorageEngine.Hybrid },
 ];
 
 describe.each(strategies)("HybridWebCache with $name Strategy", ({ type }) => {
@@ -724,6 +730,331 @@ describe.each(strategies)("HybridWebCache with $name Strategy", ({ type }) => {
 			expect(cache.getAllSync()).toBeNull();
 		});
 	});
+
+	describe("purgeExpired", () => {
+		const elapse = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+		beforeEach(async () => {
+			await cache.unset();
+		});
+
+		it("should remove the expired entries without reading them", async () => {
+			await cache.set("expired1", "A", 1);
+			cache.setSync("expired2", "B", 1);
+			await cache.set("fresh", "C");
+			await cache.set("forever", "D", 0);
+			await elapse(5);
+
+			expect(await cache.purgeExpired()).toBe(2);
+
+			expect(cache.length).toBe(2);
+			expect(await cache.has("expired1")).toBe(false);
+			expect(await cache.has("expired2")).toBe(false);
+			expect(cache.getSync("fresh")?.value).toBe("C");
+			expect(cache.getSync("forever")?.value).toBe("D");
+		});
+
+		it("should remove at most limit entries", async () => {
+			await cache.set("expired1", "A", 1);
+			await cache.set("expired2", "B", 1);
+			await cache.set("expired3", "C", 1);
+			await elapse(5);
+
+			expect(await cache.purgeExpired(2)).toBe(2);
+			expect(cache.length).toBe(1);
+			expect(await cache.purgeExpired()).toBe(1);
+			expect(cache.length).toBe(0);
+		});
+	});
+
+	describe("sliding expiration", () => {
+		beforeEach(async () => {
+			await cache.unset();
+			vi.useFakeTimers({ toFake: ["Date"] });
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should push expiresAt forward by the original TTL on each get", async () => {
+			await cache.set("session", "abc", { seconds: 1 }, true);
+
+			vi.advanceTimersByTime(800);
+			const data = await cache.get("session");
+			expect(data?.expiresAt).toBe(Date.now() + 1000);
+			expect(cache.getAllSync()?.get("session")?.expiresAt).toBe(Date.now() + 1000);
+
+			vi.advanceTimersByTime(800);
+			expect(cache.getSync("session")?.isExpired).toBe(false);
+		});
+
+		it("should slide every entry with the slidingExpiration option, but not those set otherwise", () => {
+			const sliding = new HybridWebCache("hwc", { storage: type, ttl: 1000, slidingExpiration: true });
+			sliding.setSync("session", "abc");
+			sliding.setSync("fixed", "xyz", 1000, false);
+
+			vi.advanceTimersByTime(800);
+			sliding.getSync("session");
+			sliding.getSync("fixed");
+
+			vi.advanceTimersByTime(800);
+			expect(sliding.getSync("session")?.value).toBe("abc");
+			expect(sliding.getSync("fixed")).toBeUndefined();
+		});
+
+		it("should peek without pushing expiresAt forward nor removing expired values", async () => {
+			await cache.set("session", "abc", { seconds: 1 }, true);
+			const { expiresAt } = cache.peekSync("session") ?? {};
+
+			vi.advanceTimersByTime(800);
+			expect(cache.peekSync("session")?.expiresAt).toBe(expiresAt);
+
+			vi.advanceTimersByTime(800);
+			expect(cache.peekSync("session")).toEqual({ value: "abc", expiresAt, isExpired: true });
+			expect(cache.hasSync("session")).toBe(true);
+		});
+	});
+
+	describe("capacity limits", () => {
+		let limited: HybridWebCache;
+
+		it("should evict the least recently used key when maxEntries is exceeded", async () => {
+			limited = new HybridWebCache("hwc-max-entries", { storage: type, maxEntries: 2 });
+			await limited.init();
+			await limited.unset();
+
+			await limited.set("a", "A");
+			await limited.set("b", "B");
+			await limited.get("a"); // "b" is now the least recently used
+			await limited.set("c", "C");
+
+			expect(limited.length).toBe(2);
+			expect(await limited.has("b")).toBe(false);
+			expect((await limited.get("a"))?.value).toBe("A");
+			expect((await limited.get("c"))?.value).toBe("C");
+		});
+
+		it("should evict sync the least recently used keys when maxBytes is exceeded", () => {
+			limited = new HybridWebCache("hwc-max-bytes", { storage: type, maxBytes: 150 });
+			limited.unsetSync();
+
+			limited.setSync("a", "A");
+			const entryBytes = limited.bytes;
+			limited.setSync("b", "B");
+			limited.setSync("c", "C");
+			limited.setSync("d", "D");
+
+			expect(limited.bytes).toBeLessThanOrEqual(150);
+			expect(limited.length).toBe(Math.floor(150 / entryBytes));
+			expect(limited.hasSync("a")).toBe(false);
+			expect(limited.getSync("d")?.value).toBe("D");
+		});
+	});
+});
+
+describe("HybridWebCache sliding expiration across tabs", () => {
+	it("should persist and broadcast the refreshed expiration", async () => {
+		mockStorage(StorageEngine.LocalStorage);
+		const tab1 = new HybridWebCache("sliding", { storage: StorageEngine.LocalStorage, slidingExpiration: true });
+		const tab2 = new HybridWebCache("sliding", { storage: StorageEngine.LocalStorage });
+
+		tab1.setSync("session", "abc", 60000);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		const before = tab2.getAllSync()?.get("session")?.expiresAt ?? 0;
+
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const after = tab1.getSync("session")?.expiresAt ?? 0;
+		await new Promise((resolve) => setTimeout(resolve, 10));
+
+		expect(after).toBeGreaterThan(before);
+		expect(tab2.getAllSync()?.get("session")?.expiresAt).toBe(after);
+		expect(JSON.parse(localStorage.getItem("sliding::session") ?? "{}")).toMatchObject({ expiresAt: after, ttl: 60000 });
+	});
+});
+
+describe.each([
+	{ name: "LocalStorage", type: StorageEngine.LocalStorage },
+	{ name: "SessionStorage", type: StorageEngine.SessionStorage },
+])("HybridWebCache with $name Strategy persistence", ({ type }) => {
+	const storage = () => (type === StorageEngine.LocalStorage ? localStorage : sessionStorage);
+
+	/** The size of the persisted entries, as measured from the storage itself. */
+	const persistedBytes = (prefix: string) => {
+		const encoder = new TextEncoder();
+		let total = 0;
+		for (let i = 0; i < storage().length; i++) {
+			const key = storage().key(i) ?? "";
+			if (key.startsWith(prefix)) total += encoder.encode(key.slice(prefix.length)).length + encoder.encode(storage().getItem(key) ?? "").length;
+		}
+		return total;
+	};
+
+	beforeEach(() => {
+		mockStorage(type);
+	});
+
+	it("should keep bytes equal to the size of the persisted entries as they change", async () => {
+		const cache = new HybridWebCache("web-bytes", { storage: type });
+		await cache.set("user.name", "John");
+		await cache.set("theme", "dark");
+		expect(cache.bytes).toBe(persistedBytes("web-bytes::"));
+
+		await cache.set("user.name", "Johnny");
+		await cache.unset("theme");
+		expect(cache.bytes).toBe(persistedBytes("web-bytes::"));
+		expect(cache.bytes).toBeGreaterThan(0);
+	});
+
+	it("should remove every persisted entry when cleared, and only those", async () => {
+		const cache = new HybridWebCache("web-clear", { storage: type });
+		await cache.set("user.name", "John");
+		cache.setSync("theme", "dark");
+		storage().setItem("other-app", "kept");
+
+		expect(await cache.unset()).toBe(true);
+		expect(storage().getItem("web-clear::user")).toBeNull();
+		expect(storage().getItem("web-clear::theme")).toBeNull();
+		expect(storage().getItem("other-app")).toBe("kept");
+		expect(new HybridWebCache("web-clear", { storage: type }).length).toBe(0);
+	});
+});
+
+describe("HybridWebCache with OPFS Strategy persistence", () => {
+	beforeEach(() => {
+		mockStorage(StorageEngine.OPFS);
+	});
+
+	it("should load the entries persisted as files on init for the sync reads", async () => {
+		const writer = new HybridWebCache("opfs", { storage: StorageEngine.OPFS });
+		await writer.set("report", { rows: ["a", "b", "c"], total: 3 });
+
+		const reader = new HybridWebCache("opfs", { storage: StorageEngine.OPFS });
+		await reader.init();
+		expect(reader.length).toBe(1);
+		expect(reader.bytes).toBe(writer.bytes);
+		expect(reader.hasSync("report")).toBe(true);
+		expect(reader.getSync("report.rows")?.value).toEqual(["a", "b", "c"]);
+
+		reader.setSync("report.total", 4);
+		expect(reader.getJsonSync()).toEqual({ report: { rows: ["a", "b", "c"], total: 4 } });
+	});
+
+	it("should notify other tabs of the changed keys and let them read the values", async () => {
+		const writer = new HybridWebCache("opfs-tabs", { storage: StorageEngine.OPFS });
+		const reader = new HybridWebCache("opfs-tabs", { storage: StorageEngine.OPFS });
+		await reader.init();
+		const postMessage = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+		const events: CacheEvent[] = [];
+		reader.on("set", (event) => events.push(event));
+
+		writer.setSync("report", { rows: ["a"] });
+		await vi.waitFor(() => expect(events).toHaveLength(1));
+
+		expect(postMessage).toHaveBeenCalledWith({ action: "sync", key: "report" });
+		expect(reader.getSync("report")?.value).toEqual({ rows: ["a"] });
+		expect(events[0].data?.value).toEqual({ report: { rows: ["a"] } });
+		expect(reader.hasSync("report")).toBe(true);
+		expect(reader.bytes).toBe(writer.bytes);
+		postMessage.mockRestore();
+	});
+
+	it("should unset a key whose file was already removed by another tab", async () => {
+		const cache = new HybridWebCache("opfs-removed", { storage: StorageEngine.OPFS });
+		const otherTab = new HybridWebCache("opfs-removed", { storage: StorageEngine.OPFS });
+		await cache.set("report", "r1");
+		await otherTab.init();
+
+		// Both tabs remove the file before hearing from each other
+		const removed = Promise.all([cache.unset("report"), otherTab.unset("report")]);
+
+		await expect(removed).resolves.toEqual([true, true]);
+		expect(await cache.has("report")).toBe(false);
+	});
+});
+
+describe("HybridWebCache with OPFS Strategy background writes", () => {
+	beforeEach(() => {
+		mockStorage(StorageEngine.OPFS);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should restore what is persisted when a write or a removal of a sync method fails", async () => {
+		const cache = new HybridWebCache("opfs-failures", { storage: StorageEngine.OPFS });
+		const otherTab = new HybridWebCache("opfs-failures", { storage: StorageEngine.OPFS });
+		await cache.set("theme", "dark");
+		await cache.set("lang", "en");
+		await vi.waitFor(() => expect(otherTab.getSync("lang")?.value).toBe("en"));
+		const unhandled = vi.fn();
+		process.on("unhandledRejection", unhandled);
+
+		vi.spyOn(MockFileSystemFileHandle.prototype, "createWritable").mockRejectedValueOnce(new DOMException("Quota exceeded", "QuotaExceededError"));
+		cache.setSync("theme", "light");
+		expect(cache.getSync("theme")?.value).toBe("light");
+		await vi.waitFor(() => expect(cache.getSync("theme")?.value).toBe("dark"));
+
+		const removeEntry = vi.spyOn(MockFileSystemDirectoryHandle.prototype, "removeEntry");
+		removeEntry.mockRejectedValueOnce(new DOMException("Failed", "UnknownError"));
+		cache.unsetSync("theme");
+		expect(cache.hasSync("theme")).toBe(false);
+		await vi.waitFor(() => expect(cache.getSync("theme")?.value).toBe("dark"));
+		await vi.waitFor(() => expect(otherTab.getSync("theme")?.value).toBe("dark"));
+
+		removeEntry.mockRejectedValueOnce(new DOMException("Failed", "UnknownError"));
+		cache.unsetSync();
+		await vi.waitFor(() => expect(cache.length).toBe(1));
+		await vi.waitFor(() => expect(otherTab.length).toBe(1));
+
+		process.off("unhandledRejection", unhandled);
+		expect(unhandled).not.toHaveBeenCalled();
+	});
+});
+
+describe("HybridWebCache with CacheStorage Strategy persistence", () => {
+	beforeEach(() => {
+		mockStorage(StorageEngine.CacheStorage);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should restore what is persisted when a write or a removal of a sync method fails", async () => {
+		const cache = new HybridWebCache("cache-storage", { storage: StorageEngine.CacheStorage });
+		const otherTab = new HybridWebCache("cache-storage", { storage: StorageEngine.CacheStorage });
+		await cache.set("theme", "dark");
+		const unhandled = vi.fn();
+		process.on("unhandledRejection", unhandled);
+
+		vi.spyOn(MockCache.prototype, "put").mockRejectedValueOnce(new DOMException("Quota exceeded", "QuotaExceededError"));
+		cache.setSync("theme", "light");
+		expect(cache.getSync("theme")?.value).toBe("light");
+		await vi.waitFor(() => expect(cache.getSync("theme")?.value).toBe("dark"));
+		await vi.waitFor(() => expect(otherTab.getSync("theme")?.value).toBe("dark"));
+
+		vi.spyOn(MockCache.prototype, "delete").mockRejectedValueOnce(new DOMException("Failed", "UnknownError"));
+		cache.unsetSync("theme");
+		await vi.waitFor(() => expect(cache.getSync("theme")?.value).toBe("dark"));
+
+		process.off("unhandledRejection", unhandled);
+		expect(unhandled).not.toHaveBeenCalled();
+	});
+
+	it("should only clear its own entries from a cache shared with other requests", async () => {
+		const cache = new HybridWebCache("pwa", { storage: StorageEngine.CacheStorage });
+		await cache.set("theme", "dark");
+		const assets = await caches.open("pwa");
+		await assets.put("https://example.com/app.js", new Response("console.log('app')"));
+
+		expect(await cache.unset()).toBe(true);
+
+		const shared = await caches.open("pwa");
+		expect((await shared.keys()).map((request) => request.url)).toEqual(["https://example.com/app.js"]);
+		expect(await cache.has("theme")).toBe(false);
+	});
 });
 
 function mockStorage(type: StorageEngine) {
@@ -759,8 +1090,34 @@ function mockStorage(type: StorageEngine) {
 				value: new FDBFactory(),
 				writable: true,
 			});
+			Object.defineProperty(window, "IDBKeyRange", {
+				value: FDBKeyRange,
+				writable: true,
+			});
 			break;
 
+		case StorageEngine.CacheStorage:
+			Object.defineProperty(window, "caches", {
+				value: new MockCacheStorage(),
+				writable: true,
+			});
+			break;
+
+		case StorageEngine.Hybrid:
+			mockStorage(StorageEngine.LocalStorage);
+			mockStorage(StorageEngine.IndexedDB);
+			break;
+
+		case StorageEngine.OPFS: {
+			const root = new MockFileSystemDirectoryHandle();
+			Object.defineProperty(navigator, "storage", {
+				value: { getDirectory: async () => root },
+				configurable: true,
+				writable: true,
+			});
+			break;
+		}
+
 		default:
 			break;
 	}
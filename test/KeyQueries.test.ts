@@ -0,0 +1,202 @@
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { type CacheEvent, HybridWebCache, StorageEngine } from "../src";
+import { IndexedDBStrategy } from "../src/core/strategies";
+import { Utils } from "../src/core/utils";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("Utils key patterns", () => {
+	it("should convert globs into anchored regular expressions", () => {
+		const regex = Utils.globToRegExp("report:*.v?");
+		expect(regex.test("report:2024.v1")).toBe(true);
+		expect(regex.test("report:.v2")).toBe(true);
+		expect(regex.test("report:2024xv1")).toBe(false);
+		expect(regex.test("old-report:2024.v1")).toBe(false);
+	});
+
+	it("should find the literal prefix of a pattern", () => {
+		expect(Utils.literalPrefix({ prefix: "report" })).toBe("report");
+		expect(Utils.literalPrefix({ glob: "report:*:2024" })).toBe("report:");
+		expect(Utils.literalPrefix({ prefix: "rep", glob: "report:?" })).toBe("report:");
+		expect(Utils.literalPrefix({ glob: "*:2024", regex: /x/ })).toBe("");
+	});
+
+	it("should match every criterion of a pattern", () => {
+		const regex = /2024$/g;
+		expect(Utils.matchesPattern("report:2024", { prefix: "report:", glob: "*:*", regex })).toBe(true);
+		expect(Utils.matchesPattern("report:2024", { regex })).toBe(true); // global regexes are reset
+		expect(Utils.matchesPattern("report:2023", { prefix: "report:", regex })).toBe(false);
+		expect(Utils.matchesPattern("invoice:2024", { prefix: "report:" })).toBe(false);
+		expect(Utils.matchesPattern("anything", {})).toBe(true);
+	});
+});
+
+describe("IndexedDBStrategy prefixedKeys", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+	});
+
+	it("should query a key range instead of scanning the store", async () => {
+		const idb = new IndexedDBStrategy("prefix");
+		await idb.set("report:1", { value: "A", expiresAt: 0 });
+		await idb.set("report:2", { value: "B", expiresAt: 0 });
+		await idb.set("reports", { value: "C", expiresAt: 0 });
+		await idb.set("user", { value: "D", expiresAt: 0 });
+
+		const getAll = vi.spyOn(idb, "getAll");
+
+		expect(await idb.prefixedKeys("report:")).toEqual(["report:1", "report:2"]);
+		expect(await idb.prefixedKeys("report")).toEqual(["report:1", "report:2", "reports"]);
+		expect(await idb.prefixedKeys("")).toHaveLength(4);
+		expect(await idb.prefixedKeys("z")).toEqual([]);
+		expect(getAll).not.toHaveBeenCalled();
+	});
+});
+
+describe("HybridWebCache key queries", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+		localStorage.clear();
+	});
+
+	const fill = async (cache: HybridWebCache) => {
+		await cache.set("report:2023", { total: 1 });
+		await cache.set("report:2024", { total: 2 });
+		await cache.set(["report:2024.draft"], { total: 3 });
+		await cache.set("invoice-1", 10);
+		await cache.set("invoice-x", 20);
+	};
+
+	it("should enumerate keys, values and entries", async () => {
+		const cache = new HybridWebCache("keys", { storage: StorageEngine.Memory });
+		await fill(cache);
+
+		const keys: string[] = [];
+		for await (const key of cache.keys()) keys.push(key);
+		expect(keys).toEqual(["invoice-1", "invoice-x", "report:2023", "report:2024", "report:2024.draft"]);
+		expect([...cache.keysSync()].sort()).toEqual(keys);
+
+		const values: unknown[] = [];
+		for await (const { value } of cache.values()) values.push(value);
+		expect(values).toEqual([10, 20, { total: 1 }, { total: 2 }, { total: 3 }]);
+		expect([...cache.valuesSync()].map(({ value }) => value)).toEqual([{ total: 1 }, { total: 2 }, { total: 3 }, 10, 20]);
+
+		const entries: [string, unknown][] = [];
+		for await (const [key, { value }] of cache.entries()) entries.push([key, value]);
+		expect(entries[0]).toEqual(["invoice-1", 10]);
+		expect(new Map([...cache.entriesSync()].map(([key, { value }]) => [key, value]))).toEqual(new Map(entries));
+	});
+
+	it("should skip the expired entries unless asked to list them", async () => {
+		const cache = new HybridWebCache("keys-expired", { storage: StorageEngine.Memory });
+		cache.setSync("old", "A", 1);
+		cache.setSync("new", "B");
+		await wait(5);
+
+		expect([...cache.keysSync(false)]).toEqual(["old", "new"]);
+		expect([...cache.keysSync()]).toEqual(["new"]);
+		expect(cache.hasSync("old")).toBe(false);
+
+		const empty = new HybridWebCache("keys-empty", { storage: StorageEngine.Memory });
+		expect([...empty.entriesSync()]).toEqual([]);
+		for await (const _ of empty.entries()) throw new Error("No entry expected");
+	});
+
+	it("should iterate over IndexedDB page by page, without loading it", async () => {
+		const cache = new HybridWebCache("keys-paged", { storage: StorageEngine.IndexedDB, indexedDB: { lazy: true } });
+		await cache.init();
+		await cache.setMany(Array.from({ length: 250 }, (_, i): [string, number] => [`item-${String(i).padStart(3, "0")}`, i]));
+		cache.setSync("old", "A", 1);
+		await wait(5);
+		const getAll = vi.spyOn(IndexedDBStrategy.prototype, "getAll");
+		const prefixedKeys = vi.spyOn(IndexedDBStrategy.prototype, "prefixedKeys");
+		const scan = vi.spyOn(IndexedDBStrategy.prototype, "scan");
+
+		const keys: string[] = [];
+		for await (const key of cache.keys(false)) keys.push(key);
+		expect(keys).toHaveLength(251);
+		expect(scan).toHaveBeenCalledTimes(3);
+		for (const [index, call] of scan.mock.calls.entries()) {
+			expect(call[0].limit).toBe(100);
+			expect((await scan.mock.results[index].value).entries.size).toBeLessThanOrEqual(100);
+		}
+
+		keys.length = 0;
+		for await (const key of cache.keys()) keys.push(key);
+		expect(keys).toHaveLength(250);
+		expect(await cache.has("old")).toBe(false);
+		expect(prefixedKeys).not.toHaveBeenCalled();
+		scan.mockClear();
+
+		let count = 0;
+		for await (const [key, { value }] of cache.entries()) {
+			expect(key).toBe(`item-${String(value).padStart(3, "0")}`);
+			count++;
+		}
+		expect(count).toBe(250);
+		expect(scan).toHaveBeenCalledTimes(3);
+		expect(getAll).not.toHaveBeenCalled();
+	});
+
+	it.each([StorageEngine.Memory, StorageEngine.LocalStorage, StorageEngine.IndexedDB])("should find entries by prefix, glob and regex with storage %s", async (storage) => {
+		const cache = new HybridWebCache("find", { storage });
+		await cache.init();
+		await fill(cache);
+
+		const keysOf = async (pattern: Parameters<HybridWebCache["find"]>[0]) => [...(await cache.find(pattern)).keys()].sort();
+
+		expect(await keysOf({ prefix: "report:" })).toEqual(["report:2023", "report:2024", "report:2024.draft"]);
+		expect(await keysOf({ glob: "report:*.draft" })).toEqual(["report:2024.draft"]);
+		expect(await keysOf({ regex: /^invoice-\d+$/ })).toEqual(["invoice-1"]);
+		expect(await keysOf({ prefix: "report:", regex: /2024/ })).toEqual(["report:2024", "report:2024.draft"]);
+		expect(await keysOf({ prefix: "unknown" })).toEqual([]);
+		expect((await cache.find({ glob: "invoice-?" })).get("invoice-x")?.value).toBe(20);
+	});
+
+	it.each([StorageEngine.Memory, StorageEngine.IndexedDB])("should unset the matching entries with storage %s", async (storage) => {
+		const cache = new HybridWebCache("unset-matching", { storage });
+		await cache.init();
+		await fill(cache);
+		const events: CacheEvent[] = [];
+		cache.on("unset", (event) => events.push(event));
+
+		expect(await cache.unsetMatching({ glob: "report:*" })).toBe(3);
+		expect(events.map(({ key }) => key)).toEqual(["report:2023", "report:2024", "report:2024.draft"]);
+		expect([...cache.keysSync()].sort()).toEqual(["invoice-1", "invoice-x"]);
+		expect(await cache.unsetMatching({ prefix: "report:" })).toBe(0);
+	});
+
+	it("should only read the matching entries from IndexedDB", async () => {
+		const cache = new HybridWebCache("find-range", { storage: StorageEngine.IndexedDB });
+		await cache.init();
+		await fill(cache);
+		const getAll = vi.spyOn(IndexedDBStrategy.prototype, "getAll");
+
+		expect(await cache.unsetMatching({ glob: "report:*" })).toBe(3);
+		expect(getAll).not.toHaveBeenCalled();
+		getAll.mockRestore();
+	});
+
+	it("should query keys within a namespace and through the tiered storage", async () => {
+		const cache = new HybridWebCache("find-tiered", {
+			storage: StorageEngine.IndexedDB,
+			tiered: { l1: { maxEntries: 1 }, writePolicy: "write-back" },
+		});
+		await cache.init();
+		const reports = cache.namespace("reports");
+
+		await reports.set("2023", 1);
+		await cache.flush();
+		reports.setSync("2024", 2); // pending in L1
+		cache.setSync("2024", 3);
+
+		expect([...(await reports.find({ prefix: "20" })).keys()].sort()).toEqual(["2023", "2024"]);
+		expect([...(await cache.find({ prefix: "reports:" })).keys()].sort()).toEqual(["reports:2023", "reports:2024"]);
+		expect(await reports.unsetMatching({ glob: "*" })).toBe(2);
+		expect(await cache.has("2024")).toBe(true);
+	});
+});
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HybridWebCache, LeaderElection, StorageEngine } from "../src";
+
+const options = { heartbeatInterval: 20, timeout: 60 };
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("LeaderElection", () => {
+	const elections: LeaderElection[] = [];
+	const join = (name = "election") => {
+		const election = new LeaderElection(name, options);
+		elections.push(election);
+		return election;
+	};
+
+	afterEach(() => {
+		elections.splice(0).forEach((election) => election.close());
+	});
+
+	it("should elect a lone participant", async () => {
+		const election = join();
+		const onChange = vi.fn();
+		election.onChange(onChange);
+
+		expect(election.isLeader).toBe(false);
+		await vi.waitFor(() => expect(election.isLeader).toBe(true));
+		expect(onChange).toHaveBeenCalledWith(true);
+	});
+
+	it("should elect a single leader among concurrent participants", async () => {
+		const participants = [join(), join(), join()];
+
+		await wait(100);
+		expect(participants.filter((election) => election.isLeader)).toHaveLength(1);
+	});
+
+	it("should keep the leader when another participant joins", async () => {
+		const first = join();
+		await vi.waitFor(() => expect(first.isLeader).toBe(true));
+
+		const second = join();
+		await wait(100);
+		expect(first.isLeader).toBe(true);
+		expect(second.isLeader).toBe(false);
+	});
+
+	it("should fail over when the leader closes", async () => {
+		const first = join();
+		await vi.waitFor(() => expect(first.isLeader).toBe(true));
+		const second = join();
+		await wait(50);
+
+		first.close();
+		expect(first.isLeader).toBe(false);
+		await vi.waitFor(() => expect(second.isLeader).toBe(true));
+	});
+
+	it("should resign while the page is hidden and join again once restored from the back/forward cache", async () => {
+		const election = join();
+		await vi.waitFor(() => expect(election.isLeader).toBe(true));
+
+		window.dispatchEvent(new Event("pagehide"));
+		expect(election.isLeader).toBe(false);
+		await wait(100);
+		expect(election.isLeader).toBe(false);
+
+		window.dispatchEvent(Object.assign(new Event("pageshow"), { persisted: false }));
+		await wait(50);
+		expect(election.isLeader).toBe(false);
+
+		window.dispatchEvent(Object.assign(new Event("pageshow"), { persisted: true }));
+		await vi.waitFor(() => expect(election.isLeader).toBe(true));
+	});
+
+	it("should run delegated tasks in the leader only", async () => {
+		const leader = join();
+		await vi.waitFor(() => expect(leader.isLeader).toBe(true));
+		const follower = join();
+		await wait(50);
+
+		const onLeader = vi.fn();
+		const onFollower = vi.fn();
+		leader.onTask(onLeader);
+		follower.onTask(onFollower);
+
+		follower.delegate({ keyPath: "feed" });
+		leader.delegate({ keyPath: "news" });
+
+		await vi.waitFor(() => expect(onLeader).toHaveBeenCalledTimes(2));
+		expect(onLeader).toHaveBeenCalledWith({ keyPath: "feed" });
+		expect(onFollower).not.toHaveBeenCalled();
+	});
+});
+
+describe("HybridWebCache with leader election", () => {
+	const caches: HybridWebCache[] = [];
+	const open = () => {
+		const cache = new HybridWebCache("leader", { storage: StorageEngine.Memory, leaderElection: options, staleWhileRevalidate: true });
+		caches.push(cache);
+		return cache;
+	};
+
+	afterEach(() => {
+		caches.splice(0).forEach((cache) => cache.leaderElection?.close());
+	});
+
+	it("should do the background work in every instance without leader election", () => {
+		const cache = new HybridWebCache("leader", { storage: StorageEngine.Memory });
+		expect(cache.isLeader).toBe(true);
+		expect(cache.leaderElection).toBeUndefined();
+	});
+
+	it("should refresh stale values read by a follower in the leader tab", async () => {
+		const leader = open();
+		await vi.waitFor(() => expect(leader.isLeader).toBe(true));
+		const follower = open();
+		await wait(50);
+		expect(follower.isLeader).toBe(false);
+
+		const leaderLoader = vi.fn(() => "fresh");
+		const followerLoader = vi.fn(() => "fresh");
+		leader.registerLoader("feed", leaderLoader);
+		follower.registerLoader("feed", followerLoader);
+
+		leader.setSync("feed", "stale", 1);
+		follower.setSync("feed", "stale", 1);
+		await wait(5);
+
+		expect(follower.getSync("feed")?.isStale).toBe(true);
+		await vi.waitFor(() => expect(leaderLoader).toHaveBeenCalledTimes(1));
+		expect(followerLoader).not.toHaveBeenCalled();
+		expect(leader.getSync("feed")?.value).toBe("fresh");
+	});
+
+	it("should sweep in the leader tab only", async () => {
+		const leader = open();
+		await vi.waitFor(() => expect(leader.isLeader).toBe(true));
+		const follower = new HybridWebCache("leader", { storage: StorageEngine.Memory, leaderElection: options, sweeper: { interval: 10 } });
+		caches.push(follower);
+
+		follower.setSync("expired", "A", 1);
+		await wait(60);
+		expect(follower.isLeader).toBe(false);
+		expect(follower.length).toBe(1);
+
+		follower.stopSweeper();
+	});
+});
@@ -0,0 +1,157 @@
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { type CacheEvent, HybridWebCache, StorageEngine } from "../src";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("HybridWebCache namespace", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+		localStorage.clear();
+	});
+
+	it("should store the keys of a namespace with its prefix", async () => {
+		const cache = new HybridWebCache("ns", { storage: StorageEngine.Memory });
+		const orders = cache.namespace("orders");
+
+		await orders.set("items.0", "A");
+		cache.setSync("items", ["B"]);
+
+		expect(orders.getSync("items")?.value).toEqual(["A"]);
+		expect(cache.getSync("items")?.value).toEqual(["B"]);
+		expect(cache.hasSync(["orders:items"])).toBe(true);
+		expect(cache.getAllSync()?.get("orders:items")?.value).toEqual(["A"]);
+		expect(cache.namespace(" orders ")).toBe(orders);
+		expect(() => cache.namespace(" ")).toThrow("Namespace cannot be empty.");
+	});
+
+	it.each([StorageEngine.Memory, StorageEngine.LocalStorage, StorageEngine.IndexedDB])("should scope getAll, unset, length and bytes with storage %s", async (storage) => {
+		const cache = new HybridWebCache("ns-scope", { storage });
+		await cache.init();
+		const orders = cache.namespace("orders");
+		const users = cache.namespace("users");
+
+		await orders.set("1", { total: 10 });
+		await orders.set("2", { total: 20 });
+		await users.set("1", { name: "John" });
+		await cache.set("theme", "dark");
+
+		expect([...((await orders.getAll()) ?? new Map()).keys()]).toEqual(["1", "2"]);
+		expect(orders.getJsonSync()).toEqual({ 1: { total: 10 }, 2: { total: 20 } });
+		expect(orders.length).toBe(2);
+		expect(users.length).toBe(1);
+		expect(cache.length).toBe(4);
+		expect(orders.bytes + users.bytes).toBeLessThan(cache.bytes);
+		expect(orders.bytes).toBeGreaterThan(users.bytes);
+
+		// Parents list namespaced keys with their prefix
+		expect([...((await cache.getAll()) ?? new Map()).keys()].sort()).toEqual(["orders:1", "orders:2", "theme", "users:1"]);
+
+		expect(await orders.unset()).toBe(true);
+		expect(orders.length).toBe(0);
+		expect(await orders.unset()).toBe(false);
+		expect(users.getSync("1")?.value).toEqual({ name: "John" });
+		expect(cache.getSync("theme")?.value).toBe("dark");
+
+		users.unsetSync();
+		expect(cache.length).toBe(1);
+	});
+
+	it.each([StorageEngine.LocalStorage, StorageEngine.IndexedDB])("should clear a namespace in a single batch with storage %s", async (storage) => {
+		const cache = new HybridWebCache("ns-batch", { storage });
+		await cache.init();
+		const orders = cache.namespace("orders");
+		const users = cache.namespace("users");
+		await orders.setMany([
+			["1", 10],
+			["2", 20],
+		]);
+		await users.setMany([
+			["1", "John"],
+			["2", "Jane"],
+		]);
+		const postMessage = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+
+		expect(await orders.unset()).toBe(true);
+		expect(users.unsetSync()).toBe(true);
+
+		expect(postMessage).toHaveBeenCalledTimes(2);
+		expect(postMessage).toHaveBeenNthCalledWith(1, { action: "unsetMany", keys: ["orders:1", "orders:2"] });
+		expect(postMessage).toHaveBeenNthCalledWith(2, { action: "unsetMany", keys: ["users:1", "users:2"] });
+		expect(cache.length).toBe(0);
+		postMessage.mockRestore();
+	});
+
+	it("should share the storage channel and report the changes of the namespace made by other tabs", async () => {
+		const cache = new HybridWebCache("ns-tabs", { storage: StorageEngine.LocalStorage });
+		const otherTab = new HybridWebCache("ns-tabs", { storage: StorageEngine.LocalStorage });
+		const events: CacheEvent[] = [];
+		const channels = vi.spyOn(globalThis, "BroadcastChannel");
+
+		const orders = cache.namespace("orders");
+		orders.on("set", (event) => events.push(event));
+		expect(channels).not.toHaveBeenCalled();
+
+		otherTab.setSync("theme", "dark");
+		otherTab.namespace("users").setSync("1", "John");
+		otherTab.namespace("orders").setSync("1", 10);
+
+		await vi.waitFor(() => expect(orders.getSync("1")?.value).toBe(10));
+		await vi.waitFor(() => expect(events).toHaveLength(1));
+		expect(events[0]).toMatchObject({ type: "set", key: "1", remote: true });
+		channels.mockRestore();
+	});
+
+	it("should purge and find tags within the namespace only", async () => {
+		const cache = new HybridWebCache("ns-purge", { storage: StorageEngine.Memory });
+		const orders = cache.namespace("orders");
+
+		await orders.set("old", "A", { ttl: 1, tags: ["feed"] });
+		await cache.set("old", "B", { ttl: 1, tags: ["feed"] });
+		await wait(5);
+
+		expect([...(await orders.getByTag("feed", false)).keys()]).toEqual(["old"]);
+		expect(await orders.purgeExpired()).toBe(1);
+		expect(cache.hasSync("old")).toBe(true);
+		expect(await cache.purgeExpired()).toBe(1);
+	});
+
+	it("should read and remove the expired entries of a namespace through the parent", async () => {
+		const cache = new HybridWebCache("ns-expired", { storage: StorageEngine.Memory });
+		const orders = cache.namespace("orders");
+		const expired: CacheEvent[] = [];
+		cache.on("expire", (event) => expired.push(event));
+
+		await orders.set("1", "A", 1);
+		await orders.set("2", "B", 1);
+		await orders.set("3", "C");
+		await wait(5);
+
+		expect((await cache.find({ prefix: "orders:" }, false)).get("orders:1")?.value).toBe("A");
+		expect((await cache.getAll())?.get("orders:3")?.value).toBe("C");
+		expect(expired.map(({ key }) => key)).toEqual(["orders:1", "orders:2"]);
+		expect(orders.hasSync("1")).toBe(false);
+		expect(orders.hasSync("2")).toBe(false);
+
+		await orders.set("4", "D", 1);
+		await wait(5);
+		expect(cache.getAllSync()?.has("orders:4")).toBe(false);
+		expect(orders.hasSync("4")).toBe(false);
+	});
+
+	it("should leave the limits of the cache to the parent", async () => {
+		const evicted = vi.fn();
+		const cache = new HybridWebCache("ns-limits", { storage: StorageEngine.Memory, maxEntries: 2, onEvict: evicted });
+		const orders = cache.namespace("orders");
+
+		await orders.set("1", "A");
+		await orders.set("2", "B");
+		await cache.set("theme", "dark");
+
+		expect(cache.length).toBe(2);
+		expect(evicted).toHaveBeenCalledWith(["orders:1"]);
+		expect(orders.hasSync("1")).toBe(false);
+	});
+});
@@ -0,0 +1,85 @@
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HybridWebCache, StorageEngine } from "../src";
+import { IndexedDBStrategy } from "../src/core/strategies";
+
+describe("IndexedDBStrategy expiredKeys", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+	});
+
+	it("should query the expiresAt index instead of scanning the store", async () => {
+		const idb = new IndexedDBStrategy("purge");
+		await idb.set("expired", { value: "A", expiresAt: 1000 });
+		await idb.set("later", { value: "B", expiresAt: 5000 });
+		await idb.set("forever", { value: "C", expiresAt: 0 });
+
+		const getAll = vi.spyOn(idb, "getAll");
+
+		expect(await idb.expiredKeys(2000)).toEqual(["expired"]);
+		expect((await idb.expiredKeys(6000)).sort()).toEqual(["expired", "later"]);
+		expect(await idb.expiredKeys(6000, 1)).toHaveLength(1);
+		expect(getAll).not.toHaveBeenCalled();
+	});
+
+	it("should add the expiresAt index to a store created by a previous version", async () => {
+		await new Promise<void>((resolve) => {
+			const request = indexedDB.open("legacy", 1);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore("legacy", { keyPath: "key" }).put({ key: "expired", value: "A", expiresAt: 1000 });
+			};
+			request.onsuccess = () => {
+				request.result.close();
+				resolve();
+			};
+		});
+
+		const idb = new IndexedDBStrategy("legacy");
+		expect(await idb.expiredKeys(2000)).toEqual(["expired"]);
+	});
+});
+
+describe("HybridWebCache sweeper", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should purge expired entries in batches every interval", async () => {
+		vi.useFakeTimers();
+		const cache = new HybridWebCache("sweeper", { storage: StorageEngine.Memory, sweeper: { interval: 1000, batchSize: 2 } });
+
+		cache.setSync("a", "A", 500);
+		cache.setSync("b", "B", 500);
+		cache.setSync("c", "C", 500);
+		cache.setSync("fresh", "D", 60000);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(cache.length).toBe(2);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(cache.length).toBe(1);
+		expect(cache.hasSync("fresh")).toBe(true);
+
+		cache.stopSweeper();
+	});
+
+	it("should only run once started when disabled in options", async () => {
+		vi.useFakeTimers();
+		const cache = new HybridWebCache("sweeper", { storage: StorageEngine.Memory, sweeper: { enabled: false, interval: 1000 } });
+		const purge = vi.spyOn(cache, "purgeExpired");
+
+		await vi.advanceTimersByTimeAsync(3000);
+		expect(purge).not.toHaveBeenCalled();
+
+		cache.startSweeper();
+		cache.startSweeper(); // already running
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(purge).toHaveBeenCalledTimes(1);
+
+		cache.stopSweeper();
+		await vi.advanceTimersByTimeAsync(3000);
+		expect(purge).toHaveBeenCalledTimes(1);
+	});
+});
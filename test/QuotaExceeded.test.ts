@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { HybridWebCache, QuotaExceededError, StorageEngine } from "../src";
+import { LocalStorageStrategy, SessionStorageStrategy } from "../src/core/strategies";
+import { Utils } from "../src/core/utils";
+import { MockQuotaStorage } from "./mocks/MockQuotaStorage";
+
+const QUOTA = 300;
+
+const mockQuota = (storage: "localStorage" | "sessionStorage") => {
+	const mock = new MockQuotaStorage(QUOTA);
+	Object.defineProperty(window, storage, { value: mock, writable: true });
+	return mock;
+};
+
+const value = (size: number) => "x".repeat(size);
+
+describe("QuotaExceededError in web storages", () => {
+	it.each([
+		{ name: "LocalStorage", storage: "localStorage" as const, create: () => new LocalStorageStrategy("quota") },
+		{ name: "SessionStorage", storage: "sessionStorage" as const, create: () => new SessionStorageStrategy("quota") },
+	])("$name should throw a typed error and keep the memory cache consistent", ({ name, storage, create }) => {
+		const mock = mockQuota(storage);
+		const strategy = create();
+
+		strategy.setSync("a", { value: "A", expiresAt: 0 });
+		expect(() => strategy.setSync("a", { value: value(QUOTA), expiresAt: 0 })).toThrowError(QuotaExceededError);
+
+		expect(strategy.getSync("a")).toEqual({ value: "A", expiresAt: 0 });
+		expect(JSON.parse(mock.getItem("quota::a") ?? "{}").value).toBe("A");
+		expect(() => strategy.setSync("b", { value: value(QUOTA), expiresAt: 0 })).toThrowError(`${name} quota exceeded while storing "b"`);
+		expect(strategy.hasSync("b")).toBe(false);
+		expect(strategy.length).toBe(1);
+	});
+
+	it("should recognize the quota errors thrown by browsers", () => {
+		expect(Utils.isQuotaExceededError(new DOMException("full", "QuotaExceededError"))).toBe(true);
+		expect(Utils.isQuotaExceededError(new DOMException("full", "NS_ERROR_DOM_QUOTA_REACHED"))).toBe(true);
+		expect(Utils.isQuotaExceededError(new Error("other"))).toBe(false);
+		expect(Utils.isQuotaExceededError(undefined)).toBe(false);
+	});
+});
+
+describe("HybridWebCache quota recovery", () => {
+	beforeEach(() => {
+		mockQuota("localStorage");
+	});
+
+	it("should evict the expired entries first and retry", async () => {
+		const onEvict = vi.fn();
+		const cache = new HybridWebCache("quota", { storage: StorageEngine.LocalStorage, onEvict });
+
+		await cache.set("fresh", value(40));
+		await cache.set("old", value(40), 1);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await cache.set("big", value(120));
+
+		expect(cache.hasSync("old")).toBe(false);
+		expect(cache.hasSync("fresh")).toBe(true);
+		expect(cache.getSync("big")?.value).toBe(value(120));
+		expect(onEvict).toHaveBeenCalledWith(["old"]);
+	});
+
+	it("should then evict by policy, one key at a time, until the write fits", () => {
+		const onEvict = vi.fn();
+		const cache = new HybridWebCache("quota", { storage: StorageEngine.LocalStorage, onEvict });
+
+		cache.setSync("a", value(40));
+		cache.setSync("b", value(40));
+		cache.setSync("c", value(40));
+		cache.getSync("a"); // "b" is now the least recently used
+		cache.setSync("d", value(50));
+
+		expect(cache.hasSync("b")).toBe(false);
+		expect(cache.hasSync("a")).toBe(true);
+		expect(cache.getSync("d")?.value).toBe(value(50));
+		expect(onEvict).toHaveBeenCalledWith(["b"]);
+	});
+
+	it("should reject with a QuotaExceededError when recovery is disabled", async () => {
+		const cache = new HybridWebCache("quota", { storage: StorageEngine.LocalStorage, quota: { evictExpired: false, evictByPolicy: false } });
+
+		await cache.set("a", value(40), 1);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await expect(cache.set("big", value(QUOTA))).rejects.toBeInstanceOf(QuotaExceededError);
+		expect(() => cache.setSync("big", value(QUOTA))).toThrowError(QuotaExceededError);
+
+		expect(cache.hasSync("big")).toBe(false);
+		expect(cache.length).toBe(1);
+	});
+
+	it("should reject with a QuotaExceededError when the value can never fit", async () => {
+		const cache = new HybridWebCache("quota", { storage: StorageEngine.LocalStorage });
+
+		await cache.set("a", value(40));
+		await expect(cache.set("huge", value(QUOTA))).rejects.toMatchObject({ name: "QuotaExceededError", key: "huge", storage: StorageEngine.LocalStorage });
+		expect(cache.length).toBe(0);
+	});
+
+	it("should not fall back to another engine when the storage is only full", async () => {
+		Utils.isLocalStorageAvailable = () => true;
+		const cache = new HybridWebCache("quota", { fallbackChain: [StorageEngine.LocalStorage, StorageEngine.Memory], quota: { evictByPolicy: false } });
+
+		await expect(cache.set("huge", value(QUOTA))).rejects.toBeInstanceOf(QuotaExceededError);
+		expect(cache.storageType).toBe(StorageEngine.LocalStorage);
+		expect(cache.info.fallbacks).toBeUndefined();
+	});
+});
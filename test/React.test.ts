@@ -0,0 +1,136 @@
+import { act, createElement, type ReactNode } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HybridWebCache, StorageEngine } from "../src";
+import { type CacheStateSetter, HybridWebCacheProvider, useCacheState, useCacheValue } from "../src/react";
+
+// Lets act() flush the updates of the rendered components
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("React bindings", () => {
+	let container: HTMLElement;
+	let root: Root;
+
+	const render = async (cache: HybridWebCache, children: ReactNode) => {
+		await act(async () => root.render(createElement(HybridWebCacheProvider, { cache }, children)));
+	};
+
+	beforeEach(() => {
+		container = document.createElement("div");
+		root = createRoot(container);
+	});
+
+	afterEach(() => {
+		act(() => root.unmount());
+		vi.restoreAllMocks();
+	});
+
+	describe("useCacheValue", () => {
+		it("should render the stored value and re-render on changes", async () => {
+			const cache = new HybridWebCache("react", { storage: StorageEngine.Memory });
+			cache.setSync("user", { name: "John" });
+			const renders = vi.fn();
+
+			const Name = () => {
+				const name = useCacheValue<string>("user.name");
+				renders();
+				return name ?? "none";
+			};
+			await render(cache, createElement(Name));
+			expect(container.textContent).toBe("John");
+
+			await act(() => cache.set("user.name", "Jane"));
+			expect(container.textContent).toBe("Jane");
+
+			// Writing an equal value or another keyPath does not re-render
+			const count = renders.mock.calls.length;
+			await act(() => cache.set("user", { name: "Jane", age: 42 }));
+			expect(renders).toHaveBeenCalledTimes(count);
+
+			await act(() => cache.unset("user"));
+			expect(container.textContent).toBe("none");
+		});
+
+		it("should re-render on changes made by another tab", async () => {
+			localStorage.clear();
+			const cache = new HybridWebCache("react-tabs", { storage: StorageEngine.LocalStorage });
+			const otherTab = new HybridWebCache("react-tabs", { storage: StorageEngine.LocalStorage });
+
+			const Theme = () => useCacheValue<string>("theme") ?? "light";
+			await render(cache, createElement(Theme));
+			expect(container.textContent).toBe("light");
+
+			await act(async () => {
+				otherTab.setSync("theme", "dark");
+				await vi.waitFor(() => expect(cache.getSync("theme")?.value).toBe("dark"));
+			});
+			await vi.waitFor(() => expect(container.textContent).toBe("dark"));
+		});
+
+		it("should render without side effects and remove an expired value once mounted", async () => {
+			const cache = new HybridWebCache("react-expired", { storage: StorageEngine.Memory });
+			cache.setSync("token", "abc", 1);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			const expired = vi.fn();
+			cache.on("expire", expired);
+			const rendered = vi.fn();
+
+			const Token = () => {
+				const token = useCacheValue<string>(["token"]);
+				rendered(expired.mock.calls.length);
+				return token ?? "none";
+			};
+			await render(cache, createElement(Token));
+
+			expect(container.textContent).toBe("none");
+			expect(rendered.mock.calls[0]).toEqual([0]); // nothing expired during the first render
+			expect(expired).toHaveBeenCalledTimes(1);
+			expect(cache.hasSync("token")).toBe(false);
+		});
+
+		it("should keep its subscription while the keyPath is equal", async () => {
+			const cache = new HybridWebCache("react-keypath", { storage: StorageEngine.Memory });
+			const subscribe = vi.spyOn(cache, "subscribe");
+
+			const Name = ({ suffix }: { suffix: string }) => `${useCacheValue<string>(["user", "name"]) ?? "none"}${suffix}`;
+			await render(cache, createElement(Name, { suffix: "!" }));
+			await render(cache, createElement(Name, { suffix: "?" }));
+
+			expect(container.textContent).toBe("none?");
+			expect(subscribe).toHaveBeenCalledTimes(1);
+		});
+
+		it("should throw outside of a HybridWebCacheProvider", () => {
+			const Orphan = () => useCacheValue("theme") as string;
+			vi.spyOn(console, "error").mockImplementation(() => {});
+
+			expect(() => act(() => root.render(createElement(Orphan)))).toThrow("useHybridWebCache must be used within a HybridWebCacheProvider.");
+		});
+	});
+
+	describe("useCacheState", () => {
+		it("should return the initial value and write through set", async () => {
+			const cache = new HybridWebCache("react-state", { storage: StorageEngine.Memory });
+			let setCount: CacheStateSetter<number> = async () => {};
+
+			const Counter = () => {
+				const [count, set] = useCacheState("counter", 0, { seconds: 30 });
+				setCount = set;
+				return String(count);
+			};
+			const Mirror = () => String(useCacheValue<number>("counter") ?? "-");
+			await render(cache, [createElement(Counter, { key: "counter" }), createElement(Mirror, { key: "mirror" })]);
+			expect(container.textContent).toBe("0-");
+
+			await act(() => setCount(5));
+			expect(container.textContent).toBe("55");
+
+			await act(() => setCount((count) => count + 1));
+			expect(container.textContent).toBe("66");
+
+			const stored = cache.getSync<number>("counter");
+			expect(stored?.value).toBe(6);
+			expect(stored?.expiresAt).toBeGreaterThan(Date.now() + 25_000);
+		});
+	});
+});
@@ -0,0 +1,214 @@
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { HybridWebCache, type ScanPage, StorageEngine } from "../src";
+import { IndexedDBStrategy } from "../src/core/strategies";
+import { Utils } from "../src/core/utils";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const entry = (value: string) => ({ value, expiresAt: 0 });
+
+describe("Utils pages", () => {
+	it("should page through entries held in memory", () => {
+		const entries = new Map(["c", "a", "b", "ab"].map((key) => [key, entry(key)]));
+
+		const first = Utils.pageOf(entries, { limit: 2 });
+		expect([...first.entries.keys()]).toEqual(["a", "ab"]);
+		expect(first.next).toBe("ab");
+
+		const last = Utils.pageOf(entries, { limit: 2, after: first.next });
+		expect([...last.entries.keys()]).toEqual(["b", "c"]);
+		expect(last.next).toBeUndefined();
+
+		expect([...Utils.pageOf(entries, { limit: 5, prefix: "a" }).entries.keys()]).toEqual(["a", "ab"]);
+		expect(Utils.pageOf(null, { limit: 5 }).entries.size).toBe(0);
+	});
+
+	it("should merge pages, the last one winning for duplicate keys", () => {
+		const merged = Utils.mergePages(
+			2,
+			{ entries: new Map([["b", entry("old")]]) },
+			{
+				entries: new Map([
+					["b", entry("new")],
+					["a", entry("a")],
+				]),
+				next: "b",
+			}
+		);
+
+		expect([...merged.entries]).toEqual([
+			["a", entry("a")],
+			["b", entry("new")],
+		]);
+		expect(merged.next).toBe("b");
+		expect(Utils.mergePages(2, { entries: new Map() }).next).toBeUndefined();
+	});
+});
+
+describe("IndexedDBStrategy lazy mode", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+	});
+
+	const fill = async (count: number) => {
+		const idb = new IndexedDBStrategy("lazy");
+		for (let i = 0; i < count; i++) await idb.set(`product:${i}`, entry(`P${i}`));
+		return idb;
+	};
+
+	it("should not load the store into memory on init", async () => {
+		await fill(5);
+		const lazy = new IndexedDBStrategy("lazy", undefined, { lazy: true });
+		await lazy.init();
+
+		expect(lazy.length).toBe(0);
+		expect(lazy.getSync("product:1")).toBeUndefined();
+		expect((await lazy.get("product:1"))?.value).toBe("P1");
+		expect(lazy.getSync("product:1")?.value).toBe("P1");
+		expect((await lazy.getAll())?.size).toBe(5);
+		expect(lazy.length).toBe(1);
+	});
+
+	it("should keep at most maxResident entries in memory, dropping the least recently used", async () => {
+		const lazy = new IndexedDBStrategy("lazy", undefined, { lazy: true, maxResident: 2 });
+		await lazy.set("a", entry("A"));
+		await lazy.set("b", entry("B"));
+		await lazy.get("a");
+		await lazy.set("c", entry("C"));
+
+		expect([...(lazy.getAllSync()?.keys() ?? [])]).toEqual(["a", "c"]);
+		expect(lazy.bytes).toBe(Utils.calculateEntryBytes("a", entry("A")) + Utils.calculateEntryBytes("c", entry("C")));
+		expect((await lazy.get("b"))?.value).toBe("B");
+		expect(lazy.hasSync("a")).toBe(false);
+	});
+
+	it("should remove the entries not held in memory", async () => {
+		await fill(3);
+		const lazy = new IndexedDBStrategy("lazy", undefined, { lazy: true });
+
+		expect(await lazy.unset("product:0")).toBe(true);
+		expect(await lazy.unset("product:0")).toBe(false);
+		expect(lazy.unsetSync("product:1")).toBe(false); // not resident, but removed from the database
+		await vi.waitFor(async () => expect(await lazy.has("product:1")).toBe(false));
+
+		expect(await lazy.unset()).toBe(true);
+		expect(await lazy.getAll()).toBeNull();
+		expect(await lazy.unset()).toBe(false);
+	});
+
+	it("should read pages of a key range without loading them into memory", async () => {
+		const idb = await fill(5);
+		await idb.set("user:1", entry("U1"));
+		const lazy = new IndexedDBStrategy("lazy", undefined, { lazy: true });
+		const getAll = vi.spyOn(lazy, "getAll");
+
+		const first = await lazy.scan({ limit: 2, prefix: "product:" });
+		expect([...first.entries]).toEqual([
+			["product:0", entry("P0")],
+			["product:1", entry("P1")],
+		]);
+		expect(first.next).toBe("product:1");
+
+		const second = await lazy.scan({ limit: 2, prefix: "product:", after: first.next });
+		const last = await lazy.scan({ limit: 2, prefix: "product:", after: second.next });
+		expect([...second.entries.keys(), ...last.entries.keys()]).toEqual(["product:2", "product:3", "product:4"]);
+		expect(last.next).toBeUndefined();
+
+		expect([...(await lazy.scan({ limit: 10, after: "product:4" })).entries.keys()]).toEqual(["user:1"]);
+		expect((await lazy.scan({ limit: 10, prefix: "product:", after: "user:" })).entries.size).toBe(0);
+		expect([...(await lazy.scan({ limit: 10, prefix: "user:", after: "a" })).entries.keys()]).toEqual(["user:1"]);
+
+		expect(lazy.length).toBe(0);
+		expect(getAll).not.toHaveBeenCalled();
+	});
+});
+
+describe("HybridWebCache scan", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+		localStorage.clear();
+	});
+
+	const keysOf = (page: ScanPage<unknown>) => [...page.entries.keys()];
+
+	it.each([StorageEngine.Memory, StorageEngine.LocalStorage, StorageEngine.IndexedDB, StorageEngine.Hybrid])("should page through the entries with storage %s", async (storage) => {
+		const cache = new HybridWebCache("scan", { storage, sizeThreshold: 20 });
+		await cache.init();
+		await cache.set("item:3", "C");
+		await cache.set("item:1", "A".repeat(50));
+		await cache.set("item:2", "B");
+		await cache.set("other", "X");
+
+		const first = await cache.scan({ prefix: "item:", limit: 2 });
+		expect(keysOf(first)).toEqual(["item:1", "item:2"]);
+		expect(first.entries.get("item:2")?.value).toBe("B");
+
+		const last = await cache.scan({ prefix: "item:", limit: 2, after: first.next });
+		expect(keysOf(last)).toEqual(["item:3"]);
+		expect(last.next).toBeUndefined();
+
+		expect(keysOf(await cache.scan())).toEqual(["item:1", "item:2", "item:3", "other"]);
+	});
+
+	it("should skip the expired entries unless asked to return them", async () => {
+		const cache = new HybridWebCache("scan-expired", { storage: StorageEngine.Memory });
+		await cache.set("a", "A", 1);
+		await cache.set("b", "B");
+		await wait(5);
+
+		expect((await cache.scan({}, false)).entries.get("a")?.isExpired).toBe(true);
+		expect(keysOf(await cache.scan())).toEqual(["b"]);
+		expect(cache.hasSync("a")).toBe(false);
+	});
+
+	it("should read through and remove the entries of a lazy IndexedDB cache", async () => {
+		const writer = new HybridWebCache("scan-lazy", { storage: StorageEngine.IndexedDB });
+		for (let i = 0; i < 5; i++) await writer.set(`p${i}`, i);
+
+		const cache = new HybridWebCache("scan-lazy", { storage: StorageEngine.IndexedDB, indexedDB: { lazy: true, maxResident: 2 } });
+		await cache.init();
+
+		expect(cache.length).toBe(0);
+		expect(cache.getSync("p1")).toBeUndefined();
+		expect((await cache.get("p1"))?.value).toBe(1);
+		expect(cache.getSync("p1")?.value).toBe(1);
+
+		const page = await cache.scan({ limit: 3 });
+		expect(keysOf(page)).toEqual(["p0", "p1", "p2"]);
+		expect(cache.length).toBe(1);
+
+		expect(await cache.unset("p4")).toBe(true);
+		expect(await cache.has("p4")).toBe(false);
+	});
+
+	it("should scan within a namespace and through the tiered storage", async () => {
+		const cache = new HybridWebCache("scan-tiered", {
+			storage: StorageEngine.IndexedDB,
+			tiered: { l1: { maxEntries: 1 }, writePolicy: "write-back" },
+		});
+		await cache.init();
+		const reports = cache.namespace("reports");
+
+		await reports.set("2023", 1);
+		await reports.set("2024", 2);
+		await cache.flush();
+		reports.setSync("2024", 3); // pending in L1
+		reports.setSync("2025", 4);
+		cache.setSync("theme", "dark");
+
+		const first = await reports.scan({ limit: 2 });
+		expect(keysOf(first)).toEqual(["2023", "2024"]);
+		expect(first.entries.get("2024")?.value).toBe(3);
+		expect(first.next).toBe("2024");
+
+		const last = await reports.scan({ limit: 2, after: first.next });
+		expect(keysOf(last)).toEqual(["2025"]);
+		expect(last.next).toBeUndefined();
+
+		expect(keysOf(await cache.scan({ prefix: "reports:", limit: 10 }))).toEqual(["reports:2023", "reports:2024", "reports:2025"]);
+	});
+});
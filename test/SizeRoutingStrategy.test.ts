@@ -0,0 +1,119 @@
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { type CacheEvent, HybridWebCache, StorageEngine } from "../src";
+import { MemoryStrategy, SizeRoutingStrategy } from "../src/core/strategies";
+
+const data = (value: string) => ({ value, expiresAt: 0 });
+
+describe("SizeRoutingStrategy", () => {
+	let small: MemoryStrategy;
+	let large: MemoryStrategy;
+	let routing: SizeRoutingStrategy;
+
+	beforeEach(() => {
+		small = new MemoryStrategy();
+		large = new MemoryStrategy();
+		routing = new SizeRoutingStrategy(small, large, 50);
+	});
+
+	it("should store values up to the threshold in the small storage", async () => {
+		await routing.set("a", data("small"));
+
+		expect(small.hasSync("a")).toBe(true);
+		expect(large.hasSync("a")).toBe(false);
+		expect(await routing.get("a")).toEqual(data("small"));
+	});
+
+	it("should store values above the threshold in the large storage", () => {
+		routing.setSync("a", data("x".repeat(100)));
+
+		expect(small.hasSync("a")).toBe(false);
+		expect(large.hasSync("a")).toBe(true);
+		expect(routing.getSync("a")).toEqual(data("x".repeat(100)));
+	});
+
+	it("should move a value to the other storage when it crosses the threshold", async () => {
+		await routing.set("a", data("small"));
+		await routing.set("a", data("x".repeat(100)));
+		expect(small.hasSync("a")).toBe(false);
+		expect(large.hasSync("a")).toBe(true);
+
+		routing.setSync("a", data("small"));
+		expect(small.hasSync("a")).toBe(true);
+		expect(large.hasSync("a")).toBe(false);
+		expect(routing.length).toBe(1);
+	});
+
+	it("should consult both storages in has, getAll and unset", async () => {
+		await routing.set("a", data("small"));
+		await routing.set("b", data("x".repeat(100)));
+
+		expect(await routing.has("a")).toBe(true);
+		expect(routing.hasSync("b")).toBe(true);
+		expect(await routing.getAll()).toEqual(
+			new Map([
+				["a", data("small")],
+				["b", data("x".repeat(100))],
+			])
+		);
+		expect(routing.length).toBe(2);
+		expect(routing.bytes).toBe(small.bytes + large.bytes);
+
+		expect(await routing.unset("b")).toBe(true);
+		expect(routing.hasSync("b")).toBe(false);
+		expect(routing.unsetSync()).toBe(true);
+		expect(routing.getAllSync()).toBeNull();
+	});
+
+	it("should read the small storage first for a key held by both, whether paged or not", async () => {
+		small.setSync("a", data("small"));
+		large.setSync("a", data("large"));
+
+		expect(routing.getSync("a")).toEqual(data("small"));
+		expect((await routing.getAll())?.get("a")).toEqual(data("small"));
+		expect((await routing.scan({ limit: 10 })).entries.get("a")).toEqual(data("small"));
+	});
+
+	it("should route by Options.sizeThreshold with StorageEngine.Hybrid", async () => {
+		localStorage.clear();
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+
+		const cache = new HybridWebCache("routing", { storage: StorageEngine.Hybrid, sizeThreshold: 100 });
+		await cache.init();
+
+		await cache.set("settings", { theme: "dark" });
+		await cache.set("report", { rows: "x".repeat(200) });
+
+		expect(cache.storageType).toBe(StorageEngine.Hybrid);
+		expect(localStorage.getItem("routing::settings")).not.toBeNull();
+		expect(localStorage.getItem("routing::report")).toBeNull();
+		expect(cache.getSync("report.rows")?.value).toBe("x".repeat(200));
+		expect(await cache.getJson()).toEqual({ settings: { theme: "dark" }, report: { rows: "x".repeat(200) } });
+	});
+
+	it("should only report a set to other tabs when a value crosses the threshold", async () => {
+		localStorage.clear();
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+
+		const writer = new HybridWebCache("routing-tabs", { storage: StorageEngine.Hybrid, sizeThreshold: 100 });
+		const reader = new HybridWebCache("routing-tabs", { storage: StorageEngine.Hybrid, sizeThreshold: 100 });
+		await Promise.all([writer.init(), reader.init()]);
+		const events: CacheEvent[] = [];
+		reader.on("set", (event) => events.push(event));
+		reader.on("unset", (event) => events.push(event));
+
+		writer.setSync("report", { rows: "x" });
+		await vi.waitFor(() => expect(events).toHaveLength(1));
+
+		await writer.set("report", { rows: "x".repeat(200) });
+		await vi.waitFor(() => expect(events).toHaveLength(2));
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(events.map(({ type }) => type)).toEqual(["set", "set"]);
+		expect(reader.getSync("report.rows")?.value).toBe("x".repeat(200));
+
+		await writer.unset("report");
+		await vi.waitFor(() => expect(events).toHaveLength(3));
+		expect(events[2].type).toBe("unset");
+	});
+});
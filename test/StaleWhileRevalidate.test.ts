@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import { HybridWebCache, StorageEngine } from "../src";
+
+const expire = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("HybridWebCache stale-while-revalidate", () => {
+	it("should return the expired value flagged as stale and refresh it in the background", async () => {
+		const onRevalidate = vi.fn();
+		const cache = new HybridWebCache("swr", { storage: StorageEngine.Memory, staleWhileRevalidate: true, onRevalidate });
+		cache.registerLoader("feed.items", async () => ["fresh"], { minutes: 1 });
+
+		cache.setSync("feed.items", ["stale"], 1);
+		await expire();
+
+		expect(cache.getSync("feed.items")).toMatchObject({ value: ["stale"], isExpired: true, isStale: true });
+
+		await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledWith("feed.items", ["fresh"]));
+		expect(await cache.get("feed.items")).toMatchObject({ value: ["fresh"], isExpired: false });
+		expect((await cache.get("feed.items"))?.isStale).toBeUndefined();
+	});
+
+	it("should refresh a value read concurrently only once", async () => {
+		const loader = vi.fn(async () => "fresh");
+		const cache = new HybridWebCache("swr", { storage: StorageEngine.Memory, staleWhileRevalidate: true });
+		cache.registerLoader(["token"], loader);
+
+		cache.setSync("token", "stale", 1);
+		await expire();
+
+		const reads = await Promise.all([cache.get("token"), cache.get("token"), cache.getOrSet("token", loader)]);
+		expect(reads.map((read) => (typeof read === "string" ? read : read?.value))).toEqual(["stale", "stale", "fresh"]);
+		expect(loader).toHaveBeenCalledTimes(1);
+	});
+
+	it("should make getOrSet of a stale value wait for its revalidation instead of loading it again", async () => {
+		const onRevalidate = vi.fn();
+		const registered = vi.fn(async () => "revalidated");
+		const loader = vi.fn(async () => "loaded");
+		const cache = new HybridWebCache("swr", { storage: StorageEngine.Memory, staleWhileRevalidate: true, onRevalidate });
+		cache.registerLoader("token", registered);
+
+		cache.setSync("token", "stale", 1);
+		await expire();
+
+		expect(await cache.getOrSet("token", loader)).toBe("revalidated");
+		expect(registered).toHaveBeenCalledTimes(1);
+		expect(loader).not.toHaveBeenCalled();
+		expect(onRevalidate).toHaveBeenCalledWith("token", "revalidated");
+	});
+
+	it("should keep the stale value when the loader fails", async () => {
+		const onRevalidate = vi.fn();
+		const loader = vi.fn(async () => {
+			throw new Error("offline");
+		});
+		const cache = new HybridWebCache("swr", { storage: StorageEngine.Memory, staleWhileRevalidate: true, onRevalidate });
+		cache.registerLoader("feed", loader);
+
+		cache.setSync("feed", "stale", 1);
+		await expire();
+
+		expect(cache.getSync("feed")?.isStale).toBe(true);
+		await vi.waitFor(() => expect(loader).toHaveBeenCalledTimes(1));
+		expect((await cache.get("feed"))?.value).toBe("stale");
+		expect(onRevalidate).not.toHaveBeenCalled();
+	});
+
+	it("should remove expired values without a registered loader", async () => {
+		const cache = new HybridWebCache("swr", { storage: StorageEngine.Memory, staleWhileRevalidate: true });
+		const unregister = cache.registerLoader("feed", () => "fresh");
+		unregister();
+
+		cache.setSync("feed", "stale", 1);
+		await expire();
+
+		expect(cache.getSync("feed")).toBeUndefined();
+	});
+});
@@ -2,8 +2,8 @@ import { describe, expect, it } from 'vitest';
 
 import { Utils } from '../src/core/utils';
 import { StorageFactory } from '../src/core/StorageFactory';
-import { StorageEngine } from '../src';
-import { IndexedDBStrategy, LocalStorageStrategy, MemoryStrategy, SessionStorageStrategy } from '../src/core/strategies';
+import { HybridWebCache, StorageEngine } from '../src';
+import { CacheStorageStrategy, IndexedDBStrategy, LocalStorageStrategy, MemoryStrategy, OPFSStrategy, SessionStorageStrategy, SizeRoutingStrategy } from '../src/core/strategies';
 
 describe('StorageFactory', () => {
   describe('createStorage', () => {
@@ -40,6 +40,41 @@ describe('StorageFactory', () => {
       expect(() => StorageFactory.createStorage(StorageEngine.IndexedDB, 'baseName', 'storeName')).toThrowError('IndexedDB is not available');
     });
 
+    it('should create CacheStorage when available', () => {
+      Utils.isCacheStorageAvailable = () => true;
+      const storage = StorageFactory.createStorage(StorageEngine.CacheStorage, 'baseName');
+      expect(storage instanceof CacheStorageStrategy).toBe(true);
+    });
+
+    it('should throw error when CacheStorage is not available', () => {
+      Utils.isCacheStorageAvailable = () => false;
+      expect(() => StorageFactory.createStorage(StorageEngine.CacheStorage, 'baseName')).toThrowError('CacheStorage is not available');
+    });
+
+    it('should create OPFS when available', () => {
+      Utils.isOPFSAvailable = () => true;
+      const storage = StorageFactory.createStorage(StorageEngine.OPFS, 'baseName');
+      expect(storage instanceof OPFSStrategy).toBe(true);
+    });
+
+    it('should throw error when OPFS is not available', () => {
+      Utils.isOPFSAvailable = () => false;
+      expect(() => StorageFactory.createStorage(StorageEngine.OPFS, 'baseName')).toThrowError('OPFS is not available');
+    });
+
+    it('should create Hybrid when LocalStorage and IndexedDB are available', () => {
+      Utils.isLocalStorageAvailable = () => true;
+      Utils.isIndexedDBAvailable = () => true;
+      const storage = StorageFactory.createStorage(StorageEngine.Hybrid, 'baseName');
+      expect(storage instanceof SizeRoutingStrategy).toBe(true);
+    });
+
+    it('should throw error when Hybrid is not available', () => {
+      Utils.isLocalStorageAvailable = () => true;
+      Utils.isIndexedDBAvailable = () => false;
+      expect(() => StorageFactory.createStorage(StorageEngine.Hybrid, 'baseName')).toThrowError('Hybrid is not available');
+    });
+
     it('should select LocalStorage when Auto and LocalStorage is available', () => {
       Utils.isLocalStorageAvailable = () => true;
       const storage = StorageFactory.createStorage(StorageEngine.Auto, 'baseName');
@@ -53,25 +88,96 @@ describe('StorageFactory', () => {
       expect(storage instanceof IndexedDBStrategy).toBe(true);
     });
 
-    it('should select SessionStorage when Auto and SessionStorage is available', () => {
+    it('should select SessionStorage when Auto and SessionStorage is available, even with CacheStorage', () => {
       Utils.isLocalStorageAvailable = () => false;
       Utils.isIndexedDBAvailable = () => false;
+      Utils.isCacheStorageAvailable = () => true;
       Utils.isSessionStorageAvailable = () => true;
       const storage = StorageFactory.createStorage(StorageEngine.Auto, 'baseName');
       expect(storage instanceof SessionStorageStrategy).toBe(true);
     });
 
+    it('should select CacheStorage when Auto and only CacheStorage is available', () => {
+      Utils.isLocalStorageAvailable = () => false;
+      Utils.isIndexedDBAvailable = () => false;
+      Utils.isSessionStorageAvailable = () => false;
+      Utils.isCacheStorageAvailable = () => true;
+      const storage = StorageFactory.createStorage(StorageEngine.Auto, 'baseName');
+      expect(storage instanceof CacheStorageStrategy).toBe(true);
+    });
+
     it('should select MemoryStrategy when Auto and no storage is available', () => {
       Utils.isLocalStorageAvailable = () => false;
       Utils.isIndexedDBAvailable = () => false;
+      Utils.isCacheStorageAvailable = () => false;
       Utils.isSessionStorageAvailable = () => false;
       const storage = StorageFactory.createStorage(StorageEngine.Auto, 'baseName');
       expect(storage instanceof MemoryStrategy).toBe(true);
     });
 
+    it('should follow fallbackChain when Auto', () => {
+      Utils.isLocalStorageAvailable = () => true;
+      Utils.isIndexedDBAvailable = () => false;
+      Utils.isSessionStorageAvailable = () => true;
+      const storage = StorageFactory.createStorage(StorageEngine.Auto, 'baseName', undefined, {
+        fallbackChain: [StorageEngine.IndexedDB, StorageEngine.SessionStorage, StorageEngine.LocalStorage],
+      });
+      expect(storage instanceof SessionStorageStrategy).toBe(true);
+    });
+
     it('should select MemoryStrategy when type is not recognized', () => {
       const storage = StorageFactory.createStorage(999 as any, 'baseName');
       expect(storage instanceof MemoryStrategy).toBe(true);
     });
   });
+
+  describe('register', () => {
+    it('should create a registered storage by name', () => {
+      const memory = new MemoryStrategy();
+      StorageFactory.register('custom', () => memory);
+
+      expect(StorageFactory.isRegistered('custom')).toBe(true);
+      expect(StorageFactory.createStorage('custom', 'baseName')).toBe(memory);
+    });
+
+    it('should pass baseName and storeName to the creator', () => {
+      let args: unknown[] = [];
+      StorageFactory.register('custom', (...params) => {
+        args = params;
+        return new MemoryStrategy();
+      });
+
+      StorageFactory.createStorage('custom', 'baseName', 'storeName');
+      expect(args).toEqual(['baseName', 'storeName']);
+    });
+
+    it('should throw error when name is empty or creator is not a function', () => {
+      expect(() => StorageFactory.register(' ', () => new MemoryStrategy())).toThrowError('Storage name cannot be empty.');
+      expect(() => StorageFactory.register('custom', {} as any)).toThrowError('Storage "custom" must be registered with a creator function.');
+    });
+
+    it('should throw error when the storage is not registered', () => {
+      StorageFactory.unregister('custom');
+      expect(StorageFactory.isRegistered('custom')).toBe(false);
+      expect(() => StorageFactory.createStorage('custom', 'baseName')).toThrowError('Storage "custom" is not registered');
+    });
+
+    it('should return a StorageBase instance as is and call a StorageCreator', () => {
+      const memory = new MemoryStrategy();
+      expect(StorageFactory.createStorage(memory, 'baseName')).toBe(memory);
+      expect(StorageFactory.createStorage(() => memory, 'baseName')).toBe(memory);
+    });
+
+    it('should let HybridWebCache use a registered storage', async () => {
+      const memory = new MemoryStrategy();
+      StorageFactory.register('custom', () => memory);
+
+      const cache = new HybridWebCache('baseName', { storage: 'custom' });
+      await cache.set('user.name', 'John');
+
+      expect(memory.getSync('user')?.value).toEqual({ user: { name: 'John' } });
+      expect(cache.storageType).toBe(StorageEngine.Memory);
+      StorageFactory.unregister('custom');
+    });
+  });
 });
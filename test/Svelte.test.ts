@@ -0,0 +1,62 @@
+import { get } from "svelte/store";
+import { describe, expect, it, vi } from "vitest";
+import { HybridWebCache, StorageEngine } from "../src";
+import { cacheStore } from "../src/svelte";
+
+describe("Svelte adapter", () => {
+	it("should emit the stored value and its changes while subscribed", async () => {
+		const cache = new HybridWebCache("svelte", { storage: StorageEngine.Memory });
+		cache.setSync("user", { name: "John" });
+		const values: unknown[] = [];
+
+		const unsubscribe = cacheStore<string>(cache, "user.name").subscribe((value) => values.push(value));
+		await cache.set("user.name", "Jane");
+		await cache.set("user.age", 42);
+		await cache.unset("user");
+
+		unsubscribe();
+		await cache.set("user.name", "Joe");
+
+		expect(values).toEqual(["John", "Jane", undefined]);
+	});
+
+	it("should write set and update through the cache", async () => {
+		const cache = new HybridWebCache("svelte-write", { storage: StorageEngine.Memory });
+		const count = cacheStore<number>(cache, "count", { seconds: 30 });
+
+		count.set(1);
+		count.update((value) => (value ?? 0) + 1);
+		expect(get(count)).toBe(2);
+		await vi.waitFor(() => expect(cache.getSync("count")?.value).toBe(2));
+		expect(cache.getSync("count")?.expiresAt).toBeGreaterThan(Date.now() + 25_000);
+
+		count.set(undefined);
+		await vi.waitFor(() => expect(cache.hasSync("count")).toBe(false));
+	});
+
+	it("should restore the stored value when a write fails", async () => {
+		const cache = new HybridWebCache("svelte-fail", { storage: StorageEngine.Memory });
+		cache.setSync("count", 1);
+		const count = cacheStore<number>(cache, "count");
+		const values: unknown[] = [];
+		count.subscribe((value) => values.push(value));
+		vi.spyOn(cache, "set").mockRejectedValue(new Error("QuotaExceededError"));
+
+		count.set(2);
+		await vi.waitFor(() => expect(values).toEqual([1, 2, 1]));
+	});
+
+	it("should reflect the changes made by another tab", async () => {
+		localStorage.clear();
+		const cache = new HybridWebCache("svelte-tabs", { storage: StorageEngine.LocalStorage });
+		const otherTab = new HybridWebCache("svelte-tabs", { storage: StorageEngine.LocalStorage });
+		const theme = cacheStore<string>(cache, "theme");
+		const values: unknown[] = [];
+		const unsubscribe = theme.subscribe((value) => values.push(value));
+
+		otherTab.setSync("theme", "dark");
+
+		await vi.waitFor(() => expect(values).toEqual([undefined, "dark"]));
+		unsubscribe();
+	});
+});
@@ -0,0 +1,141 @@
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { type CacheEvent, HybridWebCache, StorageEngine } from "../src";
+import { IndexedDBStrategy } from "../src/core/strategies";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("IndexedDBStrategy taggedKeys", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+	});
+
+	it("should query the multi-entry tags index instead of scanning the store", async () => {
+		const idb = new IndexedDBStrategy("tags");
+		await idb.set("orders", { value: "A", expiresAt: 0, tags: ["user:42", "reports"] });
+		await idb.set("sales", { value: "B", expiresAt: 0, tags: ["reports"] });
+		await idb.set("untagged", { value: "C", expiresAt: 0 });
+
+		const getAll = vi.spyOn(idb, "getAll");
+
+		expect(await idb.taggedKeys("user:42")).toEqual(["orders"]);
+		expect((await idb.taggedKeys("reports")).sort()).toEqual(["orders", "sales"]);
+		expect(await idb.taggedKeys("unknown")).toEqual([]);
+		expect(getAll).not.toHaveBeenCalled();
+	});
+
+	it("should add the tags index to a store created by a previous version", async () => {
+		await new Promise<void>((resolve) => {
+			const request = indexedDB.open("legacy-tags", 2);
+			request.onupgradeneeded = () => {
+				const store = request.result.createObjectStore("legacy-tags", { keyPath: "key" });
+				store.createIndex("expiresAt", "expiresAt");
+				store.put({ key: "orders", value: "A", expiresAt: 0, tags: ["user:42"] });
+			};
+			request.onsuccess = () => {
+				request.result.close();
+				resolve();
+			};
+		});
+
+		const idb = new IndexedDBStrategy("legacy-tags");
+		expect(await idb.taggedKeys("user:42")).toEqual(["orders"]);
+	});
+});
+
+describe("HybridWebCache tags", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+	});
+
+	it("should store the tags with the entry and keep them when rewritten without tags", async () => {
+		const cache = new HybridWebCache("tags", { storage: StorageEngine.Memory });
+
+		await cache.set("user.name", "John", { ttl: { minutes: 1 }, tags: ["user:42", "user:42", "profile"] });
+		expect(cache.getSync("user")?.expiresAt).toBeGreaterThan(Date.now() + 50_000);
+
+		cache.setSync("user.age", 42);
+		expect([...(await cache.getByTag("profile")).keys()]).toEqual(["user"]);
+
+		await cache.set("user.age", 43, { tags: [] });
+		expect((await cache.getByTag("profile")).size).toBe(0);
+	});
+
+	it.each([StorageEngine.Memory, StorageEngine.LocalStorage, StorageEngine.IndexedDB])("should get and invalidate the entries of a tag with storage %s", async (storage) => {
+		localStorage.clear();
+		const cache = new HybridWebCache("tags", { storage });
+		await cache.init();
+
+		await cache.set("orders", [1, 2], { tags: ["user:42", "reports"] });
+		cache.setSync("profile", { name: "John" }, { tags: ["user:42"] });
+		await cache.set("sales", 100, { tags: ["reports"] });
+		await cache.set("settings", { theme: "dark" });
+
+		const entries = await cache.getByTag("user:42");
+		expect(new Map([...entries].map(([key, { value }]) => [key, value]))).toEqual(
+			new Map<string, unknown>([
+				["orders", [1, 2]],
+				["profile", { name: "John" }],
+			])
+		);
+
+		const events: CacheEvent[] = [];
+		cache.on("unset", (event) => events.push(event));
+
+		expect(await cache.invalidateTag("reports")).toBe(2);
+		expect(events.map((event) => event.key).sort()).toEqual(["orders", "sales"]);
+		expect(cache.hasSync("orders")).toBe(false);
+		expect(cache.hasSync("sales")).toBe(false);
+		expect(cache.hasSync("profile")).toBe(true);
+		expect(cache.hasSync("settings")).toBe(true);
+
+		expect(await cache.invalidateTag("reports")).toBe(0);
+	});
+
+	it("should remove the expired tagged entries unless asked to return them", async () => {
+		const cache = new HybridWebCache("tags", { storage: StorageEngine.Memory });
+		await cache.set("old", "A", { ttl: 1, tags: ["feed"] });
+		await cache.set("new", "B", { ttl: { minutes: 1 }, tags: ["feed"] });
+		await wait(5);
+
+		const all = await cache.getByTag("feed", false);
+		expect(all.get("old")?.isExpired).toBe(true);
+
+		const fresh = await cache.getByTag("feed");
+		expect([...fresh.keys()]).toEqual(["new"]);
+		expect(cache.hasSync("old")).toBe(false);
+	});
+
+	it("should tag the results of getOrSet and wrap", async () => {
+		const cache = new HybridWebCache("tags", { storage: StorageEngine.Memory });
+
+		await cache.getOrSet("report", () => "R", { tags: ["reports"] });
+		const fetchUser = cache.wrap(async (id: number) => ({ id }), { key: (id) => [`user-${id}`], tags: ["users"] });
+		await fetchUser(1);
+		await fetchUser(2);
+
+		expect([...(await cache.getByTag("reports")).keys()]).toEqual(["report"]);
+		expect(await cache.invalidateTag("users")).toBe(2);
+	});
+
+	it("should find the tagged entries through the tiered and eviction wrappers", async () => {
+		const cache = new HybridWebCache("tags-tiered", {
+			storage: StorageEngine.IndexedDB,
+			tiered: { l1: { maxEntries: 1 }, writePolicy: "write-back" },
+			maxEntries: 10,
+		});
+		await cache.init();
+
+		await cache.set("a", "A", { tags: ["group"] });
+		await cache.set("b", "B", { tags: ["group"] });
+		await cache.flush();
+		cache.setSync("c", "C", { tags: ["group"] }); // pending in L1
+
+		expect([...(await cache.getByTag("group")).keys()].sort()).toEqual(["a", "b", "c"]);
+		expect(await cache.invalidateTag("group")).toBe(3);
+		expect(cache.length).toBe(0);
+	});
+});
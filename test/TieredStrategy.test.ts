@@ -0,0 +1,274 @@
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HybridWebCache, type StorageChange, StorageEngine } from "../src";
+import { IndexedDBStrategy, MemoryStrategy, TieredStrategy } from "../src/core/strategies";
+
+const data = (value: string) => ({ value, expiresAt: 0 });
+
+describe("MemoryStrategy with capacity limits", () => {
+	it("should evict the least recently used entry when maxEntries is exceeded", () => {
+		const onEvict = vi.fn();
+		const memory = new MemoryStrategy({ maxEntries: 2 }, onEvict);
+
+		memory.setSync("a", data("A"));
+		memory.setSync("b", data("B"));
+		memory.getSync("a"); // "b" is now the least recently used
+		memory.setSync("c", data("C"));
+
+		expect(memory.hasSync("a")).toBe(true);
+		expect(memory.hasSync("b")).toBe(false);
+		expect(memory.hasSync("c")).toBe(true);
+		expect(onEvict).toHaveBeenCalledWith("b", data("B"));
+	});
+
+	it("should evict entries until maxBytes is respected and track bytes incrementally", () => {
+		const memory = new MemoryStrategy({ maxBytes: 70 });
+
+		memory.setSync("a", data("A"));
+		const entryBytes = memory.bytes;
+		memory.setSync("b", data("B"));
+		memory.setSync("c", data("C"));
+
+		expect(memory.length).toBe(Math.floor(70 / entryBytes));
+		expect(memory.bytes).toBe(memory.length * entryBytes);
+
+		memory.unsetSync("c");
+		expect(memory.bytes).toBe(memory.length * entryBytes);
+	});
+
+	it("should keep an entry larger than maxBytes that was just written", () => {
+		const memory = new MemoryStrategy({ maxBytes: 10 });
+		memory.setSync("big", data("a value larger than the limit"));
+		expect(memory.hasSync("big")).toBe(true);
+	});
+});
+
+describe("TieredStrategy", () => {
+	let l2: MemoryStrategy;
+
+	beforeEach(() => {
+		l2 = new MemoryStrategy();
+	});
+
+	describe("write-through", () => {
+		it("should persist every write in L2", async () => {
+			const tiered = new TieredStrategy(l2, { l1: { maxEntries: 1 } });
+
+			await tiered.set("a", data("A"));
+			tiered.setSync("b", data("B"));
+
+			expect(l2.getSync("a")).toEqual(data("A"));
+			expect(l2.getSync("b")).toEqual(data("B"));
+			expect(tiered.length).toBe(2);
+		});
+
+		it("should serve L1 misses from L2 and promote them", async () => {
+			const tiered = new TieredStrategy(l2, { l1: { maxEntries: 1 } });
+			await tiered.set("a", data("A"));
+			await tiered.set("b", data("B")); // "a" is evicted from L1
+
+			const get = vi.spyOn(l2, "get");
+			expect(await tiered.get("a")).toEqual(data("A"));
+			expect(get).toHaveBeenCalledTimes(1);
+
+			expect(await tiered.get("a")).toEqual(data("A"));
+			expect(get).toHaveBeenCalledTimes(1); // served by L1 after promotion
+		});
+
+		it("should evict the least recently used keys from L2 when its limits are exceeded", async () => {
+			const tiered = new TieredStrategy(l2, { l2: { maxEntries: 2 } });
+
+			await tiered.set("a", data("A"));
+			await tiered.set("b", data("B"));
+			await tiered.get("a"); // "b" is now the least recently used
+			tiered.setSync("c", data("C"));
+
+			expect(l2.length).toBe(2);
+			expect(tiered.hasSync("b")).toBe(false);
+			expect(tiered.getSync("a")).toEqual(data("A"));
+			expect(tiered.getSync("c")).toEqual(data("C"));
+		});
+
+		it("should unset keys in both tiers", async () => {
+			const tiered = new TieredStrategy(l2);
+			await tiered.set("a", data("A"));
+			await tiered.set("b", data("B"));
+
+			expect(await tiered.unset("a")).toBe(true);
+			expect(l2.hasSync("a")).toBe(false);
+			expect(tiered.hasSync("a")).toBe(false);
+
+			expect(tiered.unsetSync()).toBe(true);
+			expect(tiered.length).toBe(0);
+			expect(tiered.getAllSync()).toBeNull();
+		});
+	});
+
+	describe("write-back", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should persist writes in L2 only when flushed", async () => {
+			const tiered = new TieredStrategy(l2, { writePolicy: "write-back" });
+
+			await tiered.set("a", data("A"));
+			expect(l2.hasSync("a")).toBe(false);
+			expect(tiered.getSync("a")).toEqual(data("A"));
+			expect(tiered.getAllSync()).toEqual(new Map([["a", data("A")]]));
+			expect(tiered.length).toBe(1);
+
+			await tiered.flush();
+			expect(l2.getSync("a")).toEqual(data("A"));
+			expect(tiered.length).toBe(1);
+		});
+
+		it("should flush pending writes after flushDelay", () => {
+			vi.useFakeTimers();
+			const tiered = new TieredStrategy(l2, { writePolicy: "write-back", flushDelay: 500 });
+
+			tiered.setSync("a", data("A"));
+			vi.advanceTimersByTime(499);
+			expect(l2.hasSync("a")).toBe(false);
+
+			vi.advanceTimersByTime(1);
+			expect(l2.hasSync("a")).toBe(true);
+		});
+
+		it("should keep the writes pending when L2 fails, and retry them after flushDelay", async () => {
+			vi.useFakeTimers();
+			const tiered = new TieredStrategy(l2, { writePolicy: "write-back", flushDelay: 500 });
+			vi.spyOn(l2, "set").mockRejectedValueOnce(new Error("Storage failed"));
+
+			tiered.setSync("a", data("A"));
+			await vi.advanceTimersByTimeAsync(500);
+			expect(l2.hasSync("a")).toBe(false);
+			expect(tiered.getAllSync()).toEqual(new Map([["a", data("A")]]));
+
+			await vi.advanceTimersByTimeAsync(500);
+			expect(l2.getSync("a")).toEqual(data("A"));
+		});
+
+		it("should persist the pending writes when the page is hidden, until disposed", () => {
+			const tiered = new TieredStrategy(l2, { writePolicy: "write-back" });
+
+			tiered.setSync("a", data("A"));
+			window.dispatchEvent(new Event("pagehide"));
+			expect(l2.hasSync("a")).toBe(true);
+
+			tiered.setSync("b", data("B"));
+			tiered.dispose();
+			expect(l2.hasSync("b")).toBe(true);
+
+			tiered.setSync("c", data("C"));
+			window.dispatchEvent(new Event("pagehide"));
+			expect(l2.hasSync("c")).toBe(false);
+			tiered.unsetSync();
+		});
+
+		it("should persist pending writes evicted from L1", () => {
+			const tiered = new TieredStrategy(l2, { l1: { maxEntries: 1 }, writePolicy: "write-back" });
+
+			tiered.setSync("a", data("A"));
+			tiered.setSync("b", data("B"));
+
+			expect(l2.getSync("a")).toEqual(data("A"));
+			expect(l2.hasSync("b")).toBe(false);
+		});
+
+		it("should drop pending writes that are unset", async () => {
+			const tiered = new TieredStrategy(l2, { writePolicy: "write-back" });
+
+			tiered.setSync("a", data("A"));
+			expect(tiered.unsetSync("a")).toBe(true);
+			await tiered.flush();
+
+			expect(l2.hasSync("a")).toBe(false);
+		});
+	});
+
+	it("should drop from L1 the entries changed in L2 by another tab", () => {
+		let notify: (change: StorageChange) => void = () => {};
+		Object.assign(l2, {
+			onRemoteChange: (listener: (change: StorageChange) => void) => {
+				notify = listener;
+				return () => {};
+			},
+		});
+		const tiered = new TieredStrategy(l2);
+		tiered.setSync("a", data("A"));
+
+		// Another tab writes "a" in the shared L2
+		l2.setSync("a", data("B"));
+		notify({ action: "sync", key: "a", value: data("B") });
+
+		expect(tiered.getSync("a")).toEqual(data("B"));
+	});
+
+	describe("HybridWebCache with tiered options", () => {
+		it("should keep the persistent engine as storage type and read through the tiers", async () => {
+			localStorage.clear();
+			const cache = new HybridWebCache("tiered", {
+				storage: StorageEngine.LocalStorage,
+				tiered: { l1: { maxEntries: 1 }, writePolicy: "write-back" },
+			});
+
+			await cache.set("user.name", "John");
+			await cache.set("theme", "dark");
+			expect(cache.storageType).toBe(StorageEngine.LocalStorage);
+			expect(cache.getSync("user.name")?.value).toBe("John");
+
+			await cache.flush();
+			expect(JSON.parse(localStorage.getItem("tiered::theme") ?? "{}").value).toEqual({ theme: "dark" });
+			expect(cache.getJsonSync()).toEqual({ user: { name: "John" }, theme: "dark" });
+		});
+
+		it("should only hold L1 in memory and read IndexedDB on demand", async () => {
+			Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+			Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+			const writer = new HybridWebCache("tiered-lazy", { storage: StorageEngine.IndexedDB });
+			for (let i = 0; i < 5; i++) await writer.set(`p${i}`, `P${i}`);
+
+			const evicted = vi.fn();
+			const cache = new HybridWebCache("tiered-lazy", { storage: StorageEngine.IndexedDB, tiered: { l1: { maxEntries: 2 }, l2: { maxEntries: 5 } }, onEvict: evicted });
+			const getAll = vi.spyOn(IndexedDBStrategy.prototype, "getAll");
+			await cache.init();
+
+			// The L2 entries are counted page by page, without being loaded
+			expect(cache.length).toBe(5);
+			expect(getAll).not.toHaveBeenCalled();
+			expect(cache.getSync("p1")).toBeUndefined();
+
+			expect((await cache.get("p1"))?.value).toBe("P1");
+			expect(cache.getSync("p1")?.value).toBe("P1");
+
+			await cache.set("p5", "P5");
+			expect(evicted).toHaveBeenCalledWith(["p0"]);
+			expect(cache.length).toBe(5);
+			expect(await new IndexedDBStrategy("tiered-lazy").has("p0")).toBe(false);
+		});
+
+		it("should keep the rest of an entry evicted from L1 when a keyPath inside it is changed synchronously", async () => {
+			const cache = new HybridWebCache("tiered-nested", { storage: StorageEngine.IndexedDB, tiered: { l1: { maxEntries: 1 } } });
+			await cache.init();
+
+			await cache.set("user.name", "John");
+			await cache.set("user.age", 42);
+			await cache.set("theme", "dark"); // "user" is evicted from L1
+
+			expect(cache.hasSync("user")).toBe(true);
+			expect(() => cache.setSync("user.name", "Jane")).toThrow('"user" is not held in memory');
+			expect(() => cache.unsetSync("user.age")).toThrow('"user" is not held in memory');
+			expect((await cache.get("user"))?.value).toEqual({ name: "John", age: 42 });
+
+			// Once read back into L1, the entry is changed in place
+			cache.setSync("user.name", "Jane");
+			expect((await cache.get("user"))?.value).toEqual({ name: "Jane", age: 42 });
+
+			await cache.set("theme", "light"); // "user" is evicted again, and removed as a whole
+			expect(cache.unsetSync("user")).toBe(true);
+			expect(await cache.has("user")).toBe(false);
+		});
+	});
+});
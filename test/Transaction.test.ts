@@ -0,0 +1,167 @@
+import FDBDatabase from "fake-indexeddb/lib/FDBDatabase";
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import FDBKeyRange from "fake-indexeddb/lib/FDBKeyRange";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type CacheEvent, type CacheTransaction, HybridWebCache, StorageEngine, type ValueType } from "../src";
+import { IndexedDBStrategy, MemoryStrategy } from "../src/core/strategies";
+import { Utils } from "../src/core/utils";
+
+type Item = { name: string; price: number };
+
+const addToCart = async (tx: CacheTransaction, item: Item) => {
+	const items = (await tx.get<Item[]>("cart.items"))?.value ?? [];
+	const updated = [...items, item];
+
+	await tx.set("cart.items", updated);
+	await tx.set("totals.cart", updated.reduce((sum, { price }) => sum + price, 0));
+	return updated.length;
+};
+
+describe("Utils commitOf", () => {
+	it("should restore the previous entries when a step of the commit fails", async () => {
+		const storage = new MemoryStrategy();
+		storage.setSync("a", { value: "old", expiresAt: 0 });
+		storage.setSync("b", { value: "B", expiresAt: 0 });
+		vi.spyOn(storage, "unset").mockRejectedValueOnce(new Error("Storage failed"));
+
+		const writes = new Map([
+			["a", { value: "new", expiresAt: 0 }],
+			["c", { value: "C", expiresAt: 0 }],
+		]);
+		await expect(Utils.commitOf(storage, writes, ["b"])).rejects.toThrow("Storage failed");
+
+		expect(storage.getSync("a")?.value).toBe("old");
+		expect(storage.hasSync("b")).toBe(true);
+		expect(storage.hasSync("c")).toBe(false);
+	});
+});
+
+describe("HybridWebCache transaction", () => {
+	beforeEach(() => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		Object.defineProperty(window, "IDBKeyRange", { value: FDBKeyRange, writable: true });
+		localStorage.clear();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it.each([StorageEngine.Memory, StorageEngine.LocalStorage, StorageEngine.IndexedDB, StorageEngine.Hybrid])("should commit the writes of the callback together with storage %s", async (storage) => {
+		const cache = new HybridWebCache("tx", { storage });
+		await cache.init();
+		await cache.set("cart.items", [{ name: "pen", price: 2 }]);
+		await cache.set("coupon", "SAVE10");
+
+		const events: CacheEvent[] = [];
+		cache.on("set", (event) => events.push(event));
+		cache.on("unset", (event) => events.push(event));
+
+		const count = await cache.transaction(async (tx) => {
+			const length = await addToCart(tx, { name: "book", price: 10 });
+
+			expect((await tx.get("totals.cart"))?.value).toBe(12);
+			expect(await tx.unset("coupon")).toBe(true);
+			expect(await tx.has("coupon")).toBe(false);
+			expect(await tx.unset("missing")).toBe(false);
+
+			// Nothing is visible outside the transaction before the commit
+			expect(cache.hasSync("totals")).toBe(false);
+			expect(events).toHaveLength(0);
+			return length;
+		});
+
+		expect(count).toBe(2);
+		expect(cache.getSync("cart.items")?.value).toHaveLength(2);
+		expect(cache.getSync("totals.cart")?.value).toBe(12);
+		expect(cache.hasSync("coupon")).toBe(false);
+		expect(events.map(({ type, keyPath }) => [type, keyPath])).toEqual([
+			["set", "cart.items"],
+			["set", "totals.cart"],
+			["unset", "coupon"],
+		]);
+	});
+
+	it("should apply nothing when the callback throws, and close the transaction", async () => {
+		const cache = new HybridWebCache("tx-rollback", { storage: StorageEngine.Memory });
+		await cache.set("cart.items", [{ name: "pen", price: 2 }]);
+		const events = vi.fn();
+		cache.on("set", events);
+
+		let leaked: CacheTransaction | undefined;
+		await expect(
+			cache.transaction(async (tx) => {
+				leaked = tx;
+				await addToCart(tx, { name: "book", price: 10 });
+				throw new Error("Payment refused");
+			})
+		).rejects.toThrow("Payment refused");
+
+		expect(cache.getSync("cart.items")?.value).toEqual([{ name: "pen", price: 2 }]);
+		expect(cache.hasSync("totals")).toBe(false);
+		expect(events).not.toHaveBeenCalled();
+		await expect(leaked?.set("totals.cart", 0)).rejects.toThrow("The transaction is already finished.");
+	});
+
+	it("should commit in a single IndexedDB transaction and notify other tabs with a single message", async () => {
+		const cache = new HybridWebCache("tx-idb", { storage: StorageEngine.IndexedDB });
+		const otherTab = new HybridWebCache("tx-idb", { storage: StorageEngine.IndexedDB });
+		await cache.init();
+		await cache.set("coupon", "SAVE10");
+		await vi.waitFor(() => expect(otherTab.hasSync("coupon")).toBe(true));
+
+		const remote: CacheEvent[] = [];
+		otherTab.on("set", (event) => remote.push(event));
+		otherTab.on("unset", (event) => remote.push(event));
+		const transactions = vi.spyOn(FDBDatabase.prototype, "transaction");
+		const messages = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+
+		await cache.transaction(async (tx) => {
+			await addToCart(tx, { name: "book", price: 10 });
+			await tx.unset("coupon");
+		});
+
+		// The keys not stored yet are looked up in IndexedDB, the commit writes them at once
+		expect(transactions.mock.calls.filter(([, mode]) => mode === "readwrite")).toHaveLength(1);
+		expect(messages).toHaveBeenCalledTimes(1);
+		expect(messages.mock.calls[0][0]).toMatchObject({ action: "commit", keys: ["coupon"] });
+
+		await vi.waitFor(() => expect(remote).toHaveLength(3));
+		expect(remote.every((event) => event.remote)).toBe(true);
+		expect(otherTab.getSync("totals.cart")?.value).toBe(10);
+		expect(otherTab.hasSync("coupon")).toBe(false);
+	});
+
+	it("should leave IndexedDB untouched when a value of the commit cannot be stored", async () => {
+		const cache = new HybridWebCache("tx-abort", { storage: StorageEngine.IndexedDB });
+		await cache.init();
+
+		await expect(
+			cache.transaction(async (tx) => {
+				await tx.set("cart.items", []);
+				await tx.set("totals.cart", (() => 0) as unknown as ValueType);
+			})
+		).rejects.toThrow();
+
+		expect(cache.hasSync("cart")).toBe(false);
+		expect(await new IndexedDBStrategy("tx-abort").getAll()).toBeNull();
+	});
+
+	it("should persist the commit at once through the tiers and within a namespace", async () => {
+		const cache = new HybridWebCache("tx-tiered", {
+			storage: StorageEngine.IndexedDB,
+			tiered: { l1: { maxEntries: 1 }, writePolicy: "write-back" },
+			maxEntries: 10,
+		});
+		await cache.init();
+		const shop = cache.namespace("shop");
+		shop.setSync("totals.cart", 99); // pending in L1
+
+		await shop.transaction((tx) => addToCart(tx, { name: "book", price: 10 }));
+
+		const persisted = new IndexedDBStrategy("tx-tiered");
+		expect((await persisted.get("shop:totals"))?.value).toEqual({ totals: { cart: 10 } });
+		expect((await persisted.get("shop:cart"))?.value).toEqual({ cart: { items: [{ name: "book", price: 10 }] } });
+		expect(shop.getSync("totals.cart")?.value).toBe(10);
+	});
+});
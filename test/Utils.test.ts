@@ -191,6 +191,40 @@ describe("Utils", () => {
 		});
 	});
 
+	describe('isCacheStorageAvailable', () => {
+		// Returns false when caches is not available in window object
+		it("should return false when caches does not exist in window", () => {
+			const result = Utils.isCacheStorageAvailable();
+			expect(result).toBe(false);
+		});
+
+		it('returns true when CacheStorage is available', () => {
+			Object.defineProperty(window, "caches", {
+				value: {},
+				configurable: true,
+				writable: true,
+			});
+			expect(Utils.isCacheStorageAvailable()).toBe(true);
+		});
+	});
+
+	describe('isOPFSAvailable', () => {
+		// Returns false when navigator.storage.getDirectory is not available
+		it("should return false when getDirectory does not exist in navigator.storage", () => {
+			const result = Utils.isOPFSAvailable();
+			expect(result).toBe(false);
+		});
+
+		it('returns true when OPFS is available', () => {
+			Object.defineProperty(navigator, "storage", {
+				value: { getDirectory: async () => ({}) },
+				configurable: true,
+				writable: true,
+			});
+			expect(Utils.isOPFSAvailable()).toBe(true);
+		});
+	});
+
 	describe('calculateStorageSize', () => {
 		// Should convert bytes to appropriate unit (b, kb, mb, gb) with correct value
 		it("should convert bytes to kb, mb and gb with correct values", () => {
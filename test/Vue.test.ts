@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp, defineComponent, effectScope, h, nextTick } from "vue";
+import { HybridWebCache, StorageEngine } from "../src";
+import { hybridWebCachePlugin, useCache } from "../src/vue";
+
+describe("Vue adapter", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should reflect the stored value and its changes", async () => {
+		const cache = new HybridWebCache("vue", { storage: StorageEngine.Memory });
+		cache.setSync("user", { name: "John" });
+		const scope = effectScope();
+		const name = scope.run(() => useCache<string>("user.name", { cache }));
+
+		expect(name?.value).toBe("John");
+
+		await cache.set("user.name", "Jane");
+		expect(name?.value).toBe("Jane");
+
+		await cache.unset("user");
+		expect(name?.value).toBeUndefined();
+
+		// Once the scope is disposed, the ref no longer follows the cache
+		scope.stop();
+		await cache.set("user.name", "Joe");
+		expect(name?.value).toBeUndefined();
+	});
+
+	it("should write assignments through set", async () => {
+		const cache = new HybridWebCache("vue-write", { storage: StorageEngine.Memory });
+		const theme = useCache<string>("settings.theme", { cache, ttl: { seconds: 30 } });
+
+		theme.value = "dark";
+		expect(theme.value).toBe("dark");
+		await vi.waitFor(() => expect(cache.getSync("settings.theme")?.value).toBe("dark"));
+		expect(cache.getSync("settings.theme")?.expiresAt).toBeGreaterThan(Date.now() + 25_000);
+
+		theme.value = undefined;
+		await vi.waitFor(() => expect(cache.hasSync("settings.theme")).toBe(false));
+	});
+
+	it("should restore the stored value when a write fails", async () => {
+		const cache = new HybridWebCache("vue-fail", { storage: StorageEngine.Memory });
+		cache.setSync("count", 1);
+		const count = useCache<number>("count", { cache });
+		vi.spyOn(cache, "set").mockRejectedValue(new Error("QuotaExceededError"));
+
+		count.value = 2;
+		expect(count.value).toBe(2);
+		await vi.waitFor(() => expect(count.value).toBe(1));
+	});
+
+	it("should re-render components with the cache provided by the plugin, including changes from another tab", async () => {
+		localStorage.clear();
+		const cache = new HybridWebCache("vue-tabs", { storage: StorageEngine.LocalStorage });
+		const otherTab = new HybridWebCache("vue-tabs", { storage: StorageEngine.LocalStorage });
+
+		const Theme = defineComponent({
+			setup() {
+				const theme = useCache<string>("theme");
+				return () => h("span", theme.value ?? "light");
+			},
+		});
+		const container = document.createElement("div");
+		const app = createApp(Theme).use(hybridWebCachePlugin(cache));
+		app.mount(container);
+		expect(container.textContent).toBe("light");
+
+		otherTab.setSync("theme", "dark");
+		await vi.waitFor(async () => {
+			await nextTick();
+			expect(container.textContent).toBe("dark");
+		});
+		app.unmount();
+	});
+
+	it("should throw without a cache", () => {
+		expect(() => useCache("theme")).toThrow("useCache requires a cache: install hybridWebCachePlugin or pass options.cache.");
+	});
+});
@@ -0,0 +1,133 @@
+import FDBFactory from "fake-indexeddb/lib/FDBFactory";
+import { describe, expect, it, vi } from "vitest";
+import { HybridWebCache, StorageEngine } from "../src";
+import { MemoryStrategy } from "../src/core/strategies";
+
+const newCache = () => new HybridWebCache("watch", { storage: StorageEngine.Memory });
+
+describe("HybridWebCache watch", () => {
+	it("should emit the current value, then every change, to subscribers", async () => {
+		const cache = newCache();
+		cache.setSync("user", { name: "John", age: 41 });
+
+		const next = vi.fn();
+		const subscription = cache.watch<string>("user.name").subscribe({ next });
+
+		await vi.waitFor(() => expect(next).toHaveBeenCalledTimes(1));
+
+		cache.setSync("user.age", 42);
+		cache.setSync("user", { name: "Jane", age: 42 });
+		cache.unsetSync("user");
+
+		expect(next.mock.calls.map(([model]) => model?.value)).toEqual(["John", "Jane", undefined]);
+		expect(next.mock.calls[0][0]).toMatchObject({ isExpired: false });
+
+		subscription.unsubscribe();
+		expect(subscription.closed).toBe(true);
+		cache.setSync("user.name", "Joe");
+		expect(next).toHaveBeenCalledTimes(3);
+	});
+
+	it("should emit the changes made while the current value is read instead of it", async () => {
+		const cache = newCache();
+		cache.setSync("user.name", "John");
+
+		const next = vi.fn();
+		cache.watch<string>("user.name").subscribe(next);
+		cache.setSync("user.name", "Jane");
+		cache.setSync("user.name", "Joe");
+
+		await vi.waitFor(() => expect(next).toHaveBeenCalledTimes(2));
+		expect(next.mock.calls.map(([model]) => model?.value)).toEqual(["Jane", "Joe"]);
+	});
+
+	it("should accept a function as observer and be an interop Observable", async () => {
+		const cache = newCache();
+		const watcher = cache.watch<number>(["counter"]);
+		const values: (number | undefined)[] = [];
+
+		watcher["@@observable"]().subscribe((model) => values.push(model?.value));
+		await vi.waitFor(() => expect(values).toEqual([undefined]));
+		cache.setSync("counter", 1);
+
+		expect(values).toEqual([undefined, 1]);
+	});
+
+	it("should read the current value from the storage when it is not held in memory", async () => {
+		Object.defineProperty(window, "indexedDB", { value: new FDBFactory(), writable: true });
+		const writer = new HybridWebCache("watch-lazy", { storage: StorageEngine.IndexedDB });
+		await writer.set("theme", "dark");
+
+		const cache = new HybridWebCache("watch-lazy", { storage: StorageEngine.IndexedDB, indexedDB: { lazy: true } });
+		await cache.init();
+		expect(cache.getSync("theme")).toBeUndefined();
+
+		const next = vi.fn();
+		cache.watch<string>("theme").subscribe({ next });
+		await vi.waitFor(() => expect(next).toHaveBeenCalledWith(expect.objectContaining({ value: "dark" })));
+	});
+
+	it("should report to the observer a current value that cannot be read", async () => {
+		const cache = newCache();
+		const failure = new Error("Storage failed");
+		const get = vi.spyOn(MemoryStrategy.prototype, "get").mockRejectedValueOnce(failure);
+		const observer = { next: vi.fn(), error: vi.fn() };
+
+		cache.watch("theme").subscribe(observer);
+
+		await vi.waitFor(() => expect(observer.error).toHaveBeenCalledWith(failure));
+		expect(observer.next).not.toHaveBeenCalled();
+		get.mockRestore();
+	});
+
+	it("should iterate over the current value and every change with for await", async () => {
+		const cache = newCache();
+		cache.setSync("user.name", "John");
+
+		const names: (string | undefined)[] = [];
+		const iteration = (async () => {
+			for await (const model of cache.watch<string>("user.name")) {
+				names.push(model?.value);
+				if (names.length === 3) break;
+			}
+		})();
+
+		await vi.waitFor(() => expect(names).toHaveLength(1));
+		cache.setSync("user.name", "Jane");
+		cache.setSync("user.name", "Joe");
+		await iteration;
+
+		expect(names).toEqual(["John", "Jane", "Joe"]);
+	});
+
+	it("should queue the changes not yet read and stop once returned", async () => {
+		const cache = newCache();
+		const iterator = cache.watch<number>("n")[Symbol.asyncIterator]();
+
+		cache.setSync("n", 1);
+		cache.setSync("n", 2);
+
+		expect(await iterator.next()).toEqual({ value: undefined, done: false });
+		expect((await iterator.next()).value?.value).toBe(1);
+		expect((await iterator.next()).value?.value).toBe(2);
+
+		const pending = iterator.next();
+		await iterator.return?.();
+		expect(await pending).toEqual({ value: undefined, done: true });
+
+		cache.setSync("n", 3);
+		expect(await iterator.next()).toEqual({ value: undefined, done: true });
+	});
+
+	it("should emit the changes made by another tab", async () => {
+		localStorage.clear();
+		const tab1 = new HybridWebCache("watch-remote", { storage: StorageEngine.LocalStorage });
+		const tab2 = new HybridWebCache("watch-remote", { storage: StorageEngine.LocalStorage });
+
+		const next = vi.fn();
+		tab2.watch("theme").subscribe(next);
+		tab1.setSync("theme", "dark");
+
+		await vi.waitFor(() => expect(next).toHaveBeenLastCalledWith(expect.objectContaining({ value: "dark" })));
+	});
+});
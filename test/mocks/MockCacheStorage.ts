@@ -0,0 +1,47 @@
+export class MockCache {
+	private store: Map<string, string> = new Map();
+
+	private url(request: RequestInfo | URL): string {
+		return typeof request === "string" ? request : request instanceof URL ? request.href : request.url;
+	}
+
+	async put(request: RequestInfo | URL, response: Response) {
+		this.store.set(this.url(request), await response.text());
+	}
+
+	async match(request: RequestInfo | URL) {
+		const body = this.store.get(this.url(request));
+		return body === undefined ? undefined : new Response(body);
+	}
+
+	async delete(request: RequestInfo | URL) {
+		return this.store.delete(this.url(request));
+	}
+
+	async keys() {
+		return [...this.store.keys()].map((url) => new Request(url));
+	}
+}
+
+export class MockCacheStorage {
+	private caches: Map<string, MockCache> = new Map();
+
+	async open(cacheName: string) {
+		if (!this.caches.has(cacheName)) {
+			this.caches.set(cacheName, new MockCache());
+		}
+		return this.caches.get(cacheName)!;
+	}
+
+	async has(cacheName: string) {
+		return this.caches.has(cacheName);
+	}
+
+	async delete(cacheName: string) {
+		return this.caches.delete(cacheName);
+	}
+
+	async keys() {
+		return [...this.caches.keys()];
+	}
+}
@@ -0,0 +1,66 @@
+function notFound(name: string) {
+	return new DOMException(`"${name}" could not be found.`, "NotFoundError");
+}
+
+export class MockFileSystemFileHandle {
+	readonly kind = "file";
+	content = "";
+
+	constructor(readonly name: string) {}
+
+	async getFile() {
+		const content = this.content;
+		return { name: this.name, size: new TextEncoder().encode(content).length, text: async () => content };
+	}
+
+	async createWritable() {
+		let buffer = "";
+		return {
+			write: async (data: string) => {
+				buffer += data;
+			},
+			close: async () => {
+				this.content = buffer;
+			},
+		};
+	}
+}
+
+export class MockFileSystemDirectoryHandle {
+	readonly kind = "directory";
+	private children: Map<string, MockFileSystemFileHandle | MockFileSystemDirectoryHandle> = new Map();
+
+	constructor(readonly name = "") {}
+
+	async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+		const handle = this.children.get(name);
+		if (handle instanceof MockFileSystemDirectoryHandle) return handle;
+		if (handle || !options?.create) throw notFound(name);
+
+		const directory = new MockFileSystemDirectoryHandle(name);
+		this.children.set(name, directory);
+		return directory;
+	}
+
+	async getFileHandle(name: string, options?: { create?: boolean }) {
+		const handle = this.children.get(name);
+		if (handle instanceof MockFileSystemFileHandle) return handle;
+		if (handle || !options?.create) throw notFound(name);
+
+		const file = new MockFileSystemFileHandle(name);
+		this.children.set(name, file);
+		return file;
+	}
+
+	async removeEntry(name: string) {
+		if (!this.children.delete(name)) throw notFound(name);
+	}
+
+	async *keys() {
+		yield* [...this.children.keys()];
+	}
+
+	async *entries() {
+		yield* [...this.children.entries()];
+	}
+}
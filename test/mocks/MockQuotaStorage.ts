@@ -0,0 +1,50 @@
+/**
+ * Web Storage mock that throws a `QuotaExceededError` once the stored keys and values
+ * exceed `quota` characters, as browsers do.
+ */
+export class MockQuotaStorage implements Storage {
+	private store: Map<string, string> = new Map();
+	quota: number;
+
+	constructor(quota: number) {
+		this.quota = quota;
+	}
+
+	private get used(): number {
+		let used = 0;
+		this.store.forEach((value, key) => {
+			used += key.length + value.length;
+		});
+		return used;
+	}
+
+	get length(): number {
+		return this.store.size;
+	}
+
+	key(index: number): string | null {
+		return [...this.store.keys()][index] ?? null;
+	}
+
+	getItem(key: string): string | null {
+		return this.store.get(key) ?? null;
+	}
+
+	setItem(key: string, value: string): void {
+		const previous = this.store.get(key);
+		const used = this.used - (previous === undefined ? 0 : key.length + previous.length);
+
+		if (used + key.length + value.length > this.quota) {
+			throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+		}
+		this.store.set(key, value);
+	}
+
+	removeItem(key: string): void {
+		this.store.delete(key);
+	}
+
+	clear(): void {
+		this.store.clear();
+	}
+}